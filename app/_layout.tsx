@@ -1,12 +1,24 @@
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
+import { setDatabaseDriver } from '../database/driver';
+import { expoDriver } from '../database/drivers/expo';
 import '../global.css';
+import { expoPdfPrinter } from '../lib/expoPdfPrinter';
+import { expoReminderScheduler, listenForReminders } from '../lib/expoReminderScheduler';
+import { noteService } from '../services/NoteService';
 import '../ReactotronConfig';
 
+// The app stores notes with expo-sqlite, prints PDFs with expo-print and
+// delivers reminders with expo-notifications
+setDatabaseDriver(expoDriver);
+noteService.setPdfPrinter(expoPdfPrinter);
+noteService.setReminderScheduler(expoReminderScheduler);
+
 export {
   // Catch any errors thrown by the Layout component.
   ErrorBoundary
@@ -14,10 +26,26 @@ export {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Notifications are rebuilt from the stored reminders on every launch
+  useEffect(() => {
+    noteService.initialize().then((result) => {
+      if (result.success) {
+        noteService.rescheduleReminders();
+      }
+    });
+
+    return listenForReminders({
+      onOpen: (noteId) => router.push(`/note/${noteId}`),
+      onSnooze: (noteId) => noteService.snoozeReminder(noteId),
+      onDone: (noteId) => noteService.completeReminder(noteId),
+    });
+  }, [router]);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
@@ -28,6 +56,9 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="note/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="folder/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="history/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="trash" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
@@ -0,0 +1,470 @@
+import { Feather } from "@expo/vector-icons";
+import { LegendList } from "@legendapp/list";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  Modal,
+  SafeAreaView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Folder, FolderWithCount } from "../../database/models/Folder";
+import { NoteSearchResult } from "../../database/models/Note";
+import noteService from "../../services/NoteService";
+
+// Route ID used for the top level of the hierarchy
+const ROOT_FOLDER_ID = "root";
+
+const FOLDER_COLORS = [
+  "#f97316",
+  "#ef4444",
+  "#3b82f6",
+  "#22c55e",
+  "#a855f7",
+  "#eab308",
+  "#ec4899",
+  "#6b7280",
+];
+
+type FolderListItem =
+  | { type: "folder"; folder: FolderWithCount }
+  | { type: "note"; note: NoteSearchResult };
+
+const formatDate = (isoString: string): string =>
+  new Date(isoString).toLocaleDateString("en-US", {
+    month: "numeric",
+    day: "numeric",
+    year: "numeric",
+  });
+
+// Header following Inky Notes design system
+interface FolderHeaderProps {
+  title: string;
+  onBack: () => void;
+  onNewFolder: () => void;
+  onNewNote: () => void;
+}
+
+const FolderHeader: React.FC<FolderHeaderProps> = ({
+  title,
+  onBack,
+  onNewFolder,
+  onNewNote,
+}) => (
+  <View className="bg-white border-b border-gray-100 px-4 py-3">
+    <View className="flex-row items-center justify-between gap-1.5">
+      <TouchableOpacity
+        onPress={onBack}
+        className="px-4 py-2 rounded-md active:bg-orange-100"
+      >
+        <Text className="text-orange-600 text-sm font-medium">← Back</Text>
+      </TouchableOpacity>
+      <Text
+        className="flex-1 text-center text-lg font-semibold text-gray-900"
+        numberOfLines={1}
+      >
+        {title}
+      </Text>
+      <View className="flex-row items-center gap-1.5">
+        <TouchableOpacity
+          onPress={onNewFolder}
+          className="w-8 h-8 rounded-full bg-gray-100 items-center justify-center active:bg-gray-200"
+        >
+          <Feather name="folder-plus" size={16} color="#f97316" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onNewNote}
+          className="w-8 h-8 bg-orange-500 rounded-full items-center justify-center active:bg-orange-600"
+        >
+          <Text className="text-white text-lg font-bold">+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </View>
+);
+
+// Breadcrumb trail from the top level to the current folder
+interface BreadcrumbsProps {
+  path: Folder[];
+  onNavigate: (folderId: string) => void;
+}
+
+const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ path, onNavigate }) => (
+  <View className="flex-row flex-wrap items-center gap-1.5 px-4 pt-4">
+    <TouchableOpacity onPress={() => onNavigate(ROOT_FOLDER_ID)}>
+      <Text className="text-orange-600 text-xs font-medium">Folders</Text>
+    </TouchableOpacity>
+    {path.map((folder, index) => (
+      <View key={folder.id} className="flex-row items-center gap-1.5">
+        <Text className="text-gray-400 text-xs">›</Text>
+        {index === path.length - 1 ? (
+          <Text className="text-gray-900 text-xs font-medium">
+            {folder.name}
+          </Text>
+        ) : (
+          <TouchableOpacity onPress={() => onNavigate(folder.id)}>
+            <Text className="text-orange-600 text-xs font-medium">
+              {folder.name}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    ))}
+  </View>
+);
+
+// Folder row
+interface FolderRowProps {
+  folder: FolderWithCount;
+  onPress: () => void;
+  onLongPress: () => void;
+}
+
+const FolderRow: React.FC<FolderRowProps> = ({
+  folder,
+  onPress,
+  onLongPress,
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    onLongPress={onLongPress}
+    className="flex-row items-center bg-white border border-gray-200 rounded-lg mx-4 mb-2 px-4 py-3 active:bg-orange-50"
+  >
+    <Feather name="folder" size={20} color={folder.color ?? "#f97316"} />
+    <Text
+      className="flex-1 ml-3 text-gray-900 text-base font-medium"
+      numberOfLines={1}
+    >
+      {folder.name}
+    </Text>
+    <Text className="text-gray-400 text-xs mr-2">{folder.noteCount}</Text>
+    <Feather name="chevron-right" size={18} color="#9ca3af" />
+  </TouchableOpacity>
+);
+
+// Note row
+interface NoteRowProps {
+  note: NoteSearchResult;
+  onPress: () => void;
+}
+
+const NoteRow: React.FC<NoteRowProps> = ({ note, onPress }) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className="bg-white border border-gray-200 rounded-lg mx-4 mb-2 px-4 py-3 active:bg-orange-50"
+  >
+    <Text className="text-gray-900 text-base font-medium" numberOfLines={1}>
+      {note.title}
+    </Text>
+    <Text className="text-gray-400 text-xs mt-1">
+      {formatDate(note.lastModified)} · {note.wordCount} words
+    </Text>
+  </TouchableOpacity>
+);
+
+// Dialog for naming and coloring a folder
+interface FolderDialogProps {
+  visible: boolean;
+  title: string;
+  initialName: string;
+  initialColor: string | null;
+  onSubmit: (name: string, color: string | null) => void;
+  onCancel: () => void;
+}
+
+const FolderDialog: React.FC<FolderDialogProps> = ({
+  visible,
+  title,
+  initialName,
+  initialColor,
+  onSubmit,
+  onCancel,
+}) => {
+  const [name, setName] = useState<string>(initialName);
+  const [color, setColor] = useState<string | null>(initialColor);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View className="flex-1 items-center justify-center bg-black/30 p-6">
+        <View className="w-full bg-white rounded-xl p-6 gap-6">
+          <Text className="text-lg font-semibold text-gray-900">{title}</Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Folder name"
+            placeholderTextColor="#9ca3af"
+            autoFocus
+            selectionColor="#f97316"
+            className="px-4 py-3 bg-gray-100 border border-gray-200 rounded-lg text-base text-gray-900"
+          />
+          <View className="flex-row flex-wrap gap-1.5">
+            {FOLDER_COLORS.map((swatch) => (
+              <TouchableOpacity
+                key={swatch}
+                onPress={() => setColor(swatch === color ? null : swatch)}
+                className={`w-8 h-8 rounded-full ${
+                  swatch === color ? "border-2 border-gray-900" : ""
+                }`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+          </View>
+          <View className="flex-row justify-end gap-1.5">
+            <TouchableOpacity
+              onPress={onCancel}
+              className="px-4 py-2 rounded-md active:bg-gray-100"
+            >
+              <Text className="text-gray-600 text-sm font-medium">Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onSubmit(name, color)}
+              disabled={!name.trim()}
+              className={`px-4 py-2 rounded-md ${
+                name.trim()
+                  ? "bg-orange-500 active:bg-orange-600"
+                  : "bg-gray-300"
+              }`}
+            >
+              <Text className="text-white text-sm font-medium">Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+type DialogState =
+  { mode: "create" } | { mode: "edit"; folder: FolderWithCount } | null;
+
+export default function FolderBrowser(): React.ReactElement {
+  const { id } = useLocalSearchParams();
+  const routeId = typeof id === "string" ? id : id?.[0] || ROOT_FOLDER_ID;
+  const folderId = routeId === ROOT_FOLDER_ID ? null : routeId;
+  const router = useRouter();
+
+  const [path, setPath] = useState<Folder[]>([]);
+  const [items, setItems] = useState<FolderListItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  const loadFolder = useCallback(async () => {
+    setError(null);
+
+    try {
+      const initResult = await noteService.initialize();
+      if (!initResult.success) {
+        throw new Error("Failed to initialize database");
+      }
+
+      if (folderId) {
+        const pathResult = await noteService.getFolderPath(folderId);
+        if (!pathResult.success || !pathResult.data) {
+          throw new Error(pathResult.error?.message || "Folder not found");
+        }
+        setPath(pathResult.data);
+      } else {
+        setPath([]);
+      }
+
+      const [foldersResult, notesResult] = await Promise.all([
+        noteService.getFolders(folderId),
+        noteService.searchNotes({
+          folderId,
+          sortBy: "lastModified",
+          sortOrder: "desc",
+          projection: "list",
+          limit: 1000,
+        }),
+      ]);
+
+      if (!foldersResult.success || !notesResult.success) {
+        throw new Error("Failed to load folder contents");
+      }
+
+      setItems([
+        ...(foldersResult.data ?? []).map((folder): FolderListItem => ({
+          type: "folder",
+          folder,
+        })),
+        ...(notesResult.data?.notes ?? []).map((note): FolderListItem => ({
+          type: "note",
+          note,
+        })),
+      ]);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [folderId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFolder();
+    }, [loadFolder])
+  );
+
+  const openFolder = (targetId: string): void => {
+    router.push(`/folder/${targetId}`);
+  };
+
+  const handleNewNote = (): void => {
+    router.navigate(folderId ? `/note/new?folderId=${folderId}` : `/note/new`);
+  };
+
+  const handleDialogSubmit = async (
+    name: string,
+    color: string | null
+  ): Promise<void> => {
+    if (!dialog) {
+      return;
+    }
+
+    const result =
+      dialog.mode === "create"
+        ? await noteService.createFolder({ name, color, parentId: folderId })
+        : await noteService.renameFolder(dialog.folder.id, name);
+
+    if (
+      result.success &&
+      dialog.mode === "edit" &&
+      color !== dialog.folder.color
+    ) {
+      await noteService.setFolderColor(dialog.folder.id, color);
+    }
+
+    setDialog(null);
+    if (!result.success) {
+      Alert.alert("Error", result.error?.message || "Failed to save folder");
+    }
+    loadFolder();
+  };
+
+  const handleDeleteFolder = (folder: FolderWithCount): void => {
+    const runDelete = async (mode: "cascade" | "reparent"): Promise<void> => {
+      const result = await noteService.deleteFolder(folder.id, mode);
+      if (!result.success) {
+        Alert.alert(
+          "Error",
+          result.error?.message || "Failed to delete folder"
+        );
+      }
+      loadFolder();
+    };
+
+    Alert.alert(
+      "Delete Folder",
+      `What should happen to the notes and folders inside "${folder.name}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Move Up a Level", onPress: () => runDelete("reparent") },
+        {
+          text: "Delete Everything",
+          style: "destructive",
+          onPress: () => runDelete("cascade"),
+        },
+      ]
+    );
+  };
+
+  const handleFolderLongPress = (folder: FolderWithCount): void => {
+    Alert.alert(folder.name, undefined, [
+      { text: "Edit", onPress: () => setDialog({ mode: "edit", folder }) },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => handleDeleteFolder(folder),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const title = path.length > 0 ? path[path.length - 1].name : "Folders";
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <FolderHeader
+        title={title}
+        onBack={() => router.back()}
+        onNewFolder={() => setDialog({ mode: "create" })}
+        onNewNote={handleNewNote}
+      />
+
+      {folderId && (
+        <Breadcrumbs
+          path={path}
+          onNavigate={(targetId) => router.navigate(`/folder/${targetId}`)}
+        />
+      )}
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-base">Loading folder...</Text>
+        </View>
+      ) : error ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-center mb-6">{error}</Text>
+          <TouchableOpacity
+            onPress={loadFolder}
+            className="bg-orange-500 px-6 py-3 rounded-lg active:bg-orange-600"
+          >
+            <Text className="text-white font-medium">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : items.length === 0 ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-6xl mb-4">📁</Text>
+          <Text className="text-gray-600 text-center">
+            This folder is empty.{"\n"}Add a folder or a note to get started.
+          </Text>
+        </View>
+      ) : (
+        <LegendList
+          data={items}
+          keyExtractor={(item) =>
+            item.type === "folder" ? `folder-${item.folder.id}` : item.note.id
+          }
+          estimatedItemSize={64}
+          renderItem={({ item }) =>
+            item.type === "folder" ? (
+              <FolderRow
+                folder={item.folder}
+                onPress={() => openFolder(item.folder.id)}
+                onLongPress={() => handleFolderLongPress(item.folder)}
+              />
+            ) : (
+              <NoteRow
+                note={item.note}
+                onPress={() => router.navigate(`/note/${item.note.id}`)}
+              />
+            )
+          }
+          contentContainerStyle={{ paddingTop: 16, paddingBottom: 24 }}
+        />
+      )}
+
+      {dialog && (
+        <FolderDialog
+          visible
+          title={dialog.mode === "create" ? "New Folder" : "Edit Folder"}
+          initialName={dialog.mode === "edit" ? dialog.folder.name : ""}
+          initialColor={dialog.mode === "edit" ? dialog.folder.color : null}
+          onSubmit={handleDialogSubmit}
+          onCancel={() => setDialog(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
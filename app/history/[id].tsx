@@ -0,0 +1,300 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Note } from "../../database/models/Note";
+import {
+  NoteRevision,
+  NoteRevisionSummary,
+} from "../../database/models/NoteRevision";
+import { diffWords } from "../../lib/wordDiff";
+import noteService from "../../services/NoteService";
+
+const formatDateTime = (isoString: string): string =>
+  new Date(isoString).toLocaleString("en-US", {
+    month: "numeric",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Header following Inky Notes design system
+interface HistoryHeaderProps {
+  title: string;
+  onBack: () => void;
+}
+
+const HistoryHeader: React.FC<HistoryHeaderProps> = ({ title, onBack }) => (
+  <View className="bg-white border-b border-gray-100 px-4 py-3">
+    <View className="flex-row items-center justify-between gap-1.5">
+      <TouchableOpacity
+        onPress={onBack}
+        className="px-4 py-2 rounded-md active:bg-orange-100"
+      >
+        <Text className="text-orange-600 text-sm font-medium">← Back</Text>
+      </TouchableOpacity>
+      <Text
+        className="flex-1 text-center text-lg font-semibold text-gray-900"
+        numberOfLines={1}
+      >
+        {title}
+      </Text>
+      {/* Spacer keeps the title centered against the back button */}
+      <View className="w-20" />
+    </View>
+  </View>
+);
+
+// Revision list row
+interface RevisionRowProps {
+  revision: NoteRevisionSummary;
+  isSelected: boolean;
+  isLatest: boolean;
+  onPress: () => void;
+}
+
+const RevisionRow: React.FC<RevisionRowProps> = ({
+  revision,
+  isSelected,
+  isLatest,
+  onPress,
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`border rounded-lg mx-4 mb-2 px-4 py-3 ${
+      isSelected
+        ? "bg-orange-50 border-orange-300"
+        : "bg-white border-gray-200 active:bg-orange-50"
+    }`}
+  >
+    <View className="flex-row items-center justify-between">
+      <Text className="text-gray-900 text-sm font-medium">
+        {formatDateTime(revision.lastModified)}
+      </Text>
+      {isLatest && (
+        <Text className="text-orange-600 text-xs font-medium">Latest</Text>
+      )}
+    </View>
+    <Text className="text-gray-400 text-xs mt-1" numberOfLines={1}>
+      v{revision.version} · {revision.wordCount} words · {revision.title}
+    </Text>
+  </TouchableOpacity>
+);
+
+// Word-level diff from the selected revision to the current note
+interface RevisionDiffProps {
+  revisionText: string;
+  currentText: string;
+}
+
+const RevisionDiff: React.FC<RevisionDiffProps> = ({
+  revisionText,
+  currentText,
+}) => {
+  const segments = useMemo(
+    () => diffWords(revisionText, currentText),
+    [revisionText, currentText]
+  );
+
+  if (segments.every((segment) => segment.type === "equal")) {
+    return (
+      <Text className="text-gray-600 text-sm">
+        This version matches the current note.
+      </Text>
+    );
+  }
+
+  return (
+    <Text className="text-gray-900 text-sm leading-6">
+      {segments.map((segment, index) =>
+        segment.type === "equal" ? (
+          <Text key={index}>{segment.text}</Text>
+        ) : segment.type === "added" ? (
+          <Text key={index} className="bg-green-100 text-green-800">
+            {segment.text}
+          </Text>
+        ) : (
+          <Text key={index} className="bg-red-100 text-red-700 line-through">
+            {segment.text}
+          </Text>
+        )
+      )}
+    </Text>
+  );
+};
+
+export default function NoteHistory(): React.ReactElement {
+  const { id } = useLocalSearchParams();
+  const noteId = typeof id === "string" ? id : id?.[0] || "";
+  const router = useRouter();
+
+  const [note, setNote] = useState<Note | null>(null);
+  const [revisions, setRevisions] = useState<NoteRevisionSummary[]>([]);
+  const [selected, setSelected] = useState<NoteRevision | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isRestoring, setIsRestoring] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setError(null);
+
+    try {
+      const initResult = await noteService.initialize();
+      if (!initResult.success) {
+        throw new Error("Failed to initialize database");
+      }
+
+      const [noteResult, revisionsResult] = await Promise.all([
+        noteService.getNote(noteId),
+        noteService.getNoteRevisions(noteId),
+      ]);
+
+      if (!noteResult.success || !noteResult.data) {
+        throw new Error(noteResult.error?.message || "Note not found");
+      }
+      if (!revisionsResult.success) {
+        throw new Error(
+          revisionsResult.error?.message || "Failed to load history"
+        );
+      }
+
+      setNote(noteResult.data);
+      setRevisions(revisionsResult.data ?? []);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleSelectRevision = async (revisionId: string): Promise<void> => {
+    if (selected?.id === revisionId) {
+      setSelected(null);
+      return;
+    }
+
+    const result = await noteService.getNoteRevision(revisionId);
+    if (result.success && result.data) {
+      setSelected(result.data);
+    } else {
+      Alert.alert("Error", result.error?.message || "Failed to load version");
+    }
+  };
+
+  const handleRestore = (): void => {
+    if (!selected) {
+      return;
+    }
+
+    Alert.alert(
+      "Restore Version",
+      `Replace the current note with the version from ${formatDateTime(
+        selected.lastModified
+      )}? The current text stays in the history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: async () => {
+            setIsRestoring(true);
+            const result = await noteService.restoreRevision(
+              noteId,
+              selected.id
+            );
+            setIsRestoring(false);
+
+            if (result.success) {
+              router.back();
+            } else {
+              Alert.alert(
+                "Error",
+                result.error?.message || "Failed to restore version"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <HistoryHeader title="History" onBack={() => router.back()} />
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-base">Loading history...</Text>
+        </View>
+      ) : error || !note ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-center mb-6">{error}</Text>
+          <TouchableOpacity
+            onPress={loadHistory}
+            className="bg-orange-500 px-6 py-3 rounded-lg active:bg-orange-600"
+          >
+            <Text className="text-white font-medium">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : revisions.length === 0 ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-6xl mb-4">🕘</Text>
+          <Text className="text-gray-600 text-center">
+            No history yet.{"\n"}Versions appear here as you edit.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ paddingTop: 16, paddingBottom: 24 }}
+        >
+          {revisions.map((revision, index) => (
+            <View key={revision.id}>
+              <RevisionRow
+                revision={revision}
+                isSelected={selected?.id === revision.id}
+                isLatest={index === 0}
+                onPress={() => handleSelectRevision(revision.id)}
+              />
+              {selected?.id === revision.id && (
+                <View className="bg-white border border-gray-200 rounded-lg mx-4 mb-4 p-4 gap-4">
+                  <Text className="text-gray-400 text-xs">
+                    Changes since this version
+                  </Text>
+                  <RevisionDiff
+                    revisionText={selected.plainText}
+                    currentText={note.plainText}
+                  />
+                  <TouchableOpacity
+                    onPress={handleRestore}
+                    disabled={isRestoring}
+                    className={`px-4 py-3 rounded-lg items-center ${
+                      isRestoring
+                        ? "bg-gray-300"
+                        : "bg-orange-500 active:bg-orange-600"
+                    }`}
+                  >
+                    <Text className="text-white text-sm font-medium">
+                      {isRestoring ? "Restoring..." : "Restore this version"}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
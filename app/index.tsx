@@ -1,11 +1,18 @@
 import { Feather } from "@expo/vector-icons";
 import { LegendList } from "@legendapp/list";
 import { useFocusEffect, useRouter } from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Alert,
   RefreshControl,
   SafeAreaView,
+  ScrollView,
   Text,
   TextInput,
   TouchableOpacity,
@@ -16,7 +23,18 @@ import Animated, {
   FadeOutUp,
   LinearTransition,
 } from "react-native-reanimated";
-import { Note } from "../database/models/Note";
+import {
+  LOCKED_NOTE_TITLE,
+  NoteSearchPage,
+  NoteSearchResult,
+  SEARCH_HIGHLIGHT_CLOSE,
+  SEARCH_HIGHLIGHT_OPEN,
+  SearchNotesParams,
+} from "../database/models/Note";
+import { NoteTemplate } from "../database/models/Template";
+import ReminderPickerModal from "../components/ReminderPickerModal";
+import TemplatePickerModal from "../components/TemplatePickerModal";
+import { isReminderDue } from "../lib/reminders";
 import noteService from "../services/NoteService";
 
 // Search Input Component
@@ -52,11 +70,113 @@ const SearchInput: React.FC<SearchInputProps> = ({
   </View>
 );
 
+// Delay before running a search while the user is typing
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Notes fetched per page as the list scrolls
+const PAGE_SIZE = 50;
+
+// Home list query; content is left out since cards only show previews
+const HOME_LIST_PARAMS: SearchNotesParams = {
+  sortBy: "lastModified",
+  sortOrder: "desc",
+  pinnedFirst: true,
+  projection: "list",
+  limit: PAGE_SIZE,
+};
+
+const searchParamsFor = (query: string): SearchNotesParams => ({
+  query,
+  pinnedFirst: true,
+  projection: "list",
+  limit: PAGE_SIZE,
+});
+
+const EMPTY_PAGE: NoteSearchPage = { notes: [], nextCursor: null };
+
+// Append the next page unless the list was reloaded while it was fetched.
+// Notes already listed are skipped, since an edited note can move ahead of
+// the cursor.
+const appendPage = (
+  current: NoteSearchPage,
+  cursor: string,
+  next: NoteSearchPage
+): NoteSearchPage => {
+  if (current.nextCursor !== cursor) {
+    return current;
+  }
+  const listedIds = new Set(current.notes.map((note) => note.id));
+  return {
+    notes: [
+      ...current.notes,
+      ...next.notes.filter((note) => !listedIds.has(note.id)),
+    ],
+    nextCursor: next.nextCursor,
+  };
+};
+
+// Merge changed notes into a page, keeping the pinned-first, newest-first
+// order. removedIds are notes that no longer exist, e.g. deleted on another
+// device.
+const mergeChangedNotes = (
+  current: NoteSearchPage,
+  changed: NoteSearchResult[],
+  removedIds: string[] = []
+): NoteSearchPage => {
+  const changedIds = new Set([
+    ...changed.map((note) => note.id),
+    ...removedIds,
+  ]);
+  const notes = [
+    ...changed.filter((note) => !note.isDeleted),
+    ...current.notes.filter((note) => !changedIds.has(note.id)),
+  ].sort(
+    (a, b) =>
+      Number(b.isPinned) - Number(a.isPinned) ||
+      b.lastModified.localeCompare(a.lastModified)
+  );
+  return { ...current, notes };
+};
+
+const removeNote = (page: NoteSearchPage, noteId: string): NoteSearchPage => ({
+  ...page,
+  notes: page.notes.filter((note) => note.id !== noteId),
+});
+
+// Snippet text with matched terms emphasized
+interface HighlightedTextProps {
+  text: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => {
+  const segments = text.split(SEARCH_HIGHLIGHT_OPEN);
+
+  return (
+    <Text className="text-gray-600 text-sm leading-relaxed" numberOfLines={3}>
+      {segments.map((segment, index) => {
+        if (index === 0) {
+          return <Text key={index}>{segment}</Text>;
+        }
+        const [match, rest = ""] = segment.split(SEARCH_HIGHLIGHT_CLOSE);
+        return (
+          <Text key={index}>
+            <Text className="text-orange-600 font-semibold">{match}</Text>
+            {rest}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+};
+
 // Note Card Component
 interface NoteCardProps {
-  note: Note;
+  note: NoteSearchResult;
+  snippet?: string;
   onPress: () => void;
+  onLongPress: () => void;
   onDelete: () => void;
+  onToggleFavorite: () => void;
 }
 
 const formatDate = (isoString: string): string => {
@@ -71,7 +191,14 @@ const formatDate = (isoString: string): string => {
   });
 };
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onPress, onDelete }) => (
+const NoteCard: React.FC<NoteCardProps> = ({
+  note,
+  snippet,
+  onPress,
+  onLongPress,
+  onDelete,
+  onToggleFavorite,
+}) => (
   <Animated.View
     entering={FadeInDown.duration(400).springify()}
     exiting={FadeOutUp.duration(300).springify()}
@@ -80,6 +207,7 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onPress, onDelete }) => (
   >
     <TouchableOpacity
       onPress={onPress}
+      onLongPress={onLongPress}
       className="bg-white border border-gray-200 rounded-lg mb-4 p-6 shadow-sm active:scale-[1.02] transition-all duration-200 ease-out min-h-[120px]"
       style={{ paddingRight: 44, marginLeft: 16, marginRight: 16 }}
     >
@@ -91,19 +219,38 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onPress, onDelete }) => (
           className="text-gray-900 text-base font-medium mb-2"
           numberOfLines={2}
         >
-          {note.title}
-        </Text>
-        <Text
-          className="text-gray-600 text-sm leading-relaxed"
-          numberOfLines={3}
-        >
-          {note.plainText}
+          {note.isLocked ? `🔒 ${LOCKED_NOTE_TITLE}` : note.title}
         </Text>
+        {note.isLocked ? (
+          <Text className="text-gray-400 text-sm italic">
+            Unlock to read this note
+          </Text>
+        ) : snippet ? (
+          <HighlightedText text={snippet} />
+        ) : (
+          <Text
+            className="text-gray-600 text-sm leading-relaxed"
+            numberOfLines={3}
+          >
+            {note.plainText}
+          </Text>
+        )}
         <View className="flex-row items-center mt-2 gap-4">
           <Text className="text-gray-400 text-xs">{note.wordCount} words</Text>
           {note.isPinned && (
             <Text className="text-orange-500 text-xs">📌 Pinned</Text>
           )}
+          {note.reminderAt && (
+            <Text
+              className={`text-xs ${
+                isReminderDue(note.reminderAt)
+                  ? "text-red-500"
+                  : "text-orange-500"
+              }`}
+            >
+              ⏰ {formatDate(note.reminderAt)}
+            </Text>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -114,28 +261,191 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onPress, onDelete }) => (
     >
       <Feather name="trash-2" size={20} color="#f97316" />
     </TouchableOpacity>
+    <TouchableOpacity
+      onPress={onToggleFavorite}
+      className="absolute top-16 right-6 z-20 p-2 rounded-full bg-gray-100 active:bg-gray-200"
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <Text
+        className={`text-lg leading-5 ${
+          note.isFavorite ? "text-orange-500" : "text-gray-400"
+        }`}
+      >
+        {note.isFavorite ? "★" : "☆"}
+      </Text>
+    </TouchableOpacity>
   </Animated.View>
 );
 
+// Heading between groups of notes in the list
+interface SectionHeaderProps {
+  title: string;
+}
+
+const SectionHeader: React.FC<SectionHeaderProps> = ({ title }) => (
+  <Text className="text-gray-900 text-sm font-semibold mx-4 mb-2">{title}</Text>
+);
+
+type HomeListItem =
+  { type: "section"; title: string } | { type: "note"; note: NoteSearchResult };
+
+// Group pinned notes into their own section ahead of the rest. Notes are
+// expected to arrive pinned-first, so each group keeps its sort order.
+const buildListItems = (notes: NoteSearchResult[]): HomeListItem[] => {
+  const toItem = (note: NoteSearchResult): HomeListItem => ({
+    type: "note",
+    note,
+  });
+
+  const pinned = notes.filter((note) => note.isPinned);
+  if (pinned.length === 0) {
+    return notes.map(toItem);
+  }
+
+  const others = notes.filter((note) => !note.isPinned);
+  return [
+    { type: "section", title: "📌 Pinned" },
+    ...pinned.map(toItem),
+    ...(others.length > 0
+      ? [{ type: "section", title: "Notes" } as HomeListItem]
+      : []),
+    ...others.map(toItem),
+  ];
+};
+
+// Favorites strip shown above the note list
+interface FavoritesSectionProps {
+  favorites: NoteSearchResult[];
+  onPress: (noteId: string) => void;
+}
+
+const FavoritesSection: React.FC<FavoritesSectionProps> = ({
+  favorites,
+  onPress,
+}) => (
+  <View className="mb-6">
+    <SectionHeader title="⭐ Favorites" />
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}
+    >
+      {favorites.map((note) => (
+        <TouchableOpacity
+          key={note.id}
+          onPress={() => onPress(note.id)}
+          className="w-40 bg-orange-50 border border-orange-200 rounded-lg p-3 active:bg-orange-100"
+        >
+          <Text className="text-gray-900 text-sm font-medium" numberOfLines={2}>
+            {note.title}
+          </Text>
+          <Text className="text-gray-400 text-xs mt-1">
+            {note.wordCount} words
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  </View>
+);
+
+// Upcoming and overdue reminders, soonest first, above the note list
+interface RemindersSectionProps {
+  reminders: NoteSearchResult[];
+  onPress: (noteId: string) => void;
+}
+
+const RemindersSection: React.FC<RemindersSectionProps> = ({
+  reminders,
+  onPress,
+}) => (
+  <View className="mb-6">
+    <SectionHeader title="⏰ Reminders" />
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={{ paddingHorizontal: 16, gap: 8 }}
+    >
+      {reminders.map((note) => (
+        <TouchableOpacity
+          key={note.id}
+          onPress={() => onPress(note.id)}
+          className="w-40 bg-orange-50 border border-orange-200 rounded-lg p-3 active:bg-orange-100"
+        >
+          <Text className="text-gray-900 text-sm font-medium" numberOfLines={2}>
+            {note.isLocked ? `🔒 ${LOCKED_NOTE_TITLE}` : note.title}
+          </Text>
+          <Text
+            className={`text-xs mt-1 ${
+              isReminderDue(note.reminderAt!) ? "text-red-500" : "text-gray-400"
+            }`}
+          >
+            {formatDate(note.reminderAt!)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  </View>
+);
+
 // Main App Header
 interface AppHeaderProps {
   onNewNote: () => void;
+  onNewFromTemplate: () => void;
+  onOpenFolders: () => void;
+  onOpenTrash: () => void;
 }
 
-const AppHeader: React.FC<AppHeaderProps> = ({ onNewNote }) => (
+const AppHeader: React.FC<AppHeaderProps> = ({
+  onNewNote,
+  onNewFromTemplate,
+  onOpenFolders,
+  onOpenTrash,
+}) => (
   <View className="bg-white border-b border-gray-100 px-4 py-4">
     <View className="flex-row justify-between items-center">
       <Text className="text-gray-900 text-xl font-semibold">Inky Notes</Text>
-      <TouchableOpacity
-        onPress={onNewNote}
-        className="
-          w-8 h-8 bg-orange-500 rounded-full
-          items-center justify-center
-          active:bg-orange-600
-        "
-      >
-        <Text className="text-white text-lg font-bold">+</Text>
-      </TouchableOpacity>
+      <View className="flex-row items-center gap-1.5">
+        <TouchableOpacity
+          onPress={onOpenFolders}
+          className="
+            w-8 h-8 bg-gray-100 rounded-full
+            items-center justify-center
+            active:bg-gray-200
+          "
+        >
+          <Feather name="folder" size={16} color="#f97316" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onOpenTrash}
+          className="
+            w-8 h-8 bg-gray-100 rounded-full
+            items-center justify-center
+            active:bg-gray-200
+          "
+        >
+          <Feather name="trash" size={16} color="#f97316" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onNewFromTemplate}
+          className="
+            w-8 h-8 bg-gray-100 rounded-full
+            items-center justify-center
+            active:bg-gray-200
+          "
+        >
+          <Feather name="file-text" size={16} color="#f97316" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onNewNote}
+          className="
+            w-8 h-8 bg-orange-500 rounded-full
+            items-center justify-center
+            active:bg-orange-600
+          "
+        >
+          <Text className="text-white text-lg font-bold">+</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   </View>
 );
@@ -205,60 +515,211 @@ const ErrorState: React.FC<ErrorStateProps> = ({ message, onRetry }) => (
 // Main App Component
 export default function Index(): React.ReactElement {
   const [searchQuery, setSearchQuery] = useState<string>("");
-  const [notes, setNotes] = useState<Note[]>([]);
+  const [page, setPage] = useState<NoteSearchPage>(EMPTY_PAGE);
+  const [favorites, setFavorites] = useState<NoteSearchResult[]>([]);
+  const [reminders, setReminders] = useState<NoteSearchResult[]>([]);
+  const [isTemplatePickerVisible, setIsTemplatePickerVisible] =
+    useState<boolean>(false);
+  const [reminderNote, setReminderNote] = useState<NoteSearchResult | null>(
+    null
+  );
+  const [searchPage, setSearchPage] = useState<NoteSearchPage | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
 
-  // Filter notes based on search query
-  const filteredNotes = notes.filter(
-    (note: Note) =>
-      note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.plainText.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.tags.some((tag) =>
-        tag.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+  // When the list was last brought up to date; later changes are merged in
+  // on focus instead of reloading every page
+  const syncedAtRef = useRef<string | null>(null);
+  // Notes changed without moving their modification time (pins, sync pulls)
+  // that are still to be merged in
+  const changedNoteIdsRef = useRef<Set<string>>(new Set());
+
+  const notes = page.notes;
+  const trimmedQuery = searchQuery.trim();
+
+  // Ranked search results replace the full list while a query is active
+  const filteredNotes: NoteSearchResult[] = searchPage?.notes ?? notes;
+  const listItems = useMemo(
+    () => buildListItems(filteredNotes),
+    [filteredNotes]
   );
 
-  // Load notes from database
-  const loadNotes = useCallback(async (showLoading = true) => {
-    try {
-      if (showLoading) {
-        setIsLoading(true);
+  // Run full-text search as the query changes (and when notes reload)
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setSearchPage(null);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await noteService.searchNotes(
+        searchParamsFor(trimmedQuery)
+      );
+      if (!isCancelled) {
+        setSearchPage(result.success && result.data ? result.data : EMPTY_PAGE);
       }
-      setError(null);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery, notes]);
+
+  const loadFavorites = useCallback(async () => {
+    const result = await noteService.searchNotes({
+      isFavorite: true,
+      sortBy: "lastModified",
+      sortOrder: "desc",
+      projection: "list",
+      limit: 50,
+    });
+    setFavorites(result.data?.notes ?? []);
+  }, []);
+
+  const loadReminders = useCallback(async () => {
+    const result = await noteService.searchNotes({
+      hasReminder: true,
+      sortBy: "reminder",
+      sortOrder: "asc",
+      projection: "list",
+      limit: 50,
+    });
+    setReminders(result.data?.notes ?? []);
+  }, []);
 
-      // Initialize database
-      const initResult = await noteService.initialize();
-      if (!initResult.success) {
-        throw new Error("Failed to initialize database");
+  // Load the first page of notes from the database
+  const loadNotes = useCallback(
+    async (showLoading = true) => {
+      try {
+        if (showLoading) {
+          setIsLoading(true);
+        }
+        setError(null);
+
+        // Initialize database
+        const initResult = await noteService.initialize();
+        if (!initResult.success) {
+          throw new Error("Failed to initialize database");
+        }
+
+        const syncedAt = new Date().toISOString();
+        const [result] = await Promise.all([
+          noteService.searchNotes(HOME_LIST_PARAMS),
+          loadFavorites(),
+          loadReminders(),
+        ]);
+
+        if (result.success && result.data) {
+          setPage(result.data);
+          syncedAtRef.current = syncedAt;
+          console.log(
+            `✅ Loaded ${result.data.notes.length} notes from database`
+          );
+        } else {
+          throw new Error(result.error?.message || "Failed to load notes");
+        }
+      } catch (err) {
+        console.error("❌ Failed to load notes:", err);
+        setError(
+          err instanceof Error ? err.message : "An unexpected error occurred"
+        );
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
       }
+    },
+    [loadFavorites, loadReminders]
+  );
+
+  // Pick up notes modified since the last load, e.g. after editing a note,
+  // and the notes reported changed since
+  const refreshChangedNotes = useCallback(async () => {
+    const since = syncedAtRef.current;
+    if (!since) {
+      return;
+    }
 
-      // Search for all notes (excluding deleted ones)
-      const result = await noteService.searchNotes({
-        includeDeleted: false,
-        sortBy: "lastModified",
-        sortOrder: "desc",
-        limit: 1000,
-      });
-
-      if (result.success && result.data) {
-        setNotes(result.data);
-        console.log(`✅ Loaded ${result.data.length} notes from database`);
+    const ids = Array.from(changedNoteIdsRef.current);
+    changedNoteIdsRef.current.clear();
+    // Too much changed to merge; start over from the first page
+    if (ids.length > PAGE_SIZE) {
+      await loadNotes(false);
+      return;
+    }
+
+    const syncedAt = new Date().toISOString();
+    const changedParams = { ...HOME_LIST_PARAMS, includeDeleted: true };
+    const [modified, reported] = await Promise.all([
+      noteService.searchNotes({ ...changedParams, updatedSince: since }),
+      ids.length > 0
+        ? noteService.searchNotes({ ...changedParams, ids })
+        : null,
+    ]);
+    if (!modified.success || !modified.data || reported?.success === false) {
+      ids.forEach((id) => changedNoteIdsRef.current.add(id));
+      return;
+    }
+
+    if (modified.data.nextCursor) {
+      await loadNotes(false);
+      return;
+    }
+
+    syncedAtRef.current = syncedAt;
+    const changed = new Map(
+      [...(reported?.data?.notes ?? []), ...modified.data.notes].map((note) => [
+        note.id,
+        note,
+      ])
+    );
+    const removedIds = ids.filter((id) => !changed.has(id));
+    if (changed.size > 0 || removedIds.length > 0) {
+      setPage((current) =>
+        mergeChangedNotes(current, Array.from(changed.values()), removedIds)
+      );
+      await Promise.all([loadFavorites(), loadReminders()]);
+    }
+  }, [loadNotes, loadFavorites, loadReminders]);
+
+  // Merge in notes changed elsewhere as they are reported
+  useEffect(
+    () =>
+      noteService.onNotesChanged((noteIds) => {
+        noteIds.forEach((id) => changedNoteIdsRef.current.add(id));
+        refreshChangedNotes();
+      }),
+    [refreshChangedNotes]
+  );
+
+  // Fetch the next page of notes or search results near the end of the list
+  const handleEndReached = useCallback(async () => {
+    const current = searchPage ?? page;
+    const cursor = current.nextCursor;
+    if (!cursor || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    const params = searchPage
+      ? searchParamsFor(trimmedQuery)
+      : HOME_LIST_PARAMS;
+    const result = await noteService.searchNotes({ ...params, cursor });
+    setIsLoadingMore(false);
+
+    if (result.success && result.data) {
+      const next = result.data;
+      if (searchPage) {
+        setSearchPage((prev) => prev && appendPage(prev, cursor, next));
       } else {
-        throw new Error(result.error?.message || "Failed to load notes");
+        setPage((prev) => appendPage(prev, cursor, next));
       }
-    } catch (err) {
-      console.error("❌ Failed to load notes:", err);
-      setError(
-        err instanceof Error ? err.message : "An unexpected error occurred"
-      );
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
     }
-  }, []);
+  }, [page, searchPage, trimmedQuery, isLoadingMore]);
 
   // Refresh notes
   const handleRefresh = useCallback(() => {
@@ -271,19 +732,14 @@ export default function Index(): React.ReactElement {
     loadNotes();
   }, [loadNotes]);
 
-  // Refresh notes when screen comes into focus (e.g., after editing a note)
+  // Merge in changes when the screen comes back into focus
   useFocusEffect(
     useCallback(() => {
-      // Refresh notes when returning to this screen
-      const refreshOnFocus = async () => {
-        if (__DEV__) {
-          console.log("📱 Home screen focused - refreshing notes");
-        }
-        await loadNotes(false); // Don't show loading spinner for focus refresh
-      };
-
-      refreshOnFocus();
-    }, [loadNotes])
+      if (__DEV__) {
+        console.log("📱 Home screen focused - checking for changed notes");
+      }
+      refreshChangedNotes();
+    }, [refreshChangedNotes])
   );
 
   const handleNotePress = (noteId: string): void => {
@@ -300,6 +756,80 @@ export default function Index(): React.ReactElement {
     router.navigate(`/note/new`);
   };
 
+  const handleNewFromTemplate = (): void => {
+    setIsTemplatePickerVisible(true);
+  };
+
+  const handleSelectTemplate = (template: NoteTemplate): void => {
+    setIsTemplatePickerVisible(false);
+    if (__DEV__) {
+      console.tron?.log("Creating new note from template", template.id);
+    }
+    router.navigate(`/note/new?templateId=${template.id}`);
+  };
+
+  const handleOpenFolders = (): void => {
+    router.navigate(`/folder/root`);
+  };
+
+  const handleOpenTrash = (): void => {
+    router.navigate(`/trash`);
+  };
+
+  const handleToggleFavorite = useCallback(async (note: NoteSearchResult) => {
+    const result = await noteService.setFavorite(note.id, !note.isFavorite);
+    if (!result.success) {
+      Alert.alert(
+        "Error",
+        result.error?.message || "Failed to update favorite"
+      );
+    }
+  }, []);
+
+  const handleNoteLongPress = useCallback((note: NoteSearchResult) => {
+    Alert.alert(note.title, undefined, [
+      {
+        text: note.isPinned ? "Unpin" : "Pin to Top",
+        onPress: async () => {
+          const result = await noteService.setPinned(note.id, !note.isPinned);
+          if (!result.success) {
+            Alert.alert(
+              "Error",
+              result.error?.message || "Failed to update pin"
+            );
+          }
+        },
+      },
+      {
+        text: note.reminderAt ? "Reminder..." : "Remind Me...",
+        onPress: () => setReminderNote(note),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }, []);
+
+  // Set, snooze or finish the reminder of the note picked from the menu
+  const handleUpdateReminder = useCallback(
+    async (
+      update: (noteId: string) => ReturnType<typeof noteService.setReminder>
+    ) => {
+      const note = reminderNote;
+      setReminderNote(null);
+      if (!note) {
+        return;
+      }
+
+      const result = await update(note.id);
+      if (!result.success) {
+        Alert.alert(
+          "Error",
+          result.error?.message || "Failed to update reminder"
+        );
+      }
+    },
+    [reminderNote]
+  );
+
   const handleDeleteNote = useCallback(async (noteId: string) => {
     Alert.alert(
       "Delete Note",
@@ -312,7 +842,8 @@ export default function Index(): React.ReactElement {
           onPress: async () => {
             const result = await noteService.deleteNote(noteId);
             if (result.success) {
-              setNotes((prev) => prev.filter((n) => n.id !== noteId));
+              setPage((prev) => removeNote(prev, noteId));
+              setSearchPage((prev) => prev && removeNote(prev, noteId));
             } else {
               Alert.alert(
                 "Error",
@@ -329,7 +860,12 @@ export default function Index(): React.ReactElement {
   if (isLoading) {
     return (
       <SafeAreaView className="flex-1 bg-gray-50">
-        <AppHeader onNewNote={handleNewNote} />
+        <AppHeader
+          onNewNote={handleNewNote}
+          onNewFromTemplate={handleNewFromTemplate}
+          onOpenFolders={handleOpenFolders}
+          onOpenTrash={handleOpenTrash}
+        />
         <LoadingState />
       </SafeAreaView>
     );
@@ -339,7 +875,12 @@ export default function Index(): React.ReactElement {
   if (error) {
     return (
       <SafeAreaView className="flex-1 bg-gray-50">
-        <AppHeader onNewNote={handleNewNote} />
+        <AppHeader
+          onNewNote={handleNewNote}
+          onNewFromTemplate={handleNewFromTemplate}
+          onOpenFolders={handleOpenFolders}
+          onOpenTrash={handleOpenTrash}
+        />
         <ErrorState message={error} onRetry={() => loadNotes()} />
       </SafeAreaView>
     );
@@ -347,7 +888,12 @@ export default function Index(): React.ReactElement {
 
   return (
     <SafeAreaView className="flex-1 bg-gray-50">
-      <AppHeader onNewNote={handleNewNote} />
+      <AppHeader
+        onNewNote={handleNewNote}
+        onNewFromTemplate={handleNewFromTemplate}
+        onOpenFolders={handleOpenFolders}
+        onOpenTrash={handleOpenTrash}
+      />
 
       <View className="flex-1">
         <View className="pt-6">
@@ -369,18 +915,54 @@ export default function Index(): React.ReactElement {
             )
           ) : (
             <LegendList
-              data={filteredNotes}
-              keyExtractor={(item) => item.id}
+              data={listItems}
+              keyExtractor={(item) =>
+                item.type === "section" ? `section-${item.title}` : item.note.id
+              }
               estimatedItemSize={120}
-              renderItem={({ item }) => (
-                <View className="px-4">
-                  <NoteCard
-                    note={item}
-                    onPress={() => handleNotePress(item.id)}
-                    onDelete={() => handleDeleteNote(item.id)}
-                  />
-                </View>
-              )}
+              ListHeaderComponent={
+                !searchPage ? (
+                  <>
+                    {reminders.length > 0 && (
+                      <RemindersSection
+                        reminders={reminders}
+                        onPress={handleNotePress}
+                      />
+                    )}
+                    {favorites.length > 0 && (
+                      <FavoritesSection
+                        favorites={favorites}
+                        onPress={handleNotePress}
+                      />
+                    )}
+                  </>
+                ) : null
+              }
+              renderItem={({ item }) =>
+                item.type === "section" ? (
+                  <SectionHeader title={item.title} />
+                ) : (
+                  <View className="px-4">
+                    <NoteCard
+                      note={item.note}
+                      snippet={item.note.snippet}
+                      onPress={() => handleNotePress(item.note.id)}
+                      onLongPress={() => handleNoteLongPress(item.note)}
+                      onDelete={() => handleDeleteNote(item.note.id)}
+                      onToggleFavorite={() => handleToggleFavorite(item.note)}
+                    />
+                  </View>
+                )
+              }
+              onEndReached={handleEndReached}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                isLoadingMore ? (
+                  <Text className="text-center text-gray-400 text-sm py-4">
+                    Loading more...
+                  </Text>
+                ) : null
+              }
               refreshControl={
                 <RefreshControl
                   refreshing={isRefreshing}
@@ -394,6 +976,29 @@ export default function Index(): React.ReactElement {
           )}
         </View>
       </View>
+
+      <ReminderPickerModal
+        visible={reminderNote !== null}
+        reminderAt={reminderNote?.reminderAt ?? null}
+        onSelect={(reminderAt) =>
+          handleUpdateReminder((noteId) =>
+            noteService.setReminder(noteId, reminderAt)
+          )
+        }
+        onSnooze={() =>
+          handleUpdateReminder((noteId) => noteService.snoozeReminder(noteId))
+        }
+        onDone={() =>
+          handleUpdateReminder((noteId) => noteService.completeReminder(noteId))
+        }
+        onClose={() => setReminderNote(null)}
+      />
+
+      <TemplatePickerModal
+        visible={isTemplatePickerVisible}
+        onSelect={handleSelectTemplate}
+        onClose={() => setIsTemplatePickerVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -1,19 +1,60 @@
 import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Alert, AppState, SafeAreaView, Text, TextInput, TouchableOpacity, View } from "react-native";
+import BacklinksPanel from "../../components/BacklinksPanel";
+import FolderPickerModal from "../../components/FolderPickerModal";
+import PassphraseModal from "../../components/PassphraseModal";
+import ReminderPickerModal from "../../components/ReminderPickerModal";
 import TipTapEditor from "../../components/TipTapEditor";
-import { Note } from "../../database/models/Note";
+import { isVersionConflict, LOCKED_NOTE_TITLE, Note, UpdateNoteParams } from "../../database/models/Note";
+import { NoteLinkTarget } from "../../database/models/NoteLink";
+import { CollaborationUser, pickCollaboratorColor } from "../../lib/collaboration";
+import { TEMPLATE_VARIABLES } from "../../lib/templates";
 import noteService from "../../services/NoteService";
 
+// Unlocked notes are edited together when a relay is configured
+const COLLAB_RELAY_URL = process.env.EXPO_PUBLIC_COLLAB_RELAY_URL;
+const collaborator: CollaborationUser = {
+  name: process.env.EXPO_PUBLIC_COLLAB_USER_NAME || "Guest",
+  color: pickCollaboratorColor(),
+};
+
 // Header component following Inky Notes design system
 interface NoteHeaderProps {
   onBack: () => void;
   onSave: () => void;
+  onOpenFolders: () => void;
+  onOpenReminder: () => void;
+  onOpenHistory: () => void;
+  onSaveAsTemplate: () => void;
+  onToggleFavorite: () => void;
+  onTogglePinned: () => void;
+  onToggleLock: () => void;
+  isFavorite: boolean;
+  isPinned: boolean;
+  isLocked: boolean;
+  hasReminder: boolean;
   hasUnsavedChanges: boolean;
   isSaving: boolean;
 }
 
-const NoteHeader: React.FC<NoteHeaderProps> = ({ onBack, onSave, hasUnsavedChanges, isSaving }) => (
+const NoteHeader: React.FC<NoteHeaderProps> = ({
+  onBack,
+  onSave,
+  onOpenFolders,
+  onOpenReminder,
+  onOpenHistory,
+  onSaveAsTemplate,
+  onToggleFavorite,
+  onTogglePinned,
+  onToggleLock,
+  isFavorite,
+  isPinned,
+  isLocked,
+  hasReminder,
+  hasUnsavedChanges,
+  isSaving,
+}) => (
   <View className="bg-gradient-to-br from-yellow-50 via-orange-50 to-yellow-100 px-4 py-3 border-b border-orange-200">
     <View className="flex-row items-center justify-between gap-1.5">
       <TouchableOpacity
@@ -31,26 +72,112 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({ onBack, onSave, hasUnsavedChang
         Inky Notes
       </Text>
 
-      <TouchableOpacity
-        onPress={onSave}
-        disabled={isSaving}
-        className={`
-          px-4 py-2 rounded-md
-          transition-all duration-200 ease-out
-          active:scale-[1.02]
-          shadow-sm
-          ${isSaving
-            ? 'bg-gray-400 opacity-50'
-            : hasUnsavedChanges
-              ? 'bg-orange-600 active:bg-orange-700'
-              : 'bg-orange-500 active:bg-orange-600'
-          }
-        `}
-      >
-        <Text className="text-white text-sm font-medium">
-          {isSaving ? 'Saving...' : 'Save'}
-        </Text>
-      </TouchableOpacity>
+      <View className="flex-row items-center gap-1.5">
+        <TouchableOpacity
+          onPress={onToggleFavorite}
+          className="
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+          "
+        >
+          <Text className={`text-base ${isFavorite ? 'text-orange-500' : 'text-gray-400'}`}>
+            {isFavorite ? '★' : '☆'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onTogglePinned}
+          className={`
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+            ${isPinned ? 'bg-orange-100' : 'opacity-50'}
+          `}
+        >
+          <Text className="text-sm">📌</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onOpenFolders}
+          className="
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+          "
+        >
+          <Text className="text-sm">📁</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onOpenReminder}
+          className={`
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+            ${hasReminder ? 'bg-orange-100' : 'opacity-50'}
+          `}
+        >
+          <Text className="text-sm">⏰</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onToggleLock}
+          className={`
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+            ${isLocked ? 'bg-orange-100' : ''}
+          `}
+        >
+          <Text className="text-sm">{isLocked ? '🔒' : '🔓'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onOpenHistory}
+          className="
+            px-3 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02] active:bg-orange-100
+          "
+        >
+          <Text className="text-sm">🕘</Text>
+        </TouchableOpacity>
+
+        {!isLocked && (
+          <TouchableOpacity
+            onPress={onSaveAsTemplate}
+            className="
+              px-3 py-2 rounded-md
+              transition-all duration-200 ease-out
+              active:scale-[1.02] active:bg-orange-100
+            "
+          >
+            <Text className="text-sm">📋</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          onPress={onSave}
+          disabled={isSaving}
+          className={`
+            px-4 py-2 rounded-md
+            transition-all duration-200 ease-out
+            active:scale-[1.02]
+            shadow-sm
+            ${isSaving
+              ? 'bg-gray-400 opacity-50'
+              : hasUnsavedChanges
+                ? 'bg-orange-600 active:bg-orange-700'
+                : 'bg-orange-500 active:bg-orange-600'
+            }
+          `}
+        >
+          <Text className="text-white text-sm font-medium">
+            {isSaving ? 'Saving...' : 'Save'}
+          </Text>
+        </TouchableOpacity>
+      </View>
     </View>
   </View>
 );
@@ -133,13 +260,48 @@ const ErrorState: React.FC<ErrorStateProps> = ({ message, onRetry, onBack }) =>
   </SafeAreaView>
 );
 
+// Shown in place of a locked note until its passphrase is entered
+interface LockedStateProps {
+  onUnlock: () => void;
+  onBack: () => void;
+}
+
+const LockedState: React.FC<LockedStateProps> = ({ onUnlock, onBack }) => (
+  <SafeAreaView className="flex-1 bg-gradient-to-br from-yellow-50 via-orange-50 to-yellow-100">
+    <View className="flex-1 items-center justify-center p-6">
+      <Text className="text-4xl mb-4">🔒</Text>
+      <Text className="text-gray-900 text-lg font-medium mb-2">This note is locked</Text>
+      <Text className="text-gray-600 text-center mb-6">
+        Enter its passphrase to read and edit it.
+      </Text>
+      <View className="flex-row gap-4">
+        <TouchableOpacity
+          onPress={onBack}
+          className="bg-gray-500 px-6 py-3 rounded-md"
+        >
+          <Text className="text-white font-medium">Go Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onUnlock}
+          className="bg-orange-500 px-6 py-3 rounded-md"
+        >
+          <Text className="text-white font-medium">Unlock</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </SafeAreaView>
+);
+
 export default function NoteDetail() {
-  const { id } = useLocalSearchParams();
+  const { id, folderId, templateId } = useLocalSearchParams();
   const noteId = typeof id === 'string' ? id : id?.[0] || '';
+  const initialFolderId = typeof folderId === 'string' ? folderId : null;
+  const initialTemplateId = typeof templateId === 'string' ? templateId : null;
   const router = useRouter();
 
   // Refs
   const titleInputRef = useRef<TextInput>(null);
+  const isViewingHistoryRef = useRef<boolean>(false);
 
   // State management
   const [note, setNote] = useState<Note | null>(null);
@@ -148,12 +310,42 @@ export default function NoteDetail() {
   const [originalContent, setOriginalContent] = useState<string>('');
   const [originalTitle, setOriginalTitle] = useState<string>('');
   const [isNewNote, setIsNewNote] = useState<boolean>(false);
+  // Where the caret starts in a note just created from a template
+  const [templateCursor, setTemplateCursor] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState<boolean>(false);
   const [isInitializing, setIsInitializing] = useState<boolean>(false);
   const [shouldDiscardChanges, setShouldDiscardChanges] = useState<boolean>(false);
+  const [isFolderPickerVisible, setIsFolderPickerVisible] = useState<boolean>(false);
+  const [isReminderPickerVisible, setIsReminderPickerVisible] = useState<boolean>(false);
+  const [isUnlockRequired, setIsUnlockRequired] = useState<boolean>(false);
+  const [passphraseMode, setPassphraseMode] = useState<'unlock' | 'lock' | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [isApplyingPassphrase, setIsApplyingPassphrase] = useState<boolean>(false);
+
+  // Show a loaded (or just unlocked) note in the editor
+  const showNote = useCallback((loadedNote: Note): void => {
+    setNote(loadedNote);
+    setNoteContent(loadedNote.content);
+    setNoteTitle(loadedNote.title);
+    setOriginalContent(loadedNote.content);
+    setOriginalTitle(loadedNote.title);
+    setIsNewNote(false);
+    setHasUnsavedChanges(false); // Reset unsaved changes
+  }, []);
+
+  // Clear a locked note's decrypted text from the screen
+  const hideNote = useCallback((lockedNote: Note): void => {
+    setNote({ ...lockedNote, title: LOCKED_NOTE_TITLE, content: '', plainText: '' });
+    setNoteContent('');
+    setNoteTitle('');
+    setOriginalContent('');
+    setOriginalTitle('');
+    setHasUnsavedChanges(false);
+    setIsUnlockRequired(true);
+  }, []);
 
   // Initialize database and load note
   const loadNote = useCallback(async () => {
@@ -173,25 +365,36 @@ export default function NoteDetail() {
         const result = await noteService.getNote(noteId);
 
         if (result.success && result.data) {
-          // Existing note found
+          // Existing note found; locked notes wait for their passphrase
           const loadedNote = result.data;
-          setNote(loadedNote);
-          setNoteContent(loadedNote.content);
-          setNoteTitle(loadedNote.title);
-          setOriginalContent(loadedNote.content);
-          setOriginalTitle(loadedNote.title);
-          setIsNewNote(false);
-          setHasUnsavedChanges(false); // Reset unsaved changes
+          if (loadedNote.isLocked && !noteService.isNoteUnlocked(loadedNote.id)) {
+            hideNote(loadedNote);
+            setPassphraseMode('unlock');
+          } else {
+            setIsUnlockRequired(false);
+            showNote(loadedNote);
+          }
         } else {
           // Note not found - create a new note if this looks like a "new" route
           if (noteId === 'new' || !noteId) {
-            const createResult = await noteService.createNewNote({
-              title: 'Untitled Note',
-              content: '<p></p>',
-            });
+            let newNote: Note | undefined;
+            if (initialTemplateId) {
+              const templateResult = await noteService.createNoteFromTemplate(
+                initialTemplateId,
+                initialFolderId
+              );
+              newNote = templateResult.data?.note;
+              setTemplateCursor(templateResult.data?.cursor ?? null);
+            } else {
+              const createResult = await noteService.createNewNote({
+                title: 'Untitled Note',
+                content: '<p></p>',
+                folderId: initialFolderId,
+              });
+              newNote = createResult.data;
+            }
 
-            if (createResult.success && createResult.data) {
-              const newNote = createResult.data;
+            if (newNote) {
               setNote(newNote);
               setNoteContent(newNote.content);
               setNoteTitle(newNote.title);
@@ -222,7 +425,7 @@ export default function NoteDetail() {
         setIsInitializing(false);
       }, 500);
     }
-  }, [noteId, router]);
+  }, [noteId, initialFolderId, initialTemplateId, router, showNote, hideNote]);
 
   // Load note on mount
   useEffect(() => {
@@ -276,6 +479,8 @@ export default function NoteDetail() {
     // Only trigger auto-save if we're not initializing and content actually changed
     if (!isInitializing && newContent !== originalContent && note) {
       noteService.updateContent(note.id, newContent);
+      // The template's caret position no longer fits the text
+      setTemplateCursor(null);
     }
   }, [note, isInitializing, originalContent]);
 
@@ -289,6 +494,47 @@ export default function NoteDetail() {
     }
   }, [note, isInitializing, originalTitle]);
 
+  // Another save changed this note while it was being edited; let the user
+  // pick which version to keep
+  const handleConflict = useCallback((local: UpdateNoteParams, current: Note): void => {
+    Alert.alert(
+      'Note Changed Elsewhere',
+      'This note was changed somewhere else while you were editing it. Keep your version or load the saved one?',
+      [
+        {
+          text: 'Load Saved',
+          onPress: () => {
+            noteService.discardPendingChanges(current.id);
+            loadNote();
+          },
+        },
+        {
+          text: 'Keep Mine',
+          onPress: async () => {
+            const result = await noteService.saveNote({
+              ...local,
+              expectedVersion: current.metadata.version,
+            });
+            if (result.success && result.data) {
+              setNote(result.data);
+            } else {
+              Alert.alert('Save Error', 'Failed to save note. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [loadNote]);
+
+  // Auto-saves that can't be merged with the other change surface here
+  useEffect(() => {
+    return noteService.onConflict((conflict) => {
+      if (conflict.noteId === note?.id) {
+        handleConflict(conflict.local, conflict.current);
+      }
+    });
+  }, [note?.id, handleConflict]);
+
   // Manual save
   const handleSave = useCallback(async (): Promise<void> => {
     if (!note || isSaving) {
@@ -298,11 +544,12 @@ export default function NoteDetail() {
     setIsSaving(true);
 
     try {
-      const result = await noteService.saveNote({
+      const params: UpdateNoteParams = {
         id: note.id,
         title: noteTitle || 'Untitled Note',
         content: noteContent || '<p></p>',
-      });
+      };
+      const result = await noteService.saveNote(params);
 
       if (result.success) {
         setHasUnsavedChanges(false);
@@ -312,6 +559,8 @@ export default function NoteDetail() {
         if (__DEV__) {
           console.log('✅ Note saved manually');
         }
+      } else if (isVersionConflict(result.error)) {
+        handleConflict(params, result.error.details.current);
       } else {
         Alert.alert('Save Error', 'Failed to save note. Please try again.');
       }
@@ -323,7 +572,221 @@ export default function NoteDetail() {
     } finally {
       setIsSaving(false);
     }
-  }, [note, noteTitle, noteContent, isSaving]);
+  }, [note, noteTitle, noteContent, isSaving, handleConflict]);
+
+  // Move the note to another folder
+  const handleMoveToFolder = useCallback(async (targetFolderId: string | null): Promise<void> => {
+    setIsFolderPickerVisible(false);
+    if (!note || targetFolderId === note.folderId) {
+      return;
+    }
+
+    const result = await noteService.moveNoteToFolder(note.id, targetFolderId);
+    if (result.success && result.data) {
+      setNote(result.data);
+    } else {
+      Alert.alert('Move Error', 'Failed to move note. Please try again.');
+    }
+  }, [note]);
+
+  // Set, snooze or finish the note's reminder
+  const handleUpdateReminder = useCallback(async (
+    update: (noteId: string) => ReturnType<typeof noteService.setReminder>
+  ): Promise<void> => {
+    setIsReminderPickerVisible(false);
+    if (!note) {
+      return;
+    }
+
+    const result = await update(note.id);
+    if (result.success && result.data) {
+      setNote(result.data);
+    } else {
+      Alert.alert('Reminder Error', 'Failed to update the reminder. Please try again.');
+    }
+  }, [note]);
+
+  // Offer the note as the starting point for new notes
+  const handleSaveAsTemplate = useCallback((): void => {
+    if (!note) {
+      return;
+    }
+
+    const variables = TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ');
+    Alert.alert(
+      'Save as Template',
+      `Notes created from the template start with this title, text, tags and folder. Write ${variables} to have them filled in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Save',
+          onPress: async () => {
+            const result = await noteService.saveNoteAsTemplate(note.id);
+            if (result.success && result.data) {
+              Alert.alert('Template Saved', `"${result.data.name}" is now available from New from Template.`);
+            } else {
+              Alert.alert('Template Error', result.error?.message || 'Failed to save the template. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [note]);
+
+  const handleToggleFavorite = useCallback(async (): Promise<void> => {
+    if (!note) {
+      return;
+    }
+
+    const result = await noteService.setFavorite(note.id, !note.isFavorite);
+    if (result.success && result.data) {
+      setNote(result.data);
+    } else {
+      Alert.alert('Favorite Error', 'Failed to update favorite. Please try again.');
+    }
+  }, [note]);
+
+  const handleTogglePinned = useCallback(async (): Promise<void> => {
+    if (!note) {
+      return;
+    }
+
+    const result = await noteService.setPinned(note.id, !note.isPinned);
+    if (result.success && result.data) {
+      setNote(result.data);
+    } else {
+      Alert.alert('Pin Error', 'Failed to update pin. Please try again.');
+    }
+  }, [note]);
+
+  const handlePassphraseSubmit = useCallback(async (passphrase: string): Promise<void> => {
+    if (!note) {
+      return;
+    }
+
+    setIsApplyingPassphrase(true);
+    setPassphraseError(null);
+
+    if (passphraseMode === 'unlock') {
+      const result = await noteService.unlockNote(note.id, passphrase);
+      if (result.success && result.data) {
+        // Keep the editor from reporting the decrypted text as a change
+        setIsInitializing(true);
+        setIsUnlockRequired(false);
+        setPassphraseMode(null);
+        showNote(result.data);
+        setTimeout(() => {
+          setIsInitializing(false);
+        }, 500);
+      } else {
+        setPassphraseError(
+          result.error?.code === 'WRONG_PASSPHRASE' ? 'Wrong passphrase' : 'Failed to unlock note'
+        );
+      }
+    } else {
+      const result = await noteService.lockNote(note.id, passphrase);
+      if (result.success && result.data) {
+        setPassphraseMode(null);
+        hideNote(result.data);
+      } else {
+        setPassphraseError(result.error?.message || 'Failed to lock note');
+      }
+    }
+
+    setIsApplyingPassphrase(false);
+  }, [note, passphraseMode, showNote, hideNote]);
+
+  // Lock an unlocked note, or lock it again / remove the lock if it already has one
+  const handleToggleLock = useCallback((): void => {
+    if (!note) {
+      return;
+    }
+
+    if (!note.isLocked) {
+      setPassphraseError(null);
+      setPassphraseMode('lock');
+      return;
+    }
+
+    Alert.alert(
+      'Locked Note',
+      'Lock this note again now, or remove its lock and store it unencrypted?',
+      [
+        {
+          text: 'Lock Now',
+          onPress: async () => {
+            await noteService.relockNote(note.id);
+            hideNote(note);
+            setPassphraseMode('unlock');
+          },
+        },
+        {
+          text: 'Remove Lock',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await noteService.removeNoteLock(note.id);
+            if (result.success && result.data) {
+              setNote(result.data);
+            } else {
+              Alert.alert('Lock Error', 'Failed to remove the lock. Please try again.');
+            }
+          },
+        },
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+      ]
+    );
+  }, [note, hideNote]);
+
+  // Images picked in the editor are kept in the attachment store
+  const handleSaveImage = useCallback(async (dataUrl: string): Promise<string | null> => {
+    const result = await noteService.saveImage(dataUrl);
+    return result.success && result.data ? result.data : null;
+  }, []);
+
+  const handleResolveAttachment = useCallback(async (uri: string): Promise<string | null> => {
+    const result = await noteService.resolveAttachment(uri);
+    return result.success && result.data ? result.data : null;
+  }, []);
+
+  // The shared document is stored as it changes; the HTML is saved as usual
+  const handleLoadCollaborationState = useCallback(async (): Promise<string | null> => {
+    if (!note) return null;
+    const result = await noteService.getCollaborationState(note.id);
+    return result.success && result.data ? result.data : null;
+  }, [note]);
+
+  const handleCollaborationUpdate = useCallback((update: string) => {
+    if (note) {
+      noteService.saveCollaborationUpdate(note.id, update);
+    }
+  }, [note]);
+
+  // [[Link autocomplete offers every other note
+  const handleSearchNoteLinks = useCallback(async (query: string): Promise<NoteLinkTarget[]> => {
+    const result = await noteService.searchLinkTargets(query, note?.id);
+    return result.success && result.data ? result.data : [];
+  }, [note?.id]);
+
+  // Follow a [[link]], saving this note first so nothing is lost
+  const handleOpenNoteLink = useCallback(async (linkedNoteId: string): Promise<void> => {
+    await noteService.saveAllPendingChanges();
+    router.push(`/note/${linkedNoteId}`);
+  }, [router]);
+
+  // Open revision history, flushing pending edits first so they're included
+  const handleOpenHistory = useCallback(async (): Promise<void> => {
+    if (!note) {
+      return;
+    }
+
+    await noteService.saveAllPendingChanges();
+    setHasUnsavedChanges(false);
+    isViewingHistoryRef.current = true;
+    router.push(`/history/${note.id}`);
+  }, [note, router]);
 
   // Handle navigation away
   const handleBack = useCallback((): void => {
@@ -418,6 +881,16 @@ export default function NoteDetail() {
     return () => subscription?.remove();
   }, [shouldDiscardChanges]);
 
+  // Reload when returning from history, since a version may have been restored
+  useFocusEffect(
+    useCallback(() => {
+      if (isViewingHistoryRef.current) {
+        isViewingHistoryRef.current = false;
+        loadNote();
+      }
+    }, [loadNote])
+  );
+
   // Handle focus/unfocus for saving
   useFocusEffect(
     useCallback(() => {
@@ -439,6 +912,13 @@ export default function NoteDetail() {
     }, [note, hasUnsavedChanges, shouldDiscardChanges])
   );
 
+  // Locked notes only stay decrypted while they are open
+  useEffect(() => {
+    return () => {
+      noteService.relockNote(noteId);
+    };
+  }, [noteId]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -465,12 +945,60 @@ export default function NoteDetail() {
     );
   }
 
+  const passphraseModal = (
+    <PassphraseModal
+      visible={passphraseMode !== null}
+      title={passphraseMode === 'lock' ? 'Lock Note' : 'Unlock Note'}
+      message={
+        passphraseMode === 'lock'
+          ? 'The title and text will be encrypted with this passphrase. Images and other attachments are not encrypted, and tags and the folder stay visible. The passphrase cannot be recovered if you forget it.'
+          : 'Enter the passphrase this note was locked with.'
+      }
+      submitLabel={passphraseMode === 'lock' ? 'Lock' : 'Unlock'}
+      confirm={passphraseMode === 'lock'}
+      error={passphraseError}
+      isWorking={isApplyingPassphrase}
+      onSubmit={handlePassphraseSubmit}
+      onCancel={() => {
+        setPassphraseMode(null);
+        setPassphraseError(null);
+      }}
+    />
+  );
+
+  // Render the lock screen until the passphrase is entered
+  if (isUnlockRequired) {
+    return (
+      <>
+        <LockedState
+          onUnlock={() => {
+            setPassphraseError(null);
+            setPassphraseMode('unlock');
+          }}
+          onBack={() => router.back()}
+        />
+        {passphraseModal}
+      </>
+    );
+  }
+
   // Render main content
   return (
     <SafeAreaView className="flex-1 bg-gradient-to-br from-yellow-50 via-orange-50 to-yellow-100">
       <NoteHeader
         onBack={handleBack}
         onSave={handleSave}
+        onOpenFolders={() => setIsFolderPickerVisible(true)}
+        onOpenReminder={() => setIsReminderPickerVisible(true)}
+        onOpenHistory={handleOpenHistory}
+        onSaveAsTemplate={handleSaveAsTemplate}
+        onToggleFavorite={handleToggleFavorite}
+        onTogglePinned={handleTogglePinned}
+        onToggleLock={handleToggleLock}
+        isFavorite={note?.isFavorite ?? false}
+        isPinned={note?.isPinned ?? false}
+        isLocked={note?.isLocked ?? false}
+        hasReminder={!!note?.reminderAt}
         hasUnsavedChanges={hasUnsavedChanges}
         isSaving={isSaving}
       />
@@ -501,11 +1029,49 @@ export default function NoteDetail() {
           <TipTapEditor
             content={noteContent}
             onContentChange={handleContentChange}
+            initialCursor={templateCursor ?? undefined}
             placeholder={isNewNote ? "Start writing your note..." : ""}
             editable={!isSaving}
+            onSaveImage={handleSaveImage}
+            resolveAttachment={handleResolveAttachment}
+            searchNoteLinks={handleSearchNoteLinks}
+            onOpenNoteLink={handleOpenNoteLink}
+            collaboration={
+              COLLAB_RELAY_URL && note && !note.isLocked
+                ? { room: note.id, relayUrl: COLLAB_RELAY_URL, user: collaborator }
+                : undefined
+            }
+            loadCollaborationState={handleLoadCollaborationState}
+            onCollaborationUpdate={handleCollaborationUpdate}
           />
         </View>
+
+        {note && (
+          <BacklinksPanel
+            noteId={note.id}
+            title={originalTitle}
+            onOpenNote={handleOpenNoteLink}
+          />
+        )}
       </View>
+
+      <FolderPickerModal
+        visible={isFolderPickerVisible}
+        selectedFolderId={note?.folderId ?? null}
+        onSelect={handleMoveToFolder}
+        onClose={() => setIsFolderPickerVisible(false)}
+      />
+
+      <ReminderPickerModal
+        visible={isReminderPickerVisible}
+        reminderAt={note?.reminderAt ?? null}
+        onSelect={(reminderAt) => handleUpdateReminder((id) => noteService.setReminder(id, reminderAt))}
+        onSnooze={() => handleUpdateReminder((id) => noteService.snoozeReminder(id))}
+        onDone={() => handleUpdateReminder((id) => noteService.completeReminder(id))}
+        onClose={() => setIsReminderPickerVisible(false)}
+      />
+
+      {passphraseModal}
     </SafeAreaView>
   );
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { Feather } from "@expo/vector-icons";
+import { LegendList } from "@legendapp/list";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Note } from "../database/models/Note";
+import noteService from "../services/NoteService";
+
+const formatDateTime = (isoString: string): string =>
+  new Date(isoString).toLocaleString("en-US", {
+    month: "numeric",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Header following Inky Notes design system
+interface TrashHeaderProps {
+  canEmpty: boolean;
+  onBack: () => void;
+  onEmpty: () => void;
+}
+
+const TrashHeader: React.FC<TrashHeaderProps> = ({
+  canEmpty,
+  onBack,
+  onEmpty,
+}) => (
+  <View className="bg-white border-b border-gray-100 px-4 py-3">
+    <View className="flex-row items-center justify-between gap-1.5">
+      <TouchableOpacity
+        onPress={onBack}
+        className="px-4 py-2 rounded-md active:bg-orange-100"
+      >
+        <Text className="text-orange-600 text-sm font-medium">← Back</Text>
+      </TouchableOpacity>
+      <Text className="flex-1 text-center text-lg font-semibold text-gray-900">
+        Trash
+      </Text>
+      <TouchableOpacity
+        onPress={onEmpty}
+        disabled={!canEmpty}
+        className="px-4 py-2 rounded-md active:bg-red-50"
+      >
+        <Text
+          className={`text-sm font-medium ${
+            canEmpty ? "text-red-600" : "text-gray-300"
+          }`}
+        >
+          Empty
+        </Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+// Trashed note row with restore and delete actions
+interface TrashRowProps {
+  note: Note;
+  onRestore: () => void;
+  onDelete: () => void;
+}
+
+const TrashRow: React.FC<TrashRowProps> = ({ note, onRestore, onDelete }) => (
+  <View className="flex-row items-center bg-white border border-gray-200 rounded-lg mx-4 mb-2 px-4 py-3">
+    <View className="flex-1">
+      <Text className="text-gray-900 text-base font-medium" numberOfLines={1}>
+        {note.title}
+      </Text>
+      <Text className="text-gray-400 text-xs mt-1">
+        Deleted {formatDateTime(note.deletedAt ?? note.lastModified)}
+      </Text>
+    </View>
+    <TouchableOpacity
+      onPress={onRestore}
+      className="p-2 rounded-full bg-gray-100 active:bg-gray-200 ml-2"
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <Feather name="rotate-ccw" size={18} color="#f97316" />
+    </TouchableOpacity>
+    <TouchableOpacity
+      onPress={onDelete}
+      className="p-2 rounded-full bg-gray-100 active:bg-gray-200 ml-2"
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <Feather name="x" size={18} color="#ef4444" />
+    </TouchableOpacity>
+  </View>
+);
+
+export default function Trash(): React.ReactElement {
+  const router = useRouter();
+
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setError(null);
+
+    try {
+      const initResult = await noteService.initialize();
+      if (!initResult.success) {
+        throw new Error("Failed to initialize database");
+      }
+
+      const result = await noteService.getDeletedNotes();
+      if (!result.success) {
+        throw new Error(result.error?.message || "Failed to load trash");
+      }
+      setNotes(result.data ?? []);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const handleRestore = async (noteId: string): Promise<void> => {
+    const result = await noteService.restoreNote(noteId);
+    if (result.success) {
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+    } else {
+      Alert.alert("Error", result.error?.message || "Failed to restore note");
+    }
+  };
+
+  const handleDelete = (note: Note): void => {
+    Alert.alert(
+      "Delete Forever",
+      `"${note.title}" and its history will be permanently deleted. This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const result = await noteService.permanentlyDeleteNote(note.id);
+            if (result.success) {
+              setNotes((prev) => prev.filter((n) => n.id !== note.id));
+            } else {
+              Alert.alert(
+                "Error",
+                result.error?.message || "Failed to delete note"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = (): void => {
+    Alert.alert(
+      "Empty Trash",
+      `Permanently delete ${notes.length} ${
+        notes.length === 1 ? "note" : "notes"
+      }? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            const result = await noteService.emptyTrash();
+            if (result.success) {
+              setNotes([]);
+            } else {
+              Alert.alert(
+                "Error",
+                result.error?.message || "Failed to empty trash"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50">
+      <TrashHeader
+        canEmpty={notes.length > 0}
+        onBack={() => router.back()}
+        onEmpty={handleEmptyTrash}
+      />
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-base">Loading trash...</Text>
+        </View>
+      ) : error ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-gray-600 text-center mb-6">{error}</Text>
+          <TouchableOpacity
+            onPress={loadTrash}
+            className="bg-orange-500 px-6 py-3 rounded-lg active:bg-orange-600"
+          >
+            <Text className="text-white font-medium">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : notes.length === 0 ? (
+        <View className="flex-1 items-center justify-center p-6">
+          <Text className="text-6xl mb-4">🗑️</Text>
+          <Text className="text-gray-600 text-center">
+            The trash is empty.{"\n"}Deleted notes stay here for a while before
+            being removed for good.
+          </Text>
+        </View>
+      ) : (
+        <LegendList
+          data={notes}
+          keyExtractor={(item) => item.id}
+          estimatedItemSize={64}
+          renderItem={({ item }) => (
+            <TrashRow
+              note={item}
+              onRestore={() => handleRestore(item.id)}
+              onDelete={() => handleDelete(item)}
+            />
+          )}
+          contentContainerStyle={{ paddingTop: 16, paddingBottom: 24 }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
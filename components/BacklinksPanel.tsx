@@ -0,0 +1,155 @@
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { NoteBacklink, NoteBacklinks } from "../database/models/NoteLink";
+import noteService from "../services/NoteService";
+
+interface BacklinksPanelProps {
+  noteId: string;
+  // The note's saved title; mentions are looked up again when it changes
+  title: string;
+  onOpenNote: (noteId: string) => void;
+}
+
+interface BacklinkRowProps {
+  backlink: NoteBacklink;
+  onPress: () => void;
+  onLink?: () => void;
+  isLinking?: boolean;
+}
+
+const BacklinkRow: React.FC<BacklinkRowProps> = ({
+  backlink,
+  onPress,
+  onLink,
+  isLinking = false,
+}) => (
+  <View className="flex-row items-center px-4 py-2">
+    <TouchableOpacity
+      onPress={onPress}
+      className="flex-1 rounded-md active:bg-orange-50"
+    >
+      <Text className="text-gray-900 text-sm font-medium" numberOfLines={1}>
+        {backlink.title}
+      </Text>
+      {backlink.context ? (
+        <Text className="text-gray-500 text-xs mt-0.5" numberOfLines={2}>
+          {backlink.context}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+    {onLink && (
+      <TouchableOpacity
+        onPress={onLink}
+        disabled={isLinking}
+        className="px-3 py-1.5 rounded-md bg-orange-100 active:bg-orange-200 ml-2"
+      >
+        <Text className="text-orange-600 text-xs font-medium">
+          {isLinking ? "Linking..." : "Link it"}
+        </Text>
+      </TouchableOpacity>
+    )}
+  </View>
+);
+
+// Collapsible list of notes that link to or mention the current note
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
+  noteId,
+  title,
+  onOpenNote,
+}) => {
+  const [backlinks, setBacklinks] = useState<NoteBacklinks>({
+    linked: [],
+    unlinkedMentions: [],
+  });
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [linkingNoteId, setLinkingNoteId] = useState<string | null>(null);
+
+  const loadBacklinks = useCallback(async (): Promise<void> => {
+    const result = await noteService.getBacklinks(noteId);
+    if (result.success && result.data) {
+      setBacklinks(result.data);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    loadBacklinks();
+  }, [loadBacklinks, title]);
+
+  // Refresh on focus too, since other notes may have been edited meanwhile
+  useFocusEffect(
+    useCallback(() => {
+      loadBacklinks();
+    }, [loadBacklinks])
+  );
+
+  const handleLinkMention = async (sourceNoteId: string): Promise<void> => {
+    setLinkingNoteId(sourceNoteId);
+    const result = await noteService.linkMention(sourceNoteId, noteId);
+    setLinkingNoteId(null);
+
+    if (result.success) {
+      loadBacklinks();
+    } else {
+      Alert.alert("Error", result.error?.message || "Failed to link mention");
+    }
+  };
+
+  const { linked, unlinkedMentions } = backlinks;
+
+  return (
+    <View className="bg-white/80 rounded-xl border border-orange-200 overflow-hidden">
+      <TouchableOpacity
+        onPress={() => setIsExpanded((value) => !value)}
+        className="flex-row items-center justify-between px-4 py-3 active:bg-orange-50"
+      >
+        <Text className="text-gray-900 text-sm font-semibold">
+          Linked from ({linked.length})
+        </Text>
+        <Text className="text-orange-600 text-sm">
+          {isExpanded ? "▾" : "▸"}
+        </Text>
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <ScrollView
+          style={{ maxHeight: 240 }}
+          contentContainerStyle={{ paddingBottom: 8 }}
+        >
+          {linked.length === 0 ? (
+            <Text className="text-gray-400 text-xs px-4 py-2">
+              No notes link here yet. Type [[ in another note to add one.
+            </Text>
+          ) : (
+            linked.map((backlink) => (
+              <BacklinkRow
+                key={backlink.noteId}
+                backlink={backlink}
+                onPress={() => onOpenNote(backlink.noteId)}
+              />
+            ))
+          )}
+
+          {unlinkedMentions.length > 0 && (
+            <>
+              <Text className="text-gray-400 text-xs font-medium uppercase px-4 pt-3 pb-1">
+                Unlinked mentions ({unlinkedMentions.length})
+              </Text>
+              {unlinkedMentions.map((backlink) => (
+                <BacklinkRow
+                  key={backlink.noteId}
+                  backlink={backlink}
+                  onPress={() => onOpenNote(backlink.noteId)}
+                  onLink={() => handleLinkMention(backlink.noteId)}
+                  isLinking={linkingNoteId === backlink.noteId}
+                />
+              ))}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { Modal, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { FolderWithCount } from "../database/models/Folder";
+import noteService from "../services/NoteService";
+
+interface FolderPickerModalProps {
+  visible: boolean;
+  selectedFolderId: string | null;
+  onSelect: (folderId: string | null) => void;
+  onClose: () => void;
+}
+
+interface FolderOption {
+  folder: FolderWithCount;
+  depth: number;
+}
+
+// Flatten the folder hierarchy into display order with indentation depth
+const buildFolderOptions = (folders: FolderWithCount[]): FolderOption[] => {
+  const childrenByParent = new Map<string | null, FolderWithCount[]>();
+  for (const folder of folders) {
+    const siblings = childrenByParent.get(folder.parentId) ?? [];
+    siblings.push(folder);
+    childrenByParent.set(folder.parentId, siblings);
+  }
+
+  const options: FolderOption[] = [];
+  const visit = (parentId: string | null, depth: number): void => {
+    for (const folder of childrenByParent.get(parentId) ?? []) {
+      options.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return options;
+};
+
+// Bottom sheet style picker for choosing a note's folder
+const FolderPickerModal: React.FC<FolderPickerModalProps> = ({
+  visible,
+  selectedFolderId,
+  onSelect,
+  onClose,
+}) => {
+  const [options, setOptions] = useState<FolderOption[]>([]);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    const loadFolders = async (): Promise<void> => {
+      const result = await noteService.getFolders();
+      if (result.success && result.data) {
+        setOptions(buildFolderOptions(result.data));
+      }
+    };
+
+    loadFolders();
+  }, [visible]);
+
+  const renderOption = (
+    key: string,
+    label: string,
+    folderId: string | null,
+    depth: number,
+    color?: string | null
+  ): React.ReactElement => {
+    const isSelected = folderId === selectedFolderId;
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={() => onSelect(folderId)}
+        className={`flex-row items-center gap-1.5 px-4 py-3 rounded-md ${
+          isSelected ? "bg-orange-100" : "active:bg-orange-50"
+        }`}
+        style={{ paddingLeft: 16 + depth * 16 }}
+      >
+        <View
+          className="w-3 h-3 rounded-full"
+          style={{ backgroundColor: color ?? "#fed7aa" }}
+        />
+        <Text
+          className={`text-sm ${
+            isSelected ? "text-orange-600 font-semibold" : "text-gray-900"
+          }`}
+        >
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/30">
+        <View className="bg-white rounded-t-xl max-h-[70%] pb-8">
+          <View className="flex-row items-center justify-between px-4 py-4 border-b border-gray-100">
+            <Text className="text-lg font-semibold text-gray-900">
+              Move to Folder
+            </Text>
+            <TouchableOpacity onPress={onClose} className="px-4 py-2">
+              <Text className="text-orange-600 text-sm font-medium">Close</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView className="px-2 pt-2">
+            {renderOption("none", "No folder", null, 0)}
+            {options.map(({ folder, depth }) =>
+              renderOption(
+                folder.id,
+                folder.name,
+                folder.id,
+                depth,
+                folder.color
+              )
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default FolderPickerModal;
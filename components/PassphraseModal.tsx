@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import { Modal, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+interface PassphraseModalProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  submitLabel: string;
+  // Ask for the passphrase twice, when setting a new one
+  confirm?: boolean;
+  error?: string | null;
+  isWorking?: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+// Dialog asking for a note's passphrase. The entered text is cleared each
+// time the dialog opens so it doesn't linger in state.
+const PassphraseModal: React.FC<PassphraseModalProps> = ({
+  visible,
+  title,
+  message,
+  submitLabel,
+  confirm = false,
+  error = null,
+  isWorking = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [passphrase, setPassphrase] = useState<string>("");
+  const [confirmation, setConfirmation] = useState<string>("");
+
+  useEffect(() => {
+    setPassphrase("");
+    setConfirmation("");
+  }, [visible]);
+
+  const isMismatch =
+    confirm && confirmation !== "" && confirmation !== passphrase;
+  const canSubmit =
+    passphrase !== "" &&
+    (!confirm || confirmation === passphrase) &&
+    !isWorking;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View className="flex-1 items-center justify-center bg-black/30 p-6">
+        <View className="w-full bg-white rounded-xl p-6 gap-4">
+          <Text className="text-lg font-semibold text-gray-900">{title}</Text>
+          <Text className="text-gray-600 text-sm">{message}</Text>
+          <TextInput
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor="#9ca3af"
+            secureTextEntry
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            selectionColor="#f97316"
+            onSubmitEditing={() => canSubmit && onSubmit(passphrase)}
+            className="px-4 py-3 bg-gray-100 border border-gray-200 rounded-lg text-base text-gray-900"
+          />
+          {confirm && (
+            <TextInput
+              value={confirmation}
+              onChangeText={setConfirmation}
+              placeholder="Repeat passphrase"
+              placeholderTextColor="#9ca3af"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              selectionColor="#f97316"
+              className="px-4 py-3 bg-gray-100 border border-gray-200 rounded-lg text-base text-gray-900"
+            />
+          )}
+          {isMismatch ? (
+            <Text className="text-red-600 text-sm">
+              The passphrases don&apos;t match
+            </Text>
+          ) : error ? (
+            <Text className="text-red-600 text-sm">{error}</Text>
+          ) : null}
+          <View className="flex-row justify-end gap-1.5">
+            <TouchableOpacity
+              onPress={onCancel}
+              className="px-4 py-2 rounded-md active:bg-gray-100"
+            >
+              <Text className="text-gray-600 text-sm font-medium">Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onSubmit(passphrase)}
+              disabled={!canSubmit}
+              className={`px-4 py-2 rounded-md ${
+                canSubmit ? "bg-orange-500 active:bg-orange-600" : "bg-gray-300"
+              }`}
+            >
+              <Text className="text-white text-sm font-medium">
+                {isWorking ? "Working..." : submitLabel}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default PassphraseModal;
@@ -0,0 +1,100 @@
+import React from "react";
+import { Modal, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { DEFAULT_SNOOZE_MINUTES, reminderPresets } from "../lib/reminders";
+
+interface ReminderPickerModalProps {
+  visible: boolean;
+  reminderAt: string | null; // The note's current reminder, if any
+  onSelect: (reminderAt: string) => void;
+  onSnooze: () => void;
+  onDone: () => void;
+  onClose: () => void;
+}
+
+const formatReminderDate = (date: Date): string =>
+  date.toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+
+// Bottom sheet style picker for setting, snoozing or finishing a reminder
+const ReminderPickerModal: React.FC<ReminderPickerModalProps> = ({
+  visible,
+  reminderAt,
+  onSelect,
+  onSnooze,
+  onDone,
+  onClose,
+}) => {
+  const renderOption = (
+    key: string,
+    label: string,
+    detail: string | null,
+    onPress: () => void
+  ): React.ReactElement => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      className="flex-row items-center justify-between px-4 py-3 rounded-md active:bg-orange-50"
+    >
+      <Text className="text-sm text-gray-900">{label}</Text>
+      {detail && <Text className="text-xs text-gray-400">{detail}</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/30">
+        <View className="bg-white rounded-t-xl max-h-[70%] pb-8">
+          <View className="flex-row items-center justify-between px-4 py-4 border-b border-gray-100">
+            <View>
+              <Text className="text-lg font-semibold text-gray-900">
+                Reminder
+              </Text>
+              {reminderAt && (
+                <Text className="text-xs text-orange-600">
+                  ⏰ {formatReminderDate(new Date(reminderAt))}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} className="px-4 py-2">
+              <Text className="text-orange-600 text-sm font-medium">Close</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView className="px-2 pt-2">
+            {reminderAt && (
+              <>
+                {renderOption("done", "✅ Mark done", null, onDone)}
+                {renderOption(
+                  "snooze",
+                  `💤 Snooze ${DEFAULT_SNOOZE_MINUTES} minutes`,
+                  null,
+                  onSnooze
+                )}
+              </>
+            )}
+            {reminderPresets().map((preset) =>
+              renderOption(
+                preset.label,
+                preset.label,
+                formatReminderDate(preset.date),
+                () => onSelect(preset.date.toISOString())
+              )
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ReminderPickerModal;
@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { NoteTemplate } from "../database/models/Template";
+import { expandTemplate } from "../lib/templates";
+import noteService from "../services/NoteService";
+
+interface TemplatePickerModalProps {
+  visible: boolean;
+  onSelect: (template: NoteTemplate) => void;
+  onClose: () => void;
+}
+
+// Bottom sheet style picker for starting a note from a template. Long press
+// a template to delete it.
+const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
+  visible,
+  onSelect,
+  onClose,
+}) => {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+
+  const loadTemplates = useCallback(async (): Promise<void> => {
+    const result = await noteService.getTemplates();
+    if (result.success && result.data) {
+      setTemplates(result.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadTemplates();
+    }
+  }, [visible, loadTemplates]);
+
+  const handleLongPress = (template: NoteTemplate): void => {
+    Alert.alert(
+      "Delete Template",
+      `Delete "${template.name}"? Notes created from it are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const result = await noteService.deleteTemplate(template.id);
+            if (result.success) {
+              loadTemplates();
+            } else {
+              Alert.alert(
+                "Error",
+                result.error?.message || "Failed to delete template"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/30">
+        <View className="bg-white rounded-t-xl max-h-[70%] pb-8">
+          <View className="flex-row items-center justify-between px-4 py-4 border-b border-gray-100">
+            <Text className="text-lg font-semibold text-gray-900">
+              New from Template
+            </Text>
+            <TouchableOpacity onPress={onClose} className="px-4 py-2">
+              <Text className="text-orange-600 text-sm font-medium">Close</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView className="px-2 pt-2">
+            {templates.length === 0 && (
+              <Text className="text-gray-500 text-sm text-center px-4 py-6">
+                No templates yet. Open a note and tap 📋 to save it as a
+                template.
+              </Text>
+            )}
+            {templates.map((template) => (
+              <TouchableOpacity
+                key={template.id}
+                onPress={() => onSelect(template)}
+                onLongPress={() => handleLongPress(template)}
+                className="px-4 py-3 rounded-md active:bg-orange-50"
+              >
+                <Text className="text-sm text-gray-900">{template.name}</Text>
+                <Text className="text-xs text-gray-400" numberOfLines={1}>
+                  {expandTemplate(template).title || "Untitled Note"}
+                  {template.tags.length > 0 &&
+                    `  ${template.tags.map((tag) => `#${tag}`).join(" ")}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TemplatePickerModal;
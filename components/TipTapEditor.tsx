@@ -1,23 +1,79 @@
 "use dom";
 
-import { Extension } from "@tiptap/core";
+import { Extension, mergeAttributes, Node as TipTapNode } from "@tiptap/core";
+import { Collaboration } from "@tiptap/extension-collaboration";
+import { CollaborationCaret } from "@tiptap/extension-collaboration-caret";
 import { Color } from "@tiptap/extension-color";
 import { Image } from "@tiptap/extension-image";
 import { TextStyle } from "@tiptap/extension-text-style";
-import { EditorContent, useEditor, type Editor } from "@tiptap/react";
+import {
+  EditorContent,
+  useEditor,
+  type Editor,
+  type UseEditorOptions,
+} from "@tiptap/react";
+import { DOMParser as ProseMirrorDOMParser } from "@tiptap/pm/model";
 import { StarterKit } from "@tiptap/starter-kit";
-import React, { useEffect, useRef } from "react";
+import { fromBase64, toBase64 } from "lib0/buffer";
+import React, { useEffect, useRef, useState } from "react";
 import { View } from "react-native";
 import type { WebViewMessageEvent } from "react-native-webview";
+import * as Y from "yjs";
+import { ATTACHMENT_URI_SCHEME } from "../database/models/Attachment";
+import {
+  NOTE_LINK_ID_ATTRIBUTE,
+  NOTE_LINK_TYPE,
+  NoteLinkTarget,
+} from "../database/models/NoteLink";
+import {
+  CollaborationConfig,
+  createRelayProvider,
+  RelayProvider,
+} from "../lib/collaboration";
+import { NOTE_CONTENT_STYLES } from "../lib/noteStyles";
 
 interface TipTapEditorProps {
   content?: string;
   onContentChange?: (content: string) => void;
   placeholder?: string;
   editable?: boolean;
+  // Store a picked image natively and return the attachment URI to embed
+  onSaveImage?: (dataUrl: string) => Promise<string | null>;
+  // Resolve an attachment URI to a data URL the WebView can display
+  resolveAttachment?: (uri: string) => Promise<string | null>;
+  // Suggest notes for a [[link query
+  searchNoteLinks?: (query: string) => Promise<NoteLinkTarget[]>;
+  // Called when a [[link]] is tapped
+  onOpenNoteLink?: (noteId: string) => void;
+  // Edit a shared Yjs document instead of the content prop alone
+  collaboration?: CollaborationConfig;
+  // Stored state of the shared document as a base64 Yjs update
+  loadCollaborationState?: () => Promise<string | null>;
+  // Called with each batch of shared document changes, base64 encoded
+  onCollaborationUpdate?: (update: string) => void;
+  // Offset into content where the caret starts, e.g. a template's {{cursor}}
+  initialCursor?: number;
   dom?: import("expo/dom").DOMProps;
 }
 
+// Text typed after [[ that is being completed, and the range it covers
+interface LinkQuery {
+  from: number;
+  to: number;
+  query: string;
+}
+
+// The shared document of a collaboration room and its relay connection
+interface CollaborationSession {
+  doc: Y.Doc;
+  provider: RelayProvider | null;
+}
+
+// Document changes are batched before they are persisted
+const COLLABORATION_PERSIST_DELAY_MS = 500;
+// HTML this editor produced, used to tell its own echoes from outside changes
+const KNOWN_CONTENT_LIMIT = 50;
+
 interface EditorUpdateEvent {
   editor: Editor;
 }
@@ -159,6 +215,176 @@ const ImageAlignment = Extension.create({
   },
 });
 
+// Inline [[wiki link]] to another note. The note id is the link; the label
+// is the target's title at the time of linking, or an alias from an imported
+// [[Note|alias]]. Labels showing the old title are refreshed on rename.
+const NoteLink = TipTapNode.create({
+  name: "noteLink",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute(NOTE_LINK_ID_ATTRIBUTE),
+        renderHTML: (attributes) => ({
+          [NOTE_LINK_ID_ATTRIBUTE]: attributes.id,
+        }),
+      },
+      label: {
+        default: "",
+        parseHTML: (element) => element.textContent ?? "",
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[data-type="${NOTE_LINK_TYPE}"]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes(
+        { "data-type": NOTE_LINK_TYPE, class: "note-link" },
+        HTMLAttributes
+      ),
+      node.attrs.label,
+    ];
+  },
+
+  renderText({ node }) {
+    return node.attrs.label;
+  },
+});
+
+// How far back from the cursor to look for an opening [[
+const LINK_QUERY_MAX_LENGTH = 80;
+
+// Find an unfinished [[query directly before the cursor
+const findLinkQuery = (editor: Editor): LinkQuery | null => {
+  const { selection } = editor.state;
+  if (!selection.empty) return null;
+
+  const { $from } = selection;
+  const textBefore = $from.parent.textBetween(
+    Math.max(0, $from.parentOffset - LINK_QUERY_MAX_LENGTH),
+    $from.parentOffset,
+    undefined,
+    "\ufffc"
+  );
+  const match = /\[\[([^[\]\ufffc\n]*)$/.exec(textBefore);
+  if (!match) return null;
+
+  return {
+    from: $from.pos - match[0].length,
+    to: $from.pos,
+    query: match[1],
+  };
+};
+
+// Stands in for the caret while HTML is parsed
+const CURSOR_MARKER = "\ue000";
+
+// Document position of an offset into HTML: the HTML is parsed again with a
+// marker at the offset, and positions before the marker are the same in the
+// document without it
+const findCursorPosition = (
+  editor: Editor,
+  html: string,
+  offset: number
+): number | null => {
+  const element = document.createElement("div");
+  element.innerHTML =
+    html.slice(0, offset) + CURSOR_MARKER + html.slice(offset);
+  const doc = ProseMirrorDOMParser.fromSchema(editor.schema).parse(element);
+
+  let position: number | null = null;
+  doc.descendants((node, pos) => {
+    if (position !== null) return false;
+    const index = node.isText ? node.text!.indexOf(CURSOR_MARKER) : -1;
+    if (index >= 0) {
+      position = pos + index;
+    }
+  });
+  return position;
+};
+
+interface LinkSuggestionsProps {
+  editor: Editor;
+  linkQuery: LinkQuery;
+  suggestions: NoteLinkTarget[];
+  onSelect: (target: NoteLinkTarget) => void;
+}
+
+// Autocomplete list shown under the cursor while typing a [[link
+const LinkSuggestions: React.FC<LinkSuggestionsProps> = ({
+  editor,
+  linkQuery,
+  suggestions,
+  onSelect,
+}) => {
+  const coords = editor.view.coordsAtPos(linkQuery.to);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: `${coords.bottom + 4}px`,
+        left: `${Math.max(8, Math.min(coords.left, window.innerWidth - 228))}px`,
+        width: "220px",
+        maxHeight: "200px",
+        overflowY: "auto",
+        backgroundColor: "#ffffff",
+        border: "1px solid #fed7aa",
+        borderRadius: "8px",
+        boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+        zIndex: 1000,
+      }}
+    >
+      {suggestions.length === 0 ? (
+        <div
+          style={{ padding: "8px 12px", fontSize: "13px", color: "#9ca3af" }}
+        >
+          No matching notes
+        </div>
+      ) : (
+        suggestions.map((target) => (
+          <button
+            key={target.id}
+            onMouseDown={(e) => {
+              // Keep focus (and the selection) in the editor
+              e.preventDefault();
+              onSelect(target);
+            }}
+            style={{
+              display: "block",
+              width: "100%",
+              textAlign: "left",
+              padding: "8px 12px",
+              fontSize: "13px",
+              color: "#111827",
+              background: "none",
+              border: "none",
+              borderBottom: "1px solid #f3f4f6",
+              cursor: "pointer",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+            }}
+          >
+            {target.title}
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
 const ColorPicker: React.FC<ColorPickerProps> = ({ editor }) => {
   const [isOpen, setIsOpen] = React.useState(false);
   const [, forceUpdate] = React.useReducer((x) => x + 1, 0);
@@ -368,9 +594,13 @@ const ToolbarSeparator: React.FC<ToolbarSeparatorProps> = ({
 
 interface EditorToolbarProps {
   editor: Editor | null;
+  onSaveImage?: (dataUrl: string) => Promise<string | null>;
 }
 
-const EditorToolbar: React.FC<EditorToolbarProps> = ({ editor }) => {
+const EditorToolbar: React.FC<EditorToolbarProps> = ({
+  editor,
+  onSaveImage,
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!editor) return null;
@@ -379,14 +609,23 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({ editor }) => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         const imageUrl = e.target?.result as string;
         if (imageUrl) {
-          editor.chain().focus().setImage({ src: imageUrl }).run();
+          // Prefer an attachment reference; an inline image still works and
+          // is moved into the attachment store when the note is saved
+          let src = imageUrl;
+          try {
+            src = (await onSaveImage?.(imageUrl)) || imageUrl;
+          } catch (error) {
+            console.error("Error saving image attachment:", error);
+          }
+          editor.chain().focus().setImage({ src }).run();
         }
       };
       reader.readAsDataURL(file);
     }
+    event.target.value = "";
   };
 
   return (
@@ -605,10 +844,152 @@ export default function TipTapEditor({
   onContentChange,
   placeholder = "Start writing your note...",
   editable = true,
+  onSaveImage,
+  resolveAttachment,
+  searchNoteLinks,
+  onOpenNoteLink,
+  collaboration,
+  loadCollaborationState,
+  onCollaborationUpdate,
+  initialCursor,
 }: TipTapEditorProps) {
-  const editor = useEditor({
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [linkSuggestions, setLinkSuggestions] = useState<NoteLinkTarget[]>([]);
+  const onOpenNoteLinkRef = useRef(onOpenNoteLink);
+  onOpenNoteLinkRef.current = onOpenNoteLink;
+
+  // Kept in a ref so the image node view always uses the latest resolver
+  const resolveAttachmentRef = useRef(resolveAttachment);
+  resolveAttachmentRef.current = resolveAttachment;
+
+  // Attachment URIs stay in the document; only the rendered <img> gets the
+  // resolved data, so it never travels back through getHTML()
+  const setImageSource = (image: HTMLImageElement, src: string) => {
+    if (!src.startsWith(ATTACHMENT_URI_SCHEME)) {
+      image.src = src;
+      return;
+    }
+    resolveAttachmentRef
+      .current?.(src)
+      .then((dataUrl) => {
+        if (dataUrl) {
+          image.src = dataUrl;
+        }
+      })
+      .catch((error) => {
+        console.error("Error resolving image attachment:", error);
+      });
+  };
+
+  const loadCollaborationStateRef = useRef(loadCollaborationState);
+  loadCollaborationStateRef.current = loadCollaborationState;
+  const onCollaborationUpdateRef = useRef(onCollaborationUpdate);
+  onCollaborationUpdateRef.current = onCollaborationUpdate;
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const knownContentRef = useRef<string[]>([]);
+
+  const rememberContent = (html: string) => {
+    knownContentRef.current = [
+      ...knownContentRef.current.slice(-(KNOWN_CONTENT_LIMIT - 1)),
+      html,
+    ];
+  };
+
+  // Open the room's shared document with its stored state. The relay is
+  // connected once the editor has reconciled it with the note's HTML.
+  const [collaborationSession, setCollaborationSession] =
+    useState<CollaborationSession | null>(null);
+  // Whether the shared document has caught up with the room, and whether
+  // this editor filled it with the note's HTML
+  const [isCollaborationSynced, setIsCollaborationSynced] = useState(false);
+  const [isCollaborationSeeder, setIsCollaborationSeeder] = useState(false);
+  const collaborationRoom = collaboration?.room;
+  const collaborationRelayUrl = collaboration?.relayUrl;
+  useEffect(() => {
+    setCollaborationSession(null);
+    setIsCollaborationSynced(false);
+    setIsCollaborationSeeder(false);
+    if (!collaborationRoom) {
+      return;
+    }
+
+    const doc = new Y.Doc();
+    let provider: RelayProvider | null = null;
+    let pending: Uint8Array[] = [];
+    let persistTimer: ReturnType<typeof setTimeout> | null = null;
+    let isCancelled = false;
+
+    const persist = () => {
+      persistTimer = null;
+      if (pending.length > 0) {
+        onCollaborationUpdateRef.current?.(toBase64(Y.mergeUpdates(pending)));
+        pending = [];
+      }
+    };
+    const handleUpdate = (update: Uint8Array) => {
+      pending.push(update);
+      if (!persistTimer) {
+        persistTimer = setTimeout(persist, COLLABORATION_PERSIST_DELAY_MS);
+      }
+    };
+
+    (async () => {
+      try {
+        const state = await loadCollaborationStateRef.current?.();
+        if (isCancelled) return;
+        if (state) {
+          Y.applyUpdate(doc, fromBase64(state));
+        }
+      } catch (error) {
+        console.error("Error loading collaboration state:", error);
+        if (isCancelled) return;
+      }
+      doc.on("update", handleUpdate);
+      knownContentRef.current = [contentRef.current];
+      provider = collaborationRelayUrl
+        ? createRelayProvider(doc, collaborationRelayUrl, collaborationRoom)
+        : null;
+      setCollaborationSession({ doc, provider });
+    })();
+
+    return () => {
+      isCancelled = true;
+      if (persistTimer) {
+        clearTimeout(persistTimer);
+      }
+      persist();
+      provider?.destroy();
+      doc.destroy();
+    };
+  }, [collaborationRoom, collaborationRelayUrl]);
+
+  const collaborationUser = collaboration?.user;
+  const collaborationExtensions = collaborationSession
+    ? [
+        Collaboration.configure({ document: collaborationSession.doc }),
+        ...(collaborationSession.provider
+          ? [
+              CollaborationCaret.configure({
+                provider: collaborationSession.provider,
+                user: collaborationUser,
+              }),
+            ]
+          : []),
+      ]
+    : [];
+
+  // A shared document can't be edited until it has caught up with the room,
+  // or edits to a still empty document would be saved over the note
+  const isEditable =
+    editable && (!collaborationSession || isCollaborationSynced);
+
+  const editorOptions: UseEditorOptions = {
     extensions: [
-      StarterKit,
+      // The shared document keeps its own undo history
+      collaborationSession
+        ? StarterKit.configure({ undoRedo: false })
+        : StarterKit,
       TextStyle,
       Color,
       Image.extend({
@@ -638,6 +1019,24 @@ export default function TipTapEditor({
             },
           };
         },
+        addNodeView() {
+          return ({ HTMLAttributes, extension }) => {
+            const image = document.createElement("img");
+            const attributes = mergeAttributes(
+              extension.options.HTMLAttributes,
+              HTMLAttributes
+            );
+            for (const [key, value] of Object.entries(attributes)) {
+              if (value === null || value === undefined) continue;
+              if (key === "src") {
+                setImageSource(image, String(value));
+              } else {
+                image.setAttribute(key, String(value));
+              }
+            }
+            return { dom: image };
+          };
+        },
       }).configure({
         inline: true,
         allowBase64: true,
@@ -647,42 +1046,182 @@ export default function TipTapEditor({
       }),
       PinchToResize,
       ImageAlignment,
+      NoteLink,
+      ...collaborationExtensions,
     ],
-    content: content,
-    editable: editable,
+    editorProps: {
+      handleClickOn: (_view, _pos, node) => {
+        if (node.type.name === "noteLink" && node.attrs.id) {
+          onOpenNoteLinkRef.current?.(node.attrs.id);
+          return true;
+        }
+        return false;
+      },
+    },
+    // A shared document brings its own content
+    content: collaborationSession ? undefined : content,
+    editable: isEditable,
     autofocus: true,
     onUpdate: ({ editor }: EditorUpdateEvent) => {
       const html = editor.getHTML();
+      if (collaborationSession) {
+        rememberContent(html);
+      }
       if (onContentChange) {
         onContentChange(html);
       }
+      setLinkQuery(findLinkQuery(editor));
     },
     onSelectionUpdate: ({ editor }: { editor: Editor }) => {
       // Force re-render when selection changes to update active states
+      setLinkQuery(findLinkQuery(editor));
     },
     onCreate: ({ editor }: { editor: Editor }) => {
       if (__DEV__) {
         console.log("📝 TipTap editor created with content:", content);
       }
     },
-  });
+  };
+  const editor = useEditor(editorOptions, [collaborationSession]);
+
+  // Join the room, then bring the shared document in line with the note's
+  // saved HTML, which may have changed elsewhere (sync, a restored revision)
+  // since it was stored. Only the peer the relay saw join an empty room does
+  // this, and only once it is synced: anyone else replacing the content
+  // would duplicate it when the documents merge.
+  useEffect(() => {
+    // The editor is recreated for the session; wait for the new one
+    const isBound = editor?.extensionManager.extensions.some(
+      (extension) => extension.name === Collaboration.name
+    );
+    if (!editor || !collaborationSession || !isBound) {
+      return;
+    }
+    const { provider } = collaborationSession;
+    const initialContent = contentRef.current;
+
+    const reconcile = () => {
+      if (editor.getHTML() !== initialContent) {
+        editor.commands.setContent(initialContent, { emitUpdate: false });
+      }
+    };
+
+    if (!provider) {
+      reconcile();
+      setIsCollaborationSeeder(true);
+      setIsCollaborationSynced(true);
+      return;
+    }
 
-  // Update content when prop changes
+    const stopListening = provider.onSynced((isSeeder) => {
+      if (isSeeder) {
+        reconcile();
+      }
+      setIsCollaborationSeeder(isSeeder);
+      setIsCollaborationSynced(true);
+    });
+    provider.connect();
+    return stopListening;
+  }, [editor, collaborationSession]);
+
+  // Update content when prop changes. A shared document only takes content
+  // it didn't produce itself, since the prop trails behind remote edits.
   useEffect(() => {
+    if (collaborationSession) {
+      if (
+        editor &&
+        isCollaborationSynced &&
+        !knownContentRef.current.includes(content)
+      ) {
+        rememberContent(content);
+        editor.commands.setContent(content, { emitUpdate: false });
+      }
+      return;
+    }
     if (editor && content !== undefined) {
       const currentContent = editor.getHTML();
       if (currentContent !== content) {
         editor.commands.setContent(content, { emitUpdate: false });
       }
     }
-  }, [editor, content]);
+  }, [editor, content, collaborationSession, isCollaborationSynced]);
+
+  // Place the caret once, at the start of editing. A shared document waits
+  // until this editor has filled it with the note's HTML; when it joined a
+  // room others had already filled, the content may not be what the offset
+  // refers to, so the caret is left alone.
+  const hasPlacedCursorRef = useRef(false);
+  useEffect(() => {
+    if (
+      !editor ||
+      initialCursor === undefined ||
+      hasPlacedCursorRef.current ||
+      (collaboration && !(isCollaborationSynced && isCollaborationSeeder))
+    ) {
+      return;
+    }
+    hasPlacedCursorRef.current = true;
+
+    const position = findCursorPosition(
+      editor,
+      contentRef.current,
+      initialCursor
+    );
+    if (position !== null) {
+      editor.chain().focus().setTextSelection(position).run();
+    }
+  }, [
+    editor,
+    collaboration,
+    initialCursor,
+    isCollaborationSynced,
+    isCollaborationSeeder,
+  ]);
+
+  // Look up notes matching the [[link being typed
+  const linkSearchText = linkQuery?.query;
+  useEffect(() => {
+    if (linkSearchText === undefined || !searchNoteLinks) {
+      setLinkSuggestions([]);
+      return;
+    }
+
+    let isCancelled = false;
+    searchNoteLinks(linkSearchText)
+      .then((results) => {
+        if (!isCancelled) {
+          setLinkSuggestions(results);
+        }
+      })
+      .catch((error) => {
+        console.error("Error searching note links:", error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [linkSearchText, searchNoteLinks]);
+
+  const insertNoteLink = (target: NoteLinkTarget) => {
+    if (!editor || !linkQuery) return;
+
+    editor
+      .chain()
+      .focus()
+      .insertContentAt({ from: linkQuery.from, to: linkQuery.to }, [
+        { type: "noteLink", attrs: { id: target.id, label: target.title } },
+        { type: "text", text: " " },
+      ])
+      .run();
+    setLinkQuery(null);
+  };
 
   // Update editable state when prop changes
   useEffect(() => {
     if (editor) {
-      editor.setEditable(editable);
+      editor.setEditable(isEditable);
     }
-  }, [editor, editable]);
+  }, [editor, isEditable]);
 
   // Create the HTML content for the WebView with Tiptap initialization
   const htmlContent = `
@@ -847,7 +1386,7 @@ export default function TipTapEditor({
 
   return (
     <View className="flex-1 bg-white/80 backdrop-blur-md rounded-lg border border-orange-200 shadow-sm overflow-hidden">
-      <EditorToolbar editor={editor} />
+      <EditorToolbar editor={editor} onSaveImage={onSaveImage} />
 
       <View className="flex-1 p-6">
         <style>
@@ -859,32 +1398,20 @@ export default function TipTapEditor({
               -webkit-tap-highlight-color: transparent;
             }
 
+            ${NOTE_CONTENT_STYLES}
+
             .ProseMirror {
               outline: none;
               height: 100%;
               overflow-y: auto;
               padding: 16px;
-              font-size: 14px;
-              line-height: 1.6;
-              color: #111827;
               transition: all 200ms ease-out;
             }
 
-            .ProseMirror > * {
-              max-width: 100%;
-              box-sizing: border-box;
-              word-wrap: break-word;
-              overflow-wrap: break-word;
-            }
-
             .ProseMirror:focus {
               outline: none;
             }
 
-            .ProseMirror p {
-              margin: 0 0 16px 0;
-            }
-
             .ProseMirror:empty:before {
               content: "${placeholder}";
               color: #9ca3af;
@@ -896,17 +1423,9 @@ export default function TipTapEditor({
 
             /* Add mobile-friendly image styles */
             .ProseMirror img {
-              width: auto;
-              height: auto;
-              display: block;
-              margin: 24px 0;  /* Increased vertical margin for better spacing */
-              border-radius: 8px;
-              border: 2px solid #fed7aa;
               touch-action: none;
               -webkit-user-select: none;
               user-select: none;
-              object-fit: contain;
-              box-sizing: border-box;
             }
 
             /* Ensure images don't overflow their containers */
@@ -915,19 +1434,33 @@ export default function TipTapEditor({
               overflow: hidden;
             }
 
-            .ProseMirror img[style*="text-align: left"] {
-              margin-left: 0;
-              margin-right: auto;
+            .ProseMirror .note-link {
+              cursor: pointer;
             }
 
-            .ProseMirror img[style*="text-align: center"] {
-              margin-left: auto;
-              margin-right: auto;
+            /* Other people's cursors; colors are set per user */
+            .collaboration-carets__caret {
+              position: relative;
+              margin-left: -1px;
+              margin-right: -1px;
+              border-left: 1px solid;
+              border-right: 1px solid;
+              word-break: normal;
+              pointer-events: none;
             }
 
-            .ProseMirror img[style*="text-align: right"] {
-              margin-left: auto;
-              margin-right: 0;
+            .collaboration-carets__label {
+              position: absolute;
+              top: -1.4em;
+              left: -1px;
+              padding: 1px 4px;
+              border-radius: 4px 4px 4px 0;
+              color: #ffffff;
+              font-size: 11px;
+              font-weight: 600;
+              line-height: normal;
+              white-space: nowrap;
+              user-select: none;
             }
 
             /* Prevent zoom on double tap */
@@ -937,6 +1470,14 @@ export default function TipTapEditor({
           `}
         </style>
         <EditorContent editor={editor} />
+        {editor && linkQuery && searchNoteLinks && (
+          <LinkSuggestions
+            editor={editor}
+            linkQuery={linkQuery}
+            suggestions={linkSuggestions}
+            onSelect={insertNoteLink}
+          />
+        )}
       </View>
     </View>
   );
@@ -0,0 +1,246 @@
+import {
+  closeDatabase,
+  DatabaseOptions,
+  initializeDatabase,
+} from "./connection";
+import { DatabaseDriver, hasDatabaseDriver, setDatabaseDriver } from "./driver";
+import { DatabaseResult } from "./models/Note";
+import {
+  getAttachmentDataUrl,
+  saveAttachmentFromDataUrl,
+} from "./queries/attachmentQueries";
+import {
+  createBackup,
+  restoreBackup,
+  validateBackup,
+} from "./queries/backupQueries";
+import { appendCollabUpdate, getCollabState } from "./queries/collabQueries";
+import {
+  createFolder,
+  deleteFolder,
+  getFolderById,
+  getFolderPath,
+  getFolders,
+  updateFolder,
+} from "./queries/folderQueries";
+import { reindexNoteLinks, searchLinkTargets } from "./queries/linkQueries";
+import {
+  bulkAddTags,
+  bulkDeleteNotes,
+  bulkMoveNotesToFolder,
+  bulkPermanentlyDeleteNotes,
+  bulkRemoveTags,
+  bulkRestoreNotes,
+  bulkSetPinned,
+  createNote,
+  deleteNote,
+  emptyTrash,
+  generateNoteId,
+  getBacklinks,
+  getDeletedNotes,
+  getNoteById,
+  isNoteUnlocked,
+  lockNote,
+  permanentlyDeleteNote,
+  relockNote,
+  removeNoteLock,
+  restoreNote,
+  searchNotes,
+  setNoteFavorite,
+  setNotePinned,
+  setNoteReminder,
+  unlockNote,
+  updateNote,
+} from "./queries/noteQueries";
+import {
+  getNoteRevisionById,
+  getNoteRevisions,
+} from "./queries/revisionQueries";
+import {
+  applySyncRecords,
+  getPendingSyncChanges,
+  getSyncStatus,
+  markSyncChangesPushed,
+} from "./queries/syncQueries";
+import {
+  deleteTag,
+  getTagsWithCounts,
+  mergeTags,
+  renameTag,
+} from "./queries/tagQueries";
+import {
+  createTemplate,
+  deleteTemplate,
+  getTemplateById,
+  getTemplates,
+  updateTemplate,
+} from "./queries/templateQueries";
+
+// Storage used by NoteService. Signatures follow the query functions, which
+// make up the SQLite implementation.
+export interface NoteRepository {
+  initialize(options?: DatabaseOptions): Promise<DatabaseResult<boolean>>;
+  close(): Promise<void>;
+
+  // Notes
+  generateNoteId: typeof generateNoteId;
+  createNote: typeof createNote;
+  getNoteById: typeof getNoteById;
+  searchNotes: typeof searchNotes;
+  updateNote: typeof updateNote;
+  setNotePinned: typeof setNotePinned;
+  setNoteFavorite: typeof setNoteFavorite;
+  setNoteReminder: typeof setNoteReminder;
+  deleteNote: typeof deleteNote;
+  getDeletedNotes: typeof getDeletedNotes;
+  restoreNote: typeof restoreNote;
+  permanentlyDeleteNote: typeof permanentlyDeleteNote;
+  emptyTrash: typeof emptyTrash;
+  getBacklinks: typeof getBacklinks;
+
+  // Locked notes
+  lockNote: typeof lockNote;
+  unlockNote: typeof unlockNote;
+  relockNote: typeof relockNote;
+  isNoteUnlocked: typeof isNoteUnlocked;
+  removeNoteLock: typeof removeNoteLock;
+
+  // Bulk note operations
+  bulkDeleteNotes: typeof bulkDeleteNotes;
+  bulkRestoreNotes: typeof bulkRestoreNotes;
+  bulkMoveNotesToFolder: typeof bulkMoveNotesToFolder;
+  bulkAddTags: typeof bulkAddTags;
+  bulkRemoveTags: typeof bulkRemoveTags;
+  bulkSetPinned: typeof bulkSetPinned;
+  bulkPermanentlyDeleteNotes: typeof bulkPermanentlyDeleteNotes;
+
+  // Attachments and links
+  saveAttachmentFromDataUrl: typeof saveAttachmentFromDataUrl;
+  getAttachmentDataUrl: typeof getAttachmentDataUrl;
+  searchLinkTargets: typeof searchLinkTargets;
+  reindexNoteLinks: typeof reindexNoteLinks;
+
+  // Folders
+  getFolders: typeof getFolders;
+  getFolderById: typeof getFolderById;
+  getFolderPath: typeof getFolderPath;
+  createFolder: typeof createFolder;
+  updateFolder: typeof updateFolder;
+  deleteFolder: typeof deleteFolder;
+
+  // Tags
+  getTagsWithCounts: typeof getTagsWithCounts;
+  renameTag: typeof renameTag;
+  mergeTags: typeof mergeTags;
+  deleteTag: typeof deleteTag;
+
+  // Templates
+  getTemplates: typeof getTemplates;
+  getTemplateById: typeof getTemplateById;
+  createTemplate: typeof createTemplate;
+  updateTemplate: typeof updateTemplate;
+  deleteTemplate: typeof deleteTemplate;
+
+  // Revisions
+  getNoteRevisions: typeof getNoteRevisions;
+  getNoteRevisionById: typeof getNoteRevisionById;
+
+  // Backups
+  createBackup: typeof createBackup;
+  validateBackup: typeof validateBackup;
+  restoreBackup: typeof restoreBackup;
+
+  // Sync
+  getSyncStatus: typeof getSyncStatus;
+  getPendingSyncChanges: typeof getPendingSyncChanges;
+  markSyncChangesPushed: typeof markSyncChangesPushed;
+  applySyncRecords: typeof applySyncRecords;
+
+  // Shared editing
+  appendCollabUpdate: typeof appendCollabUpdate;
+  getCollabState: typeof getCollabState;
+}
+
+// SQLite-backed repository. The connection is shared module state, so only
+// one SQLite repository can be open at a time: initializing one that names a
+// driver closes whatever database another driver had open. Without a driver
+// it runs on the one configured with setDatabaseDriver.
+export const createSQLiteNoteRepository = (
+  driver?: DatabaseDriver
+): NoteRepository => ({
+  initialize: async (options) => {
+    if (driver && !hasDatabaseDriver(driver)) {
+      await closeDatabase();
+      setDatabaseDriver(driver);
+    }
+    return initializeDatabase(options);
+  },
+  close: closeDatabase,
+
+  generateNoteId,
+  createNote,
+  getNoteById,
+  searchNotes,
+  updateNote,
+  setNotePinned,
+  setNoteFavorite,
+  setNoteReminder,
+  deleteNote,
+  getDeletedNotes,
+  restoreNote,
+  permanentlyDeleteNote,
+  emptyTrash,
+  getBacklinks,
+
+  lockNote,
+  unlockNote,
+  relockNote,
+  isNoteUnlocked,
+  removeNoteLock,
+
+  bulkDeleteNotes,
+  bulkRestoreNotes,
+  bulkMoveNotesToFolder,
+  bulkAddTags,
+  bulkRemoveTags,
+  bulkSetPinned,
+  bulkPermanentlyDeleteNotes,
+
+  saveAttachmentFromDataUrl,
+  getAttachmentDataUrl,
+  searchLinkTargets,
+  reindexNoteLinks,
+
+  getFolders,
+  getFolderById,
+  getFolderPath,
+  createFolder,
+  updateFolder,
+  deleteFolder,
+
+  getTagsWithCounts,
+  renameTag,
+  mergeTags,
+  deleteTag,
+
+  getTemplates,
+  getTemplateById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+
+  getNoteRevisions,
+  getNoteRevisionById,
+
+  createBackup,
+  validateBackup,
+  restoreBackup,
+
+  getSyncStatus,
+  getPendingSyncChanges,
+  markSyncChangesPushed,
+  applySyncRecords,
+
+  appendCollabUpdate,
+  getCollabState,
+});
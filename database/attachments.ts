@@ -0,0 +1,122 @@
+import { base64ToBytes } from "../lib/base64";
+import { getDatabaseDriver, SqlDatabase } from "./driver";
+import { ATTACHMENT_URI_SCHEME, attachmentUri } from "./models/Attachment";
+
+// Inline base64 images in note HTML, as produced by older editor versions
+const INLINE_IMAGE_PATTERN =
+  /src="data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=\s]+)"/gi;
+
+// Attachment references in note HTML
+const ATTACHMENT_REFERENCE_PATTERN = new RegExp(
+  `${ATTACHMENT_URI_SCHEME}([0-9a-f]{64})`,
+  "g"
+);
+
+// Unlinked attachments younger than this are kept, since an image added in
+// the editor isn't linked until the note is next saved
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+// Store base64 file data, returning its content hash. Writing the same
+// content again is a no-op.
+export const storeAttachment = async (
+  db: SqlDatabase,
+  base64: string,
+  mimeType: string
+): Promise<string> => {
+  const data = base64.replace(/\s+/g, "");
+  const bytes = base64ToBytes(data);
+  const { sha256, attachmentFiles } = getDatabaseDriver();
+  const hash = toHex(await sha256(bytes));
+
+  if (!(await attachmentFiles.exists(hash))) {
+    await attachmentFiles.writeBase64(hash, data);
+  }
+
+  await db.runAsync(
+    `INSERT OR IGNORE INTO attachments (hash, mime_type, byte_size, created_at)
+      VALUES (?, ?, ?, ?)`,
+    [hash, mimeType, bytes.length, new Date().toISOString()]
+  );
+
+  return hash;
+};
+
+// Move any inline base64 images in note HTML into the attachment store and
+// point the HTML at them instead
+export const extractInlineImages = async (
+  db: SqlDatabase,
+  html: string
+): Promise<string> => {
+  const matches = Array.from(html.matchAll(INLINE_IMAGE_PATTERN));
+  if (matches.length === 0) {
+    return html;
+  }
+
+  let result = html;
+  for (const [source, mimeType, base64] of matches) {
+    const hash = await storeAttachment(db, base64, mimeType.toLowerCase());
+    result = result.replace(source, `src="${attachmentUri(hash)}"`);
+  }
+  return result;
+};
+
+// Hashes of the attachments referenced by note HTML
+export const findAttachmentReferences = (html: string): string[] =>
+  Array.from(
+    new Set(
+      Array.from(html.matchAll(ATTACHMENT_REFERENCE_PATTERN), (m) => m[1])
+    )
+  );
+
+// Record the attachments a note's HTML references. Links are only added, never
+// removed, because the note's revisions may still show an image after it is
+// removed from the current text; they go when the note is permanently deleted.
+// Must run inside the caller's transaction.
+export const linkNoteAttachments = async (
+  txn: SqlDatabase,
+  noteId: string,
+  html: string
+): Promise<void> => {
+  for (const hash of findAttachmentReferences(html)) {
+    await txn.runAsync(
+      `INSERT OR IGNORE INTO note_attachments (note_id, attachment_hash)
+        SELECT ?, hash FROM attachments WHERE hash = ?`,
+      [noteId, hash]
+    );
+  }
+};
+
+// Delete attachments no note or template refers to any more, rows and files
+// both. Returns the number removed.
+export const deleteOrphanedAttachments = async (
+  db: SqlDatabase
+): Promise<number> => {
+  const cutoff = new Date(Date.now() - ORPHAN_GRACE_PERIOD_MS).toISOString();
+  const unlinked = await db.getAllAsync<{ hash: string }>(
+    `SELECT hash FROM attachments
+      WHERE created_at < ?
+        AND hash NOT IN (SELECT attachment_hash FROM note_attachments)`,
+    [cutoff]
+  );
+
+  // Templates aren't linked; their images are found in their HTML
+  const templates = await db.getAllAsync<{ content: string }>(
+    "SELECT content FROM templates"
+  );
+  const templateImages = new Set(
+    templates.flatMap((template) => findAttachmentReferences(template.content))
+  );
+  const orphans = unlinked.filter(({ hash }) => !templateImages.has(hash));
+
+  for (const { hash } of orphans) {
+    await db.runAsync("DELETE FROM attachments WHERE hash = ?", [hash]);
+    await getDatabaseDriver().attachmentFiles.delete(hash);
+  }
+
+  return orphans.length;
+};
@@ -0,0 +1,146 @@
+import { deleteOrphanedAttachments } from "./attachments";
+import { getDatabaseDriver, SqlDatabase } from "./driver";
+import { runMigrations } from "./migrations";
+import { DatabaseError, DatabaseResult } from "./models/Note";
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeExpiredTrash } from "./trash";
+
+export interface DatabaseOptions {
+  trashRetentionDays?: number; // Zero or less disables purging
+}
+
+// Database initialization
+let db: SqlDatabase | null = null;
+let isInitializing = false;
+
+export const initializeDatabase = async (
+  options: DatabaseOptions = {}
+): Promise<DatabaseResult<boolean>> => {
+  // Prevent multiple simultaneous initializations
+  if (isInitializing) {
+    while (isInitializing) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    return db
+      ? { success: true, data: true }
+      : {
+          success: false,
+          error: {
+            code: "DB_INIT_ERROR",
+            message: "Database initialization failed",
+          },
+        };
+  }
+
+  // Return early if already initialized
+  if (db) {
+    return { success: true, data: true };
+  }
+
+  isInitializing = true;
+
+  try {
+    const driver = getDatabaseDriver();
+    console.log(`🔧 Initializing SQLite database (${driver.name})...`);
+
+    // Open database; it is only published to other callers once migrated
+    const database = await driver.openDatabase();
+    console.log("✅ Database opened successfully");
+
+    // Bring the schema up to date
+    const migrationResult = await runMigrations(database);
+    if (!migrationResult.success) {
+      await database.closeAsync();
+      isInitializing = false;
+      return { success: false, error: migrationResult.error };
+    }
+    console.log(
+      `✅ Schema at version ${migrationResult.data?.toVersion}`,
+      migrationResult.data?.applied
+    );
+
+    // Clear out notes that have outlived the trash retention period
+    const purged = await purgeExpiredTrash(
+      database,
+      options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+    );
+    if (purged > 0) {
+      console.log(`🗑️ Purged ${purged} expired notes from the trash`);
+    }
+
+    // Remove attachment files no longer used by any note
+    const removedAttachments = await deleteOrphanedAttachments(database);
+    if (removedAttachments > 0) {
+      console.log(`🗑️ Removed ${removedAttachments} unused attachments`);
+    }
+
+    // Test database functionality
+    const testResult = await database.getFirstAsync<{ version: string }>(
+      "SELECT sqlite_version() as version"
+    );
+    console.log(
+      `✅ Database test successful - SQLite version: ${testResult?.version}`
+    );
+
+    db = database;
+    isInitializing = false;
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Database initialization failed:", error);
+
+    // Reset state on failure
+    db = null;
+    isInitializing = false;
+
+    const dbError: DatabaseError = {
+      code: "DB_INIT_ERROR",
+      message: "Failed to initialize database",
+      details: {
+        error: String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        name: error instanceof Error ? error.name : undefined,
+      },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Ensure database is ready before operations
+export const ensureDatabase = async (): Promise<SqlDatabase> => {
+  if (!db) {
+    const result = await initializeDatabase();
+    if (!result.success) {
+      throw new Error(
+        `Database initialization failed: ${result.error?.message}`
+      );
+    }
+  }
+  return db!;
+};
+
+// Close the database so the next operation opens it afresh, e.g. after
+// switching drivers
+export const closeDatabase = async (): Promise<void> => {
+  if (!db) {
+    return;
+  }
+
+  const database = db;
+  db = null;
+  await database.closeAsync();
+  console.log("🔒 Database closed");
+};
+
+// Run a task inside an exclusive transaction. The task must use the handle it
+// is given; statements issued on the shared handle are not part of it.
+export const runInTransaction = async <T>(
+  task: (txn: SqlDatabase) => Promise<T>
+): Promise<T> => {
+  const database = await ensureDatabase();
+  let result: T | undefined;
+
+  await database.withExclusiveTransactionAsync(async (txn) => {
+    result = await task(txn);
+  });
+
+  return result as T;
+};
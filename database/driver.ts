@@ -0,0 +1,61 @@
+// Values that can be bound to statement parameters
+export type SqlValue = string | number | boolean | null | Uint8Array;
+
+export interface SqlRunResult {
+  changes: number;
+  lastInsertRowId: number;
+}
+
+// The part of the expo-sqlite database API the data layer uses. Queries and
+// migrations only talk to this, so another SQLite driver can stand in for
+// expo-sqlite, e.g. to run them under Node.
+export interface SqlDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string): Promise<SqlRunResult>;
+  runAsync(source: string, params: SqlValue[]): Promise<SqlRunResult>;
+  getFirstAsync<T>(source: string): Promise<T | null>;
+  getFirstAsync<T>(source: string, params: SqlValue[]): Promise<T | null>;
+  getAllAsync<T>(source: string): Promise<T[]>;
+  getAllAsync<T>(source: string, params: SqlValue[]): Promise<T[]>;
+  // The task must use the handle it is given for its statements
+  withExclusiveTransactionAsync(
+    task: (txn: SqlDatabase) => Promise<void>
+  ): Promise<void>;
+  closeAsync(): Promise<void>;
+}
+
+// Storage for attachment files, keyed by content hash
+export interface AttachmentFileStore {
+  exists(hash: string): Promise<boolean>;
+  writeBase64(hash: string, data: string): Promise<void>;
+  readBase64(hash: string): Promise<string>;
+  delete(hash: string): Promise<void>; // No-op when the file is missing
+}
+
+// Everything platform-specific the data layer needs
+export interface DatabaseDriver {
+  name: string;
+  openDatabase(): Promise<SqlDatabase>;
+  randomUUID(): string;
+  randomBytes(length: number): Uint8Array;
+  sha256(bytes: Uint8Array): Promise<ArrayBuffer>;
+  attachmentFiles: AttachmentFileStore;
+}
+
+let activeDriver: DatabaseDriver | null = null;
+
+// Choose the driver the data layer runs on. Switch drivers only while no
+// database is open (see closeDatabase).
+export const setDatabaseDriver = (driver: DatabaseDriver): void => {
+  activeDriver = driver;
+};
+
+export const getDatabaseDriver = (): DatabaseDriver => {
+  if (!activeDriver) {
+    throw new Error("No database driver configured");
+  }
+  return activeDriver;
+};
+
+export const hasDatabaseDriver = (driver: DatabaseDriver): boolean =>
+  activeDriver === driver;
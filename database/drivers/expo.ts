@@ -0,0 +1,53 @@
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+import * as SQLite from "expo-sqlite";
+import { DatabaseDriver, SqlDatabase } from "../driver";
+
+const DATABASE_NAME = "inky_notes.db";
+
+// Attachment files live outside the database, one file per content hash
+const ATTACHMENTS_DIRECTORY = `${FileSystem.documentDirectory}attachments/`;
+
+const attachmentFilePath = (hash: string): string =>
+  `${ATTACHMENTS_DIRECTORY}${hash}`;
+
+// Driver for the app itself: expo-sqlite with files in the document directory
+export const expoDriver: DatabaseDriver = {
+  name: "expo-sqlite",
+
+  openDatabase: async (): Promise<SqlDatabase> => {
+    const database = await SQLite.openDatabaseAsync(DATABASE_NAME);
+
+    // Enable WAL mode for better performance
+    await database.execAsync("PRAGMA journal_mode = WAL;");
+    return database;
+  },
+
+  randomUUID: () => Crypto.randomUUID(),
+
+  randomBytes: (length) => Crypto.getRandomBytes(length),
+
+  sha256: (bytes) => Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes),
+
+  attachmentFiles: {
+    exists: async (hash) =>
+      (await FileSystem.getInfoAsync(attachmentFilePath(hash))).exists,
+
+    writeBase64: async (hash, data) => {
+      await FileSystem.makeDirectoryAsync(ATTACHMENTS_DIRECTORY, {
+        intermediates: true,
+      });
+      await FileSystem.writeAsStringAsync(attachmentFilePath(hash), data, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    },
+
+    readBase64: (hash) =>
+      FileSystem.readAsStringAsync(attachmentFilePath(hash), {
+        encoding: FileSystem.EncodingType.Base64,
+      }),
+
+    delete: (hash) =>
+      FileSystem.deleteAsync(attachmentFilePath(hash), { idempotent: true }),
+  },
+};
@@ -0,0 +1,159 @@
+import Sqlite from "better-sqlite3";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import {
+  AttachmentFileStore,
+  DatabaseDriver,
+  SqlDatabase,
+  SqlValue,
+} from "../driver";
+import { createSQLiteNoteRepository, NoteRepository } from "../NoteRepository";
+
+// Driver for running the data layer under plain Node (scripts and tests).
+// Never import this from app code: better-sqlite3 is a native Node module
+// that Metro cannot bundle.
+
+export interface NodeDriverOptions {
+  // Database file to open; an in-memory database by default
+  filename?: string;
+  // Directory for attachment files; kept in memory when omitted
+  attachmentsDirectory?: string;
+}
+
+// better-sqlite3 binds neither booleans nor plain Uint8Arrays
+const toBindValue = (value: SqlValue): string | number | Buffer | null => {
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value);
+  }
+  return value;
+};
+
+const bindValues = (params: SqlValue[] = []) => params.map(toBindValue);
+
+const wrapDatabase = (database: Sqlite.Database): SqlDatabase => {
+  // Exclusive transactions queue up behind each other, like they do on the
+  // separate connection expo-sqlite opens for them
+  let transactionQueue: Promise<void> = Promise.resolve();
+
+  const wrapper: SqlDatabase = {
+    execAsync: async (source) => {
+      database.exec(source);
+    },
+
+    runAsync: async (source: string, params?: SqlValue[]) => {
+      const result = database.prepare(source).run(...bindValues(params));
+      return {
+        changes: result.changes,
+        lastInsertRowId: Number(result.lastInsertRowid),
+      };
+    },
+
+    getFirstAsync: async <T>(source: string, params?: SqlValue[]) =>
+      (database.prepare(source).get(...bindValues(params)) as T | undefined) ??
+      null,
+
+    getAllAsync: async <T>(source: string, params?: SqlValue[]) =>
+      database.prepare(source).all(...bindValues(params)) as T[],
+
+    withExclusiveTransactionAsync: (task) => {
+      const run = transactionQueue.then(async () => {
+        database.exec("BEGIN IMMEDIATE");
+        try {
+          await task(wrapper);
+          database.exec("COMMIT");
+        } catch (error) {
+          database.exec("ROLLBACK");
+          throw error;
+        }
+      });
+      transactionQueue = run.catch(() => undefined);
+      return run;
+    },
+
+    closeAsync: async () => {
+      database.close();
+    },
+  };
+
+  return wrapper;
+};
+
+const createMemoryFileStore = (): AttachmentFileStore => {
+  const files = new Map<string, string>();
+
+  return {
+    exists: async (hash) => files.has(hash),
+    writeBase64: async (hash, data) => {
+      files.set(hash, data);
+    },
+    readBase64: async (hash) => {
+      const data = files.get(hash);
+      if (data === undefined) {
+        throw new Error(`Attachment file not found: ${hash}`);
+      }
+      return data;
+    },
+    delete: async (hash) => {
+      files.delete(hash);
+    },
+  };
+};
+
+const createDirectoryFileStore = (directory: string): AttachmentFileStore => {
+  const filePath = (hash: string): string => path.join(directory, hash);
+
+  return {
+    exists: async (hash) =>
+      fs.access(filePath(hash)).then(
+        () => true,
+        () => false
+      ),
+    writeBase64: async (hash, data) => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(filePath(hash), data, "base64");
+    },
+    readBase64: (hash) => fs.readFile(filePath(hash), "base64"),
+    delete: (hash) => fs.rm(filePath(hash), { force: true }),
+  };
+};
+
+export const createNodeDriver = ({
+  filename = ":memory:",
+  attachmentsDirectory,
+}: NodeDriverOptions = {}): DatabaseDriver => ({
+  name: "better-sqlite3",
+
+  openDatabase: async () => {
+    const database = new Sqlite(filename);
+    if (filename !== ":memory:") {
+      database.pragma("journal_mode = WAL");
+    }
+    return wrapDatabase(database);
+  },
+
+  randomUUID: () => randomUUID(),
+
+  randomBytes: (length) => new Uint8Array(randomBytes(length)),
+
+  sha256: async (bytes) => {
+    const digest = createHash("sha256").update(bytes).digest();
+    return digest.buffer.slice(
+      digest.byteOffset,
+      digest.byteOffset + digest.byteLength
+    ) as ArrayBuffer;
+  },
+
+  attachmentFiles: attachmentsDirectory
+    ? createDirectoryFileStore(attachmentsDirectory)
+    : createMemoryFileStore(),
+});
+
+// Note repository on a fresh Node database, for driving NoteService outside
+// the app: new NoteService(config, createNodeNoteRepository())
+export const createNodeNoteRepository = (
+  options?: NodeDriverOptions
+): NoteRepository => createSQLiteNoteRepository(createNodeDriver(options));
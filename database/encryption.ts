@@ -0,0 +1,135 @@
+import { gcm } from "@noble/ciphers/aes";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { base64ToBytes, bytesToBase64 } from "../lib/base64";
+import { getDatabaseDriver } from "./driver";
+
+// The parts of a locked note that are only ever stored encrypted
+export interface NoteSecrets {
+  title: string;
+  content: string;
+  plainText: string;
+}
+
+interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+}
+
+// AES-256 key for one locked note, derived from its passphrase and salt
+export interface NoteKey {
+  key: Uint8Array;
+  salt: string; // Base64; kept so the note can be re-encrypted on save
+  params: ScryptParams; // What the key was derived with
+}
+
+// How a note's secrets are stored in notes.encrypted_payload. The scrypt
+// parameters travel with the data so they can be raised for new locks.
+interface SealedNoteSecrets extends ScryptParams {
+  v: 1;
+  kdf: "scrypt";
+  salt: string;
+  nonce: string;
+  data: string; // AES-256-GCM ciphertext and tag of the JSON secrets
+}
+
+const SCRYPT_PARAMS: ScryptParams = { n: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+
+// Hermes has TextEncoder but not TextDecoder, so decode via percent-escapes
+const bytesToUtf8 = (bytes: Uint8Array): string =>
+  decodeURIComponent(
+    Array.from(bytes, (byte) => `%${byte.toString(16).padStart(2, "0")}`).join(
+      ""
+    )
+  );
+
+const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  params: ScryptParams
+): Promise<NoteKey> => {
+  const key = await scryptAsync(
+    new TextEncoder().encode(passphrase.normalize("NFKC")),
+    base64ToBytes(salt),
+    { N: params.n, r: params.r, p: params.p, dkLen: KEY_LENGTH }
+  );
+  return { key, salt, params };
+};
+
+// Derive a key with a fresh salt, for locking a note
+export const createNoteKey = (passphrase: string): Promise<NoteKey> =>
+  deriveKey(
+    passphrase,
+    bytesToBase64(getDatabaseDriver().randomBytes(SALT_LENGTH)),
+    SCRYPT_PARAMS
+  );
+
+// Encrypt a note's secrets under its key, with a new nonce each time
+export const sealNoteSecrets = (
+  secrets: NoteSecrets,
+  noteKey: NoteKey
+): string => {
+  const nonce = getDatabaseDriver().randomBytes(NONCE_LENGTH);
+  const data = gcm(noteKey.key, nonce).encrypt(
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+
+  const sealed: SealedNoteSecrets = {
+    v: 1,
+    kdf: "scrypt",
+    ...noteKey.params,
+    salt: noteKey.salt,
+    nonce: bytesToBase64(nonce),
+    data: bytesToBase64(data),
+  };
+  return JSON.stringify(sealed);
+};
+
+// Decrypt a sealed payload. Throws if the key is wrong or the data altered.
+export const openNoteSecrets = (
+  payload: string,
+  noteKey: NoteKey
+): NoteSecrets => {
+  const sealed: SealedNoteSecrets = JSON.parse(payload);
+  const plaintext = gcm(noteKey.key, base64ToBytes(sealed.nonce)).decrypt(
+    base64ToBytes(sealed.data)
+  );
+  return JSON.parse(bytesToUtf8(plaintext));
+};
+
+// Derive the key for a sealed payload from its passphrase. Returns null when
+// the passphrase is wrong.
+export const unlockNoteSecrets = async (
+  payload: string,
+  passphrase: string
+): Promise<{ noteKey: NoteKey; secrets: NoteSecrets } | null> => {
+  const sealed: SealedNoteSecrets = JSON.parse(payload);
+  const { n, r, p, salt } = sealed;
+  const noteKey = await deriveKey(passphrase, salt, { n, r, p });
+  try {
+    return { noteKey, secrets: openNoteSecrets(payload, noteKey) };
+  } catch {
+    return null;
+  }
+};
+
+// Keys of the notes unlocked this session. They only ever live in memory.
+const unlockedNoteKeys = new Map<string, NoteKey>();
+
+export const rememberNoteKey = (noteId: string, noteKey: NoteKey): void => {
+  unlockedNoteKeys.set(noteId, noteKey);
+};
+
+export const getNoteKey = (noteId: string): NoteKey | undefined =>
+  unlockedNoteKeys.get(noteId);
+
+export const forgetNoteKey = (noteId: string): void => {
+  unlockedNoteKeys.delete(noteId);
+};
+
+export const forgetAllNoteKeys = (): void => {
+  unlockedNoteKeys.clear();
+};
@@ -0,0 +1,64 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Baseline schema. Databases created before versioned migrations already have a
+// notes table (user_version 0), so this step patches missing columns instead of
+// assuming a fresh database.
+export const initialSchema: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: async (db: SqlDatabase): Promise<void> => {
+    const tableInfo = await db.getAllAsync<{ name: string; type: string }>(
+      "PRAGMA table_info(notes);"
+    );
+
+    if (tableInfo.length > 0) {
+      const existingColumns = tableInfo.map((col) => col.name);
+
+      if (!existingColumns.includes("plain_text")) {
+        await db.execAsync(
+          "ALTER TABLE notes ADD COLUMN plain_text TEXT DEFAULT '';"
+        );
+      }
+
+      if (!existingColumns.includes("is_deleted")) {
+        await db.execAsync(
+          "ALTER TABLE notes ADD COLUMN is_deleted INTEGER DEFAULT 0;"
+        );
+      }
+
+      if (!existingColumns.includes("metadata")) {
+        await db.execAsync(
+          "ALTER TABLE notes ADD COLUMN metadata TEXT DEFAULT '{}';"
+        );
+      }
+    } else {
+      await db.execAsync(`
+        CREATE TABLE notes (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          plain_text TEXT NOT NULL DEFAULT '',
+          word_count INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          folder_id TEXT,
+          tags TEXT,
+          reading_time INTEGER DEFAULT 1,
+          last_edit_position INTEGER DEFAULT 0,
+          is_pinned INTEGER DEFAULT 0,
+          is_favorite INTEGER DEFAULT 0,
+          is_deleted INTEGER DEFAULT 0,
+          metadata TEXT DEFAULT '{}'
+        );
+      `);
+    }
+
+    await db.execAsync(`
+      CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at);
+      CREATE INDEX IF NOT EXISTS idx_notes_is_deleted ON notes(is_deleted);
+      CREATE INDEX IF NOT EXISTS idx_notes_folder_id ON notes(folder_id);
+      CREATE INDEX IF NOT EXISTS idx_notes_plain_text ON notes(plain_text);
+    `);
+  },
+};
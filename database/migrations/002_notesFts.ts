@@ -0,0 +1,47 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// FTS5 index over note titles, plain text and tags. It is an external-content table
+// backed by notes, so the triggers below keep it in sync with every write.
+export const notesFts: Migration = {
+  version: 2,
+  name: "notes_fts",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE VIRTUAL TABLE notes_fts USING fts5(
+        title,
+        plain_text,
+        tags,
+        content='notes',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER notes_fts_after_insert AFTER INSERT ON notes BEGIN
+        INSERT INTO notes_fts(rowid, title, plain_text, tags)
+        VALUES (new.rowid, new.title, new.plain_text, new.tags);
+      END;
+
+      CREATE TRIGGER notes_fts_after_delete AFTER DELETE ON notes BEGIN
+        INSERT INTO notes_fts(notes_fts, rowid, title, plain_text, tags)
+        VALUES ('delete', old.rowid, old.title, old.plain_text, old.tags);
+      END;
+
+      CREATE TRIGGER notes_fts_after_update AFTER UPDATE OF title, plain_text, tags ON notes BEGIN
+        INSERT INTO notes_fts(notes_fts, rowid, title, plain_text, tags)
+        VALUES ('delete', old.rowid, old.title, old.plain_text, old.tags);
+        INSERT INTO notes_fts(rowid, title, plain_text, tags)
+        VALUES (new.rowid, new.title, new.plain_text, new.tags);
+      END;
+
+      INSERT INTO notes_fts(notes_fts) VALUES ('rebuild');
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      DROP TRIGGER IF EXISTS notes_fts_after_insert;
+      DROP TRIGGER IF EXISTS notes_fts_after_delete;
+      DROP TRIGGER IF EXISTS notes_fts_after_update;
+      DROP TABLE IF EXISTS notes_fts;
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Folder hierarchy. notes.folder_id already exists; parent_id is NULL for
+// top-level folders.
+export const folders: Migration = {
+  version: 3,
+  name: "folders",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE folders (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        parent_id TEXT,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        color TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_folders_parent_id ON folders(parent_id);
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      UPDATE notes SET folder_id = NULL WHERE folder_id IS NOT NULL;
+      DROP TABLE IF EXISTS folders;
+    `);
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { createNodeDriver, createNodeNoteRepository } from "../drivers/node";
+import { NoteRepository } from "../NoteRepository";
+import { normalizeTagNames } from "../queries/tagQueries";
+import { runMigrations } from "./index";
+
+// Tag JSON as older versions could leave it in notes.tags
+const LEGACY_NOTES: [string, string | null][] = [
+  ["duplicates", '["Work", "work", " WORK ", "home"]'],
+  ["non-strings", '["work", 42, null, {"name": "x"}, ["y"], "ideas"]'],
+  ["unparsable", "[work, home"],
+  ["not-an-array", '{"tag": "work"}'],
+  ["empty", null],
+];
+
+describe("tags migration", () => {
+  let directory: string;
+  let repository: NoteRepository;
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), "inky-tags-"));
+    const filename = path.join(directory, "notes.db");
+
+    // A database from before normalized tags
+    const database = await createNodeDriver({ filename }).openDatabase();
+    expect((await runMigrations(database, 3)).success).toBe(true);
+    const now = "2025-01-01T00:00:00.000Z";
+    for (const [id, tags] of LEGACY_NOTES) {
+      await database.runAsync(
+        `INSERT INTO notes (id, title, content, created_at, updated_at, tags)
+          VALUES (?, ?, '<p></p>', ?, ?, ?)`,
+        [id, id, now, now, tags]
+      );
+    }
+    await database.closeAsync();
+
+    repository = createNodeNoteRepository({ filename });
+    expect((await repository.initialize()).success).toBe(true);
+  });
+
+  afterAll(async () => {
+    await repository.close();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const storedTags = async (id: string): Promise<string[]> => {
+    const result = await repository.getNoteById(id);
+    expect(result.success).toBe(true);
+    return result.data!.tags;
+  };
+
+  it("rewrites notes.tags to match note_tags", async () => {
+    expect(await storedTags("duplicates")).toEqual(["Work", "home"]);
+    expect(await storedTags("non-strings")).toEqual(["Work", "ideas"]);
+    expect(await storedTags("unparsable")).toEqual([]);
+    expect(await storedTags("not-an-array")).toEqual(["Work"]);
+    expect(await storedTags("empty")).toEqual([]);
+  });
+
+  it("creates one tag per name, ignoring case", async () => {
+    const result = await repository.getTagsWithCounts();
+    expect(
+      result.data!.map(({ name, noteCount }) => [name, noteCount])
+    ).toEqual([
+      ["home", 1],
+      ["ideas", 1],
+      ["Work", 3],
+    ]);
+  });
+
+  it("leaves every note searchable and every tag renamable", async () => {
+    const search = await repository.searchNotes({ limit: 50 });
+    expect(search.success).toBe(true);
+    expect(search.data!.notes).toHaveLength(LEGACY_NOTES.length);
+
+    const tags = await repository.getTagsWithCounts();
+    const work = tags.data!.find((tag) => tag.name === "Work")!;
+    expect((await repository.renameTag(work.id, "Office")).success).toBe(true);
+    expect(await storedTags("non-strings")).toEqual(["Office", "ideas"]);
+  });
+});
+
+describe("normalizeTagNames", () => {
+  it("skips values that aren't strings", () => {
+    expect(normalizeTagNames([" a ", 1, null, "A", {}, "b", ""])).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// JSON tag arrays that fail to parse are treated as empty
+const NOTE_TAG_VALUES = `json_each(
+  CASE WHEN json_valid(notes.tags) THEN notes.tags ELSE '[]' END
+) AS tag_values`;
+
+// Normalized tags. notes.tags stays as a denormalized copy of each note's tag
+// names (used for display and full-text search); note_tags is the source of
+// truth for filtering and tag management.
+export const tags: Migration = {
+  version: 4,
+  name: "tags",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL COLLATE NOCASE UNIQUE,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE note_tags (
+        note_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        PRIMARY KEY (note_id, tag_id)
+      );
+
+      CREATE INDEX idx_note_tags_tag_id ON note_tags(tag_id);
+
+      INSERT OR IGNORE INTO tags (id, name, created_at)
+        SELECT lower(hex(randomblob(16))), trim(tag_values.value),
+          strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+        FROM notes, ${NOTE_TAG_VALUES}
+        WHERE tag_values.type = 'text' AND trim(tag_values.value) != '';
+
+      INSERT OR IGNORE INTO note_tags (note_id, tag_id)
+        SELECT notes.id, tags.id
+        FROM notes, ${NOTE_TAG_VALUES}
+        JOIN tags ON tags.name = trim(tag_values.value)
+        WHERE tag_values.type = 'text';
+    `);
+
+    // Rewrite the denormalized copy from note_tags, so duplicates, values
+    // that aren't strings and unparsable JSON don't outlive the migration.
+    // Tags keep the order they had in the old JSON.
+    const links = await db.getAllAsync<{ note_id: string; name: string }>(
+      `SELECT notes.id AS note_id, tags.name AS name
+        FROM notes
+        JOIN note_tags ON note_tags.note_id = notes.id
+        JOIN tags ON tags.id = note_tags.tag_id
+        ORDER BY notes.id, (
+          SELECT MIN(CAST(tag_values.key AS INTEGER)) FROM ${NOTE_TAG_VALUES}
+          WHERE tag_values.type = 'text' AND trim(tag_values.value) = tags.name
+        )`
+    );
+    const tagsByNote = new Map<string, string[]>();
+    for (const link of links) {
+      const names = tagsByNote.get(link.note_id) ?? [];
+      names.push(link.name);
+      tagsByNote.set(link.note_id, names);
+    }
+
+    const notes = await db.getAllAsync<{ id: string }>("SELECT id FROM notes");
+    for (const note of notes) {
+      await db.runAsync("UPDATE notes SET tags = ? WHERE id = ?", [
+        JSON.stringify(tagsByNote.get(note.id) ?? []),
+        note.id,
+      ]);
+    }
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS note_tags;
+      DROP TABLE IF EXISTS tags;
+    `);
+  },
+};
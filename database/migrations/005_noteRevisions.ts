@@ -0,0 +1,44 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Snapshots of note title/content taken on save. Existing notes get their
+// current state as a first revision so there is something to compare against.
+export const noteRevisions: Migration = {
+  version: 5,
+  name: "note_revisions",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE note_revisions (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        plain_text TEXT NOT NULL DEFAULT '',
+        word_count INTEGER DEFAULT 0,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_note_revisions_note_id
+        ON note_revisions(note_id, created_at);
+
+      INSERT INTO note_revisions (
+        id, note_id, title, content, plain_text, word_count, version,
+        created_at, updated_at
+      )
+      SELECT lower(hex(randomblob(16))), id, title, content,
+        COALESCE(plain_text, ''), COALESCE(word_count, 0),
+        COALESCE(
+          CASE WHEN json_valid(metadata)
+            THEN json_extract(metadata, '$.version') END,
+          1
+        ),
+        updated_at, updated_at
+      FROM notes;
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync("DROP TABLE IF EXISTS note_revisions;");
+  },
+};
@@ -0,0 +1,26 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Record when a note was moved to the trash, so the trash can show it and
+// retention can purge by age. Notes already in the trash use their last
+// modification time, which deleteNote set when trashing them.
+export const trash: Migration = {
+  version: 6,
+  name: "trash",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      ALTER TABLE notes ADD COLUMN deleted_at TEXT;
+
+      UPDATE notes SET deleted_at = updated_at WHERE is_deleted = 1;
+
+      CREATE INDEX idx_notes_deleted_at ON notes(deleted_at)
+        WHERE is_deleted = 1;
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      DROP INDEX IF EXISTS idx_notes_deleted_at;
+      ALTER TABLE notes DROP COLUMN deleted_at;
+    `);
+  },
+};
@@ -0,0 +1,63 @@
+import type { SqlDatabase } from "../driver";
+import { extractInlineImages, linkNoteAttachments } from "../attachments";
+import { Migration } from "./types";
+
+// Notes and revisions still carrying base64 images
+const INLINE_IMAGE_FILTER = `content LIKE '%src="data:image/%'`;
+
+// Content-addressed attachment store. Files live on disk keyed by hash;
+// note_attachments records which notes (and their revisions) use each one.
+// Existing inline base64 images are moved out of note and revision HTML.
+// Irreversible: the extracted images are not inlined again.
+export const attachments: Migration = {
+  version: 7,
+  name: "attachments",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE attachments (
+        hash TEXT PRIMARY KEY,
+        mime_type TEXT NOT NULL,
+        byte_size INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE note_attachments (
+        note_id TEXT NOT NULL,
+        attachment_hash TEXT NOT NULL,
+        PRIMARY KEY (note_id, attachment_hash)
+      );
+
+      CREATE INDEX idx_note_attachments_hash
+        ON note_attachments(attachment_hash);
+    `);
+
+    const notes = await db.getAllAsync<{ id: string; content: string }>(
+      `SELECT id, content FROM notes WHERE ${INLINE_IMAGE_FILTER}`
+    );
+    for (const note of notes) {
+      const content = await extractInlineImages(db, note.content);
+      await db.runAsync("UPDATE notes SET content = ? WHERE id = ?", [
+        content,
+        note.id,
+      ]);
+      await linkNoteAttachments(db, note.id, content);
+    }
+
+    const revisions = await db.getAllAsync<{
+      id: string;
+      note_id: string;
+      content: string;
+    }>(
+      `SELECT id, note_id, content FROM note_revisions
+        WHERE ${INLINE_IMAGE_FILTER}`
+    );
+    for (const revision of revisions) {
+      const content = await extractInlineImages(db, revision.content);
+      await db.runAsync("UPDATE note_revisions SET content = ? WHERE id = ?", [
+        content,
+        revision.id,
+      ]);
+      await linkNoteAttachments(db, revision.note_id, content);
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Index of [[wiki links]] between notes, rebuilt from a note's HTML each time
+// it is saved. Links are by id, so renaming the target doesn't break them.
+export const noteLinks: Migration = {
+  version: 8,
+  name: "note_links",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE note_links (
+        source_note_id TEXT NOT NULL,
+        target_note_id TEXT NOT NULL,
+        PRIMARY KEY (source_note_id, target_note_id)
+      );
+
+      CREATE INDEX idx_note_links_target ON note_links(target_note_id);
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync("DROP TABLE IF EXISTS note_links;");
+  },
+};
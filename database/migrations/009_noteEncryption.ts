@@ -0,0 +1,23 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Encrypted title, content and plain text of locked notes. While a note is
+// locked its plaintext columns are left empty, which also keeps it out of
+// the full-text index.
+export const noteEncryption: Migration = {
+  version: 9,
+  name: "note_encryption",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync("ALTER TABLE notes ADD COLUMN encrypted_payload TEXT;");
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    // Dropping the column would destroy every locked note
+    const locked = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM notes WHERE encrypted_payload IS NOT NULL"
+    );
+    if (locked && locked.count > 0) {
+      throw new Error(`${locked.count} notes are still locked`);
+    }
+    await db.execAsync("ALTER TABLE notes DROP COLUMN encrypted_payload;");
+  },
+};
@@ -0,0 +1,115 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+const NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+// Log a change to a row of table as entity, keyed by column key
+const changeTriggers = (
+  table: string,
+  entity: string,
+  key: string,
+  updatedColumns: string[] | null
+): string => {
+  const logChange = (operation: string, row: string) =>
+    `INSERT INTO changes (entity, entity_id, operation, changed_at)
+      VALUES ('${entity}', ${row}.${key}, '${operation}', ${NOW});`;
+
+  const triggers = [
+    `CREATE TRIGGER changes_after_${table}_insert AFTER INSERT ON ${table} BEGIN
+      ${logChange("create", "new")}
+    END;`,
+  ];
+  if (updatedColumns) {
+    triggers.push(
+      `CREATE TRIGGER changes_after_${table}_update
+        AFTER UPDATE OF ${updatedColumns.join(", ")} ON ${table} BEGIN
+        ${logChange("update", "new")}
+      END;`,
+      `CREATE TRIGGER changes_after_${table}_delete AFTER DELETE ON ${table} BEGIN
+        ${logChange("delete", "old")}
+      END;`
+    );
+  }
+  return triggers.join("\n");
+};
+
+// Changes log for sync. Triggers record every create, update and delete of
+// notes and folders, and every new attachment, so no write path can forget
+// to. Attachments never change, and unused files are cleaned up on each
+// device, so only their creation is logged. Existing rows are logged as
+// created so the first sync uploads them.
+export const sync: Migration = {
+  version: 10,
+  name: "sync",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE changes (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        changed_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_changes_entity ON changes(entity, entity_id);
+
+      -- Server version each record was last synced at, and the columns of
+      -- a note or folder at that version as JSON, the base for merging
+      -- edits made on two devices
+      CREATE TABLE sync_versions (
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        data TEXT,
+        PRIMARY KEY (entity, entity_id)
+      );
+
+      CREATE TABLE sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      ${changeTriggers("notes", "note", "id", [
+        "title",
+        "content",
+        "folder_id",
+        "tags",
+        "is_pinned",
+        "is_favorite",
+        "is_deleted",
+        "deleted_at",
+        "encrypted_payload",
+      ])}
+
+      ${changeTriggers("folders", "folder", "id", [
+        "name",
+        "parent_id",
+        "sort_order",
+        "color",
+      ])}
+
+      ${changeTriggers("attachments", "attachment", "hash", null)}
+
+      INSERT INTO changes (entity, entity_id, operation, changed_at)
+        SELECT 'attachment', hash, 'create', ${NOW} FROM attachments;
+      INSERT INTO changes (entity, entity_id, operation, changed_at)
+        SELECT 'folder', id, 'create', ${NOW} FROM folders;
+      INSERT INTO changes (entity, entity_id, operation, changed_at)
+        SELECT 'note', id, 'create', ${NOW} FROM notes;
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      DROP TRIGGER IF EXISTS changes_after_notes_insert;
+      DROP TRIGGER IF EXISTS changes_after_notes_update;
+      DROP TRIGGER IF EXISTS changes_after_notes_delete;
+      DROP TRIGGER IF EXISTS changes_after_folders_insert;
+      DROP TRIGGER IF EXISTS changes_after_folders_update;
+      DROP TRIGGER IF EXISTS changes_after_folders_delete;
+      DROP TRIGGER IF EXISTS changes_after_attachments_insert;
+      DROP TABLE IF EXISTS sync_state;
+      DROP TABLE IF EXISTS sync_versions;
+      DROP TABLE IF EXISTS changes;
+    `);
+  },
+};
@@ -0,0 +1,25 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Yjs updates of notes edited together, base64 encoded and appended as they
+// arrive. Merged in order they rebuild the shared document; rows are
+// compacted into one once enough have piled up.
+export const collabUpdates: Migration = {
+  version: 11,
+  name: "collab_updates",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE note_collab_updates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        note_id TEXT NOT NULL,
+        update_data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_note_collab_updates_note ON note_collab_updates(note_id);
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync("DROP TABLE IF EXISTS note_collab_updates;");
+  },
+};
@@ -0,0 +1,49 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Columns of notes whose updates are logged for sync (010_sync.ts)
+const SYNCED_NOTE_COLUMNS = [
+  "title",
+  "content",
+  "folder_id",
+  "tags",
+  "is_pinned",
+  "is_favorite",
+  "is_deleted",
+  "deleted_at",
+  "encrypted_payload",
+];
+
+const noteUpdateTrigger = (columns: string[]): string => `
+  DROP TRIGGER IF EXISTS changes_after_notes_update;
+  CREATE TRIGGER changes_after_notes_update
+    AFTER UPDATE OF ${columns.join(", ")} ON notes BEGIN
+    INSERT INTO changes (entity, entity_id, operation, changed_at)
+      VALUES ('note', new.id, 'update', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+`;
+
+// When a note should be brought back to the user's attention. Cleared once
+// the reminder is marked done. Reminders sync like the note's other columns.
+export const reminders: Migration = {
+  version: 12,
+  name: "reminders",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      ALTER TABLE notes ADD COLUMN reminder_at TEXT;
+
+      CREATE INDEX idx_notes_reminder_at ON notes(reminder_at)
+        WHERE reminder_at IS NOT NULL;
+
+      ${noteUpdateTrigger([...SYNCED_NOTE_COLUMNS, "reminder_at"])}
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      ${noteUpdateTrigger(SYNCED_NOTE_COLUMNS)}
+
+      DROP INDEX IF EXISTS idx_notes_reminder_at;
+      ALTER TABLE notes DROP COLUMN reminder_at;
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+import type { SqlDatabase } from "../driver";
+import { Migration } from "./types";
+
+// Templates new notes can start from. They stay on the device: they are not
+// synced or backed up. folder_id is not a foreign key; a template whose
+// folder is gone creates its notes at the top level.
+export const templates: Migration = {
+  version: 13,
+  name: "templates",
+  up: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync(`
+      CREATE TABLE templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        title_pattern TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        folder_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  },
+  down: async (db: SqlDatabase): Promise<void> => {
+    await db.execAsync("DROP TABLE IF EXISTS templates;");
+  },
+};
@@ -0,0 +1,149 @@
+import type { SqlDatabase } from "../driver";
+import { DatabaseResult } from "../models/Note";
+import { initialSchema } from "./001_initialSchema";
+import { notesFts } from "./002_notesFts";
+import { folders } from "./003_folders";
+import { tags } from "./004_tags";
+import { noteRevisions } from "./005_noteRevisions";
+import { trash } from "./006_trash";
+import { attachments } from "./007_attachments";
+import { noteLinks } from "./008_noteLinks";
+import { noteEncryption } from "./009_noteEncryption";
+import { sync } from "./010_sync";
+import { collabUpdates } from "./011_collabUpdates";
+import { reminders } from "./012_reminders";
+import { templates } from "./013_templates";
+import { Migration, MigrationReport } from "./types";
+
+// Ordered list of schema migrations. Append new steps to the end and never
+// renumber or edit a migration that has shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  notesFts,
+  folders,
+  tags,
+  noteRevisions,
+  trash,
+  attachments,
+  noteLinks,
+  noteEncryption,
+  sync,
+  collabUpdates,
+  reminders,
+  templates,
+];
+
+export const LATEST_SCHEMA_VERSION =
+  migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+// Read the schema version recorded in the database header
+export const getSchemaVersion = async (db: SqlDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version;"
+  );
+  return result?.user_version ?? 0;
+};
+
+// Run one migration step and record the resulting version atomically
+const runStep = async (
+  db: SqlDatabase,
+  migration: Migration,
+  direction: "up" | "down",
+  resultingVersion: number
+): Promise<void> => {
+  const step = direction === "up" ? migration.up : migration.down;
+  if (!step) {
+    throw new Error(`Migration ${migration.version} cannot be reverted`);
+  }
+
+  await db.execAsync("BEGIN IMMEDIATE;");
+  try {
+    await step(db);
+    await db.execAsync(`PRAGMA user_version = ${resultingVersion};`);
+    await db.execAsync("COMMIT;");
+  } catch (error) {
+    try {
+      await db.execAsync("ROLLBACK;");
+    } catch (rollbackError) {
+      console.error("❌ Failed to roll back migration:", rollbackError);
+    }
+    throw error;
+  }
+};
+
+// Bring the schema to targetVersion, upgrading or downgrading as needed.
+// Each step runs in its own transaction; a failing step is rolled back and
+// reported, and the steps before it stay applied.
+export const runMigrations = async (
+  db: SqlDatabase,
+  targetVersion: number = LATEST_SCHEMA_VERSION
+): Promise<DatabaseResult<MigrationReport>> => {
+  const fromVersion = await getSchemaVersion(db);
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+  };
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: {
+        code: "SCHEMA_VERSION_UNSUPPORTED",
+        message: `Database schema version ${fromVersion} is newer than this app supports`,
+        details: { fromVersion, latestVersion: LATEST_SCHEMA_VERSION },
+      },
+    };
+  }
+
+  const steps =
+    targetVersion >= fromVersion
+      ? migrations
+          .filter((m) => m.version > fromVersion && m.version <= targetVersion)
+          .map((m) => ({ migration: m, direction: "up" as const }))
+      : migrations
+          .filter((m) => m.version <= fromVersion && m.version > targetVersion)
+          .reverse()
+          .map((m) => ({ migration: m, direction: "down" as const }));
+
+  for (const { migration, direction } of steps) {
+    // Reverting a step lands on the version of the migration before it
+    const resultingVersion =
+      direction === "up"
+        ? migration.version
+        : (migrations
+            .filter((m) => m.version < migration.version)
+            .map((m) => m.version)
+            .pop() ?? 0);
+
+    try {
+      console.log(
+        `🔧 Running migration ${migration.version} (${migration.name}) ${direction}...`
+      );
+      await runStep(db, migration, direction, resultingVersion);
+      report.toVersion = resultingVersion;
+      report.applied.push(migration.name);
+    } catch (error) {
+      console.error(
+        `❌ Migration ${migration.version} (${migration.name}) failed:`,
+        error
+      );
+      return {
+        success: false,
+        error: {
+          code: "MIGRATION_ERROR",
+          message: `Migration ${migration.version} (${migration.name}) failed`,
+          details: {
+            error: String(error),
+            version: migration.version,
+            name: migration.name,
+            direction,
+            report,
+          },
+        },
+      };
+    }
+  }
+
+  return { success: true, data: report };
+};
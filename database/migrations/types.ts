@@ -0,0 +1,17 @@
+import type { SqlDatabase } from "../driver";
+
+// A single numbered schema change. Versions must be unique and ascending;
+// the runner records the applied version in PRAGMA user_version.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqlDatabase) => Promise<void>;
+  down?: (db: SqlDatabase) => Promise<void>; // Omit for irreversible migrations
+}
+
+// Summary of a migration run
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // Names of the steps that ran, in order
+}
@@ -0,0 +1,33 @@
+// Attachment model interface following Inky Notes standards. Attachments are
+// content-addressed: the id is the SHA-256 of the file's bytes, so the same
+// image added twice is stored once.
+export interface Attachment {
+  hash: string; // Hex SHA-256 of the file contents
+  mimeType: string;
+  byteSize: number;
+  dateCreated: string; // ISO date string
+}
+
+// Database row interface (how data is stored in SQLite)
+export interface AttachmentRow {
+  hash: string;
+  mime_type: string;
+  byte_size: number;
+  created_at: string;
+}
+
+// Scheme used to reference attachments from note HTML
+export const ATTACHMENT_URI_SCHEME = "inky-attachment://";
+
+// Utility functions for data transformation
+export const transformAttachmentRowToAttachment = (
+  row: AttachmentRow
+): Attachment => ({
+  hash: row.hash,
+  mimeType: row.mime_type,
+  byteSize: row.byte_size,
+  dateCreated: row.created_at,
+});
+
+export const attachmentUri = (hash: string): string =>
+  `${ATTACHMENT_URI_SCHEME}${hash}`;
@@ -0,0 +1,62 @@
+import type { SqlValue } from "../driver";
+
+// Backups are a single JSON archive of every table the app owns, with the
+// attachment files inlined. The manifest's checksums let a restore reject
+// archives that were truncated or edited.
+export const BACKUP_FORMAT = "inky-notes-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Tables in the order rows are restored
+export const BACKUP_TABLES = [
+  "folders",
+  "tags",
+  "attachments",
+  "notes",
+  "note_tags",
+  "note_revisions",
+  "note_attachments",
+  "note_links",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type BackupSection = BackupTable | "attachment_files";
+
+// A table row as stored, keyed by column name
+export type BackupRow = Record<string, SqlValue>;
+
+export interface BackupAttachmentFile {
+  hash: string; // Hex SHA-256 of the decoded data, as in attachments.hash
+  data: string; // Base64
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // Database schema version the rows were read from
+  createdAt: string; // ISO date string
+  counts: Record<BackupSection, number>;
+  checksums: Record<BackupSection, string>; // Hex SHA-256 of each section's JSON
+}
+
+export type BackupData = Record<BackupTable, BackupRow[]> & {
+  attachment_files: BackupAttachmentFile[];
+};
+
+export interface Backup {
+  manifest: BackupManifest;
+  data: BackupData;
+}
+
+// replace: discard everything and load the backup.
+// merge: add the backup's notes, keeping whichever copy of a note or folder
+// was modified last when both sides have it.
+export type RestoreMode = "replace" | "merge";
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  notesRestored: number;
+  notesSkipped: number; // Kept because the local copy was newer
+  foldersRestored: number;
+  attachmentsRestored: number;
+}
@@ -0,0 +1,67 @@
+// Folder model interface following Inky Notes standards
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null; // null for top-level folders
+  sortOrder: number;
+  color: string | null; // Hex color, e.g. "#f97316"
+  dateCreated: string; // ISO date string
+  lastModified: string; // ISO date string
+}
+
+// Folder with the number of (non-deleted) notes it directly contains
+export interface FolderWithCount extends Folder {
+  noteCount: number;
+}
+
+// Database row interface (how data is stored in SQLite)
+export interface FolderRow {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  sort_order: number;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  note_count?: number; // Only present in listing queries
+}
+
+// Create folder parameters
+export interface CreateFolderParams {
+  name: string;
+  parentId?: string | null;
+  color?: string | null;
+  sortOrder?: number;
+}
+
+// Update folder parameters
+export interface UpdateFolderParams {
+  id: string;
+  name?: string;
+  parentId?: string | null;
+  color?: string | null;
+  sortOrder?: number;
+}
+
+// What happens to a folder's contents when it is deleted:
+// - "cascade": subfolders are deleted and their notes moved to the trash
+// - "reparent": notes and subfolders move up to the deleted folder's parent
+export type DeleteFolderMode = "cascade" | "reparent";
+
+// Utility functions for data transformation
+export const transformFolderRowToFolder = (row: FolderRow): Folder => ({
+  id: row.id,
+  name: row.name,
+  parentId: row.parent_id,
+  sortOrder: row.sort_order,
+  color: row.color,
+  dateCreated: row.created_at,
+  lastModified: row.updated_at,
+});
+
+export const transformFolderRowToFolderWithCount = (
+  row: FolderRow
+): FolderWithCount => ({
+  ...transformFolderRowToFolder(row),
+  noteCount: row.note_count ?? 0,
+});
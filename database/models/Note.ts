@@ -1,3 +1,5 @@
+import { NoteKey, openNoteSecrets, sealNoteSecrets } from "../encryption";
+
 // Note model interface following Inky Notes standards
 export interface Note {
   id: string;
@@ -10,7 +12,11 @@ export interface Note {
   folderId: string | null; // For future folder organization
   tags: string[]; // JSON array of tags
   isPinned: boolean;
+  isFavorite: boolean;
   isDeleted: boolean;
+  deletedAt: string | null; // ISO date string, set while the note is in the trash
+  isLocked: boolean; // Title, content and plain text are stored encrypted
+  reminderAt: string | null; // ISO date to be reminded at; null when none or done
   metadata: NoteMetadata;
 }
 
@@ -18,7 +24,7 @@ export interface NoteMetadata {
   readingTime: number; // Estimated reading time in minutes
   lastEditPosition: number; // Cursor position for restoration
   characterCount: number;
-  version: number; // For future sync capabilities
+  version: number; // Bumped on every local save; server versions are in sync_versions
 }
 
 // Database row interface (how data is stored in SQLite)
@@ -35,9 +41,12 @@ export interface NoteRow {
   reading_time?: number; // Optional, exists in current schema
   last_edit_position?: number; // Optional, exists in current schema
   is_pinned: number; // SQLite boolean (0/1)
-  is_favorite?: number; // Optional, exists in current schema
+  is_favorite?: number; // SQLite boolean (0/1)
   is_deleted?: number; // SQLite boolean (0/1) - may not exist yet
+  deleted_at?: string | null;
   metadata?: string; // JSON string - may not exist yet
+  encrypted_payload?: string | null; // Sealed NoteSecrets while locked
+  reminder_at?: string | null;
 }
 
 // Create note parameters
@@ -46,6 +55,12 @@ export interface CreateNoteParams {
   content: string;
   folderId?: string | null;
   tags?: string[];
+  // Kept when importing notes made elsewhere. An id from generateNoteId
+  // lets other imported notes link to this one before it exists.
+  id?: string;
+  isPinned?: boolean;
+  dateCreated?: string;
+  lastModified?: string;
 }
 
 // Update note parameters
@@ -56,7 +71,11 @@ export interface UpdateNoteParams {
   folderId?: string | null;
   tags?: string[];
   isPinned?: boolean;
+  isFavorite?: boolean;
   isDeleted?: boolean;
+  reminderAt?: string | null; // null clears the reminder
+  startNewRevision?: boolean; // Snapshot into a new revision instead of coalescing
+  expectedVersion?: number; // metadata.version the caller last saw; the update fails with VERSION_CONFLICT if it has moved on
 }
 
 // Database operation result
@@ -72,20 +91,81 @@ export interface DatabaseError {
   details?: Record<string, unknown>;
 }
 
+// Outcome for one note of a bulk operation
+export interface BulkNoteResult {
+  id: string;
+  success: boolean;
+  error?: DatabaseError;
+}
+
+// Details of a VERSION_CONFLICT error: the note was changed by another write
+// since the version the update expected
+export interface VersionConflictDetails {
+  id: string;
+  expectedVersion: number;
+  current: Note;
+}
+
+export const isVersionConflict = (
+  error: DatabaseError | undefined
+): error is DatabaseError & { details: VersionConflictDetails } =>
+  error?.code === "VERSION_CONFLICT";
+
 // Search parameters
 export interface SearchNotesParams {
-  query?: string;
+  query?: string; // Full-text query; terms are prefix-matched and ANDed
   folderId?: string | null;
   tags?: string[];
+  tagMatch?: "all" | "any"; // How multiple tags combine; defaults to "all"
+  isFavorite?: boolean; // Only favorites (true) or only non-favorites (false)
+  hasReminder?: boolean; // Only notes with a pending reminder (true) or without one (false)
   includeDeleted?: boolean;
-  sortBy?: "lastModified" | "dateCreated" | "title";
+  sortBy?: "relevance" | "lastModified" | "dateCreated" | "title" | "reminder"; // Defaults to relevance when a query is given
   sortOrder?: "asc" | "desc";
+  pinnedFirst?: boolean; // List pinned notes ahead of everything else
+  favoritesFirst?: boolean; // List favorites ahead of other notes
+  updatedSince?: string; // Only notes modified at or after this ISO date
+  ids?: string[]; // Only these notes
+  projection?: "full" | "list"; // "list" leaves out the HTML content; defaults to "full"
   limit?: number;
   offset?: number;
+  cursor?: string; // nextCursor from the previous page; used instead of offset
+  snippetTokens?: number; // Approximate snippet length in tokens
 }
 
-// Utility functions for data transformation
-export const transformNoteRowToNote = (row: NoteRow): Note => {
+// Markers wrapped around matched terms in search snippets
+export const SEARCH_HIGHLIGHT_OPEN = "<mark>";
+export const SEARCH_HIGHLIGHT_CLOSE = "</mark>";
+
+// Location of a matched term, as offsets into the note's title or plain text
+export interface SearchMatch {
+  field: "title" | "plainText";
+  start: number;
+  length: number;
+}
+
+// Search result; ranking fields are only present for full-text queries
+export interface NoteSearchResult extends Omit<Note, "content"> {
+  content?: string; // Left out by the "list" projection
+  rank?: number; // bm25 score, lower is more relevant
+  snippet?: string; // Plain text excerpt with highlight markers
+  matches?: SearchMatch[];
+}
+
+// One page of search results. Pass nextCursor back with otherwise identical
+// params to continue where the page left off.
+export interface NoteSearchPage {
+  notes: NoteSearchResult[];
+  nextCursor: string | null; // null once there are no more results
+}
+
+// Title shown for a locked note that hasn't been unlocked
+export const LOCKED_NOTE_TITLE = "Locked";
+
+// Utility functions for data transformation. Locked notes are decrypted when
+// their key is given; otherwise they come back with only LOCKED_NOTE_TITLE
+// and empty content.
+export const transformNoteRowToNote = (row: NoteRow, key?: NoteKey): Note => {
   try {
     const tags = row.tags ? JSON.parse(row.tags) : [];
 
@@ -103,18 +183,31 @@ export const transformNoteRowToNote = (row: NoteRow): Note => {
       };
     }
 
+    const isLocked = row.encrypted_payload != null;
+    // The "list" projection selects an empty payload, just to flag the lock
+    const secrets =
+      isLocked && key && row.encrypted_payload
+        ? openNoteSecrets(row.encrypted_payload, key)
+        : null;
+
     return {
       id: row.id,
-      title: row.title,
-      content: row.content,
-      plainText: row.plain_text || row.content.replace(/<[^>]*>/g, "").trim(),
+      title: secrets?.title ?? (isLocked ? LOCKED_NOTE_TITLE : row.title),
+      content: secrets?.content ?? row.content,
+      plainText:
+        secrets?.plainText ??
+        (row.plain_text || row.content.replace(/<[^>]*>/g, "").trim()),
       wordCount: row.word_count,
       dateCreated: row.created_at,
       lastModified: row.updated_at,
       folderId: row.folder_id,
       tags,
       isPinned: Boolean(row.is_pinned),
+      isFavorite: Boolean(row.is_favorite || 0),
       isDeleted: Boolean(row.is_deleted || 0),
+      deletedAt: row.deleted_at ?? null,
+      isLocked,
+      reminderAt: row.reminder_at ?? null,
       metadata,
     };
   } catch (error) {
@@ -122,10 +215,32 @@ export const transformNoteRowToNote = (row: NoteRow): Note => {
   }
 };
 
+// Locked notes keep their plaintext columns empty. Their secrets are sealed
+// into encrypted_payload when the key is given, and left as stored otherwise.
 export const transformNoteToNoteRow = (
-  note: Partial<Note>
+  note: Partial<Note>,
+  key?: NoteKey
 ): Partial<NoteRow> => {
   try {
+    if (note.isLocked) {
+      return {
+        ...transformNoteToNoteRow({ ...note, isLocked: false }),
+        title: "",
+        content: "",
+        plain_text: "",
+        encrypted_payload: key
+          ? sealNoteSecrets(
+              {
+                title: note.title ?? "",
+                content: note.content ?? "",
+                plainText: note.plainText ?? "",
+              },
+              key
+            )
+          : undefined,
+      };
+    }
+
     return {
       id: note.id,
       title: note.title,
@@ -139,8 +254,10 @@ export const transformNoteToNoteRow = (
       reading_time: note.metadata?.readingTime,
       last_edit_position: note.metadata?.lastEditPosition,
       is_pinned: note.isPinned ? 1 : 0,
-      is_favorite: 0, // Default for backwards compatibility
+      is_favorite: note.isFavorite ? 1 : 0,
       is_deleted: note.isDeleted ? 1 : 0,
+      deleted_at: note.deletedAt,
+      reminder_at: note.reminderAt,
       metadata: note.metadata ? JSON.stringify(note.metadata) : undefined,
     };
   } catch (error) {
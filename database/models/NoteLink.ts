@@ -0,0 +1,172 @@
+import { decodeEntities, escapeAttribute, escapeText } from "../../lib/html";
+
+// Note that can be the target of a [[wiki link]]
+export interface NoteLinkTarget {
+  id: string;
+  title: string;
+}
+
+// Note that links to or mentions another note, with the sentence around the
+// link or mention as context
+export interface NoteBacklink {
+  noteId: string;
+  title: string;
+  context: string;
+  lastModified: string;
+}
+
+export interface NoteBacklinks {
+  linked: NoteBacklink[];
+  unlinkedMentions: NoteBacklink[];
+}
+
+// Titles shorter than this would match too much ordinary text to be worth
+// offering as unlinked mentions
+export const MIN_MENTION_TITLE_LENGTH = 3;
+
+// Longest context excerpt shown for a backlink
+const MAX_CONTEXT_LENGTH = 160;
+
+// Attributes identifying a note link node in note HTML, e.g.
+// <span data-type="note-link" data-note-id="...">Title</span>
+export const NOTE_LINK_TYPE = "note-link";
+export const NOTE_LINK_ID_ATTRIBUTE = "data-note-id";
+
+const NOTE_LINK_TAG_PATTERN = new RegExp(
+  `<span\\b[^>]*\\bdata-type="${NOTE_LINK_TYPE}"[^>]*>`,
+  "g"
+);
+const NOTE_LINK_ID_PATTERN = new RegExp(
+  `\\b${NOTE_LINK_ID_ATTRIBUTE}="([^"]+)"`
+);
+
+const isWordCharacter = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+
+// Index of the first case-insensitive occurrence of phrase in text that isn't
+// part of a longer word, or -1
+export const findMention = (text: string, phrase: string): number => {
+  const haystack = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  if (!needle) {
+    return -1;
+  }
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    if (
+      !isWordCharacter(text[index - 1]) &&
+      !isWordCharacter(text[index + needle.length])
+    ) {
+      return index;
+    }
+    index = haystack.indexOf(needle, index + 1);
+  }
+  return -1;
+};
+
+// The sentence around the first mention of phrase in plain text, shortened
+// to fit a list row. Falls back to the start of the text.
+export const extractMentionContext = (text: string, phrase: string): string => {
+  const index = Math.max(0, findMention(text, phrase));
+
+  let start = index;
+  while (start > 0 && !/[.!?\n]/.test(text[start - 1])) {
+    start--;
+  }
+  let end = index + phrase.length;
+  while (end < text.length && !/[.!?\n]/.test(text[end])) {
+    end++;
+  }
+  if (end < text.length && text[end] !== "\n") {
+    end++;
+  }
+
+  let context = text.slice(start, end).replace(/\s+/g, " ").trim();
+  if (context.length > MAX_CONTEXT_LENGTH) {
+    // Keep the mention in view when trimming a long sentence
+    const mentionOffset = Math.max(0, index - start - MAX_CONTEXT_LENGTH / 3);
+    context = context.slice(mentionOffset, mentionOffset + MAX_CONTEXT_LENGTH);
+    context = `${mentionOffset > 0 ? "…" : ""}${context.trim()}…`;
+  }
+  return context;
+};
+
+// Ids of the notes linked from note HTML, without duplicates
+export const extractNoteLinkIds = (html: string): string[] => {
+  const ids = new Set<string>();
+  for (const [tag] of html.matchAll(NOTE_LINK_TAG_PATTERN)) {
+    const match = NOTE_LINK_ID_PATTERN.exec(tag);
+    if (match) {
+      ids.add(match[1]);
+    }
+  }
+  return Array.from(ids);
+};
+
+// Relabel the links to targetId that show previousLabel, e.g. the target's
+// old title after it is renamed. Links with a label of their own, such as
+// an imported [[Note|alias]], keep it.
+export const replaceNoteLinkLabels = (
+  html: string,
+  targetId: string,
+  previousLabel: string,
+  label: string
+): string =>
+  html.replace(
+    new RegExp(
+      `(<span\\b[^>]*\\b${NOTE_LINK_ID_ATTRIBUTE}="${targetId.replace(
+        /[.*+?^${}()|[\]\\]/g,
+        "\\$&"
+      )}"[^>]*>)([^<]*)(</span>)`,
+      "g"
+    ),
+    (match, open: string, text: string, close: string) =>
+      decodeEntities(text) === previousLabel
+        ? `${open}${escapeText(label)}${close}`
+        : match
+  );
+
+// HTML for a link to a note, labelled with its title or an alias
+export const noteLinkHtml = (targetId: string, label: string): string =>
+  `<span data-type="${NOTE_LINK_TYPE}" class="note-link" ` +
+  `${NOTE_LINK_ID_ATTRIBUTE}="${escapeAttribute(targetId)}">` +
+  `${escapeText(label)}</span>`;
+
+// Turn the first plain-text mention of a note's title into a link to it.
+// Text already inside a link is skipped. Returns null when there is no
+// mention to link.
+export const linkFirstMention = (
+  html: string,
+  targetId: string,
+  title: string
+): string | null => {
+  const escapedTitle = escapeText(title);
+  const parts = html.split(/(<[^>]*>)/);
+  let insideLink = false;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.startsWith("<")) {
+      if (part.includes(`data-type="${NOTE_LINK_TYPE}"`)) {
+        insideLink = true;
+      } else if (insideLink && part.startsWith("</span")) {
+        insideLink = false;
+      }
+      continue;
+    }
+    if (insideLink) {
+      continue;
+    }
+
+    const index = findMention(part, escapedTitle);
+    if (index !== -1) {
+      parts[i] =
+        part.slice(0, index) +
+        noteLinkHtml(targetId, title) +
+        part.slice(index + escapedTitle.length);
+      return parts.join("");
+    }
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+// Snapshot of a note's title and content at a point in time
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string; // TipTap HTML content
+  plainText: string;
+  wordCount: number;
+  version: number; // Note metadata version at the time of the snapshot
+  dateCreated: string; // ISO date string, when the revision was started
+  lastModified: string; // ISO date string, last save coalesced into it
+}
+
+// Revision without its HTML content, for listing
+export type NoteRevisionSummary = Omit<NoteRevision, "content">;
+
+// Database row interface (how data is stored in SQLite)
+export interface NoteRevisionRow {
+  id: string;
+  note_id: string;
+  title: string;
+  content?: string; // Omitted from listing queries
+  plain_text: string;
+  word_count: number;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Utility functions for data transformation
+export const transformRevisionRowToSummary = (
+  row: NoteRevisionRow
+): NoteRevisionSummary => ({
+  id: row.id,
+  noteId: row.note_id,
+  title: row.title,
+  plainText: row.plain_text,
+  wordCount: row.word_count,
+  version: row.version,
+  dateCreated: row.created_at,
+  lastModified: row.updated_at,
+});
+
+export const transformRevisionRowToRevision = (
+  row: NoteRevisionRow
+): NoteRevision => ({
+  ...transformRevisionRowToSummary(row),
+  content: row.content ?? "",
+});
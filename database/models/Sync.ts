@@ -0,0 +1,117 @@
+// Sync exchanges changed records with a server over the REST protocol in
+// docs/sync-protocol.md. Every local write is recorded in the changes log;
+// a sync pulls the server's changes since the last cursor, then pushes the
+// current state of each record changed locally.
+export const SYNC_PROTOCOL_VERSION = 1;
+
+// Record kinds in the order they are pushed, so a note arrives after the
+// folder and images it refers to. Attachments are keyed by hash and never
+// change once written.
+export const SYNC_ENTITIES = ["attachment", "folder", "note"] as const;
+
+export type SyncEntity = (typeof SYNC_ENTITIES)[number];
+
+export type ChangeOperation = "create" | "update" | "delete";
+
+// A row of the changes log
+export interface ChangeRow {
+  seq: number;
+  entity: SyncEntity;
+  entity_id: string;
+  operation: ChangeOperation;
+  changed_at: string; // ISO date string
+}
+
+// A record's columns as stored locally. Attachments also carry their file
+// as base64 in file_data.
+export type SyncRecordData = Record<string, string | number | null>;
+
+// A record as the server holds it. Deleted records stay on the server as
+// tombstones, with no data, so every device learns of the delete.
+export interface SyncRecord {
+  entity: SyncEntity;
+  id: string;
+  version: number; // Bumped by the server on every accepted change
+  seq: number; // Position in the server's change feed
+  deleted: boolean;
+  data: SyncRecordData | null;
+  modifiedAt: string; // ISO date string, when the server accepted it
+  deviceId: string; // Device the change came from
+}
+
+// A local change offered to the server: the record's current state, based
+// on the server version the device last saw
+export interface SyncChange {
+  entity: SyncEntity;
+  id: string;
+  baseVersion: number | null; // null when the record has never been synced
+  deleted: boolean;
+  data: SyncRecordData | null;
+}
+
+export interface PushRequest {
+  deviceId: string;
+  changes: SyncChange[];
+}
+
+// accepted: stored as the given version.
+// conflict: the server has a version the device hasn't seen; current is it.
+export type PushResult =
+  | { entity: SyncEntity; id: string; status: "accepted"; version: number }
+  | { entity: SyncEntity; id: string; status: "conflict"; current: SyncRecord };
+
+export interface PushResponse {
+  results: PushResult[]; // One per change, in request order
+}
+
+export interface PullResponse {
+  records: SyncRecord[]; // Ordered by seq
+  cursor: number; // Pass as since on the next pull
+  hasMore: boolean;
+}
+
+// How the sync engine reaches a server. createHttpSyncTransport speaks the
+// REST protocol; tests can call a server in-process instead.
+export interface SyncTransport {
+  pull(since: number, limit: number): Promise<PullResponse>;
+  push(request: PushRequest): Promise<PushResponse>;
+}
+
+// A pending change with the latest changes log entry it covers, so entries
+// logged while the push was in flight stay pending
+export interface PendingSyncChange extends SyncChange {
+  seq: number;
+}
+
+export interface PushedSyncChange {
+  entity: SyncEntity;
+  id: string;
+  seq: number;
+  version: number;
+  data: SyncRecordData | null; // As pushed, the base for later merges
+}
+
+export interface SyncStatus {
+  deviceId: string;
+  cursor: number; // Server seq pulled up to
+  pendingChanges: number; // Records changed locally and not yet pushed
+}
+
+export interface SyncApplyReport {
+  applied: number;
+  skipped: number; // Already seen, e.g. this device's own pushes
+  conflicts: number;
+  conflictedCopies: number; // Notes kept as copies after a conflict
+  changedNoteIds: string[]; // Notes written or removed locally
+}
+
+export interface SyncReport {
+  pulled: number; // Remote changes applied locally
+  pushed: number; // Local changes the server accepted
+  conflicts: number;
+  conflictedCopies: number;
+  // Notes the pull wrote or removed. Their modification times come from
+  // other devices and may be older than anything seen here, so lists should
+  // reload these ids rather than look for recently modified notes.
+  changedNoteIds: string[];
+}
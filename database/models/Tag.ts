@@ -0,0 +1,27 @@
+// Tag model interface following Inky Notes standards
+export interface Tag {
+  id: string;
+  name: string; // Unique, compared case-insensitively
+  dateCreated: string; // ISO date string
+}
+
+// Tag with the number of (non-deleted) notes using it
+export interface TagWithCount extends Tag {
+  noteCount: number;
+}
+
+// Database row interface (how data is stored in SQLite)
+export interface TagRow {
+  id: string;
+  name: string;
+  created_at: string;
+  note_count?: number; // Only present in listing queries
+}
+
+// Utility functions for data transformation
+export const transformTagRowToTagWithCount = (row: TagRow): TagWithCount => ({
+  id: row.id,
+  name: row.name,
+  dateCreated: row.created_at,
+  noteCount: row.note_count ?? 0,
+});
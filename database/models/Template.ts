@@ -0,0 +1,66 @@
+import { Note } from "./Note";
+
+// Note template model interface following Inky Notes standards. The title
+// pattern and content may contain variables (see lib/templates.ts) that are
+// filled in when a note is created from the template.
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  titlePattern: string; // e.g. "Standup {{date}}"
+  content: string; // HTML content
+  tags: string[]; // Tags given to new notes
+  folderId: string | null; // Folder new notes go in, null for the top level
+  dateCreated: string; // ISO date string
+  lastModified: string; // ISO date string
+}
+
+// Database row interface (how data is stored in SQLite)
+export interface NoteTemplateRow {
+  id: string;
+  name: string;
+  title_pattern: string;
+  content: string;
+  tags: string; // JSON string
+  folder_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Create template parameters
+export interface CreateTemplateParams {
+  name: string;
+  titlePattern?: string;
+  content?: string;
+  tags?: string[];
+  folderId?: string | null;
+}
+
+// Update template parameters
+export interface UpdateTemplateParams {
+  id: string;
+  name?: string;
+  titlePattern?: string;
+  content?: string;
+  tags?: string[];
+  folderId?: string | null;
+}
+
+// Utility functions for data transformation
+export const transformTemplateRowToTemplate = (
+  row: NoteTemplateRow
+): NoteTemplate => ({
+  id: row.id,
+  name: row.name,
+  titlePattern: row.title_pattern,
+  content: row.content,
+  tags: row.tags ? JSON.parse(row.tags) : [],
+  folderId: row.folder_id,
+  dateCreated: row.created_at,
+  lastModified: row.updated_at,
+});
+
+// A note just created from a template
+export interface TemplateNote {
+  note: Note;
+  cursor: number | null; // Offset into the note's content where the caret starts
+}
@@ -0,0 +1,112 @@
+import { storeAttachment } from "../attachments";
+import { ensureDatabase } from "../connection";
+import { getDatabaseDriver } from "../driver";
+import {
+  Attachment,
+  ATTACHMENT_URI_SCHEME,
+  AttachmentRow,
+  attachmentUri,
+  transformAttachmentRowToAttachment,
+} from "../models/Attachment";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+
+const DATA_URL_PATTERN = /^data:([a-z0-9.+-]+\/[a-z0-9.+-]+);base64,(.+)$/i;
+
+const attachmentNotFound = (): DatabaseResult<never> => ({
+  success: false,
+  error: { code: "ATTACHMENT_NOT_FOUND", message: "Attachment not found" },
+});
+
+// Store a base64 data URL, returning the attachment URI to reference it by
+export const saveAttachmentFromDataUrl = async (
+  dataUrl: string
+): Promise<DatabaseResult<string>> => {
+  try {
+    const match = DATA_URL_PATTERN.exec(dataUrl.trim());
+    if (!match) {
+      return {
+        success: false,
+        error: {
+          code: "INVALID_ATTACHMENT",
+          message: "Attachment must be a base64 data URL",
+        },
+      };
+    }
+
+    const database = await ensureDatabase();
+    const hash = await storeAttachment(
+      database,
+      match[2],
+      match[1].toLowerCase()
+    );
+
+    return { success: true, data: attachmentUri(hash) };
+  } catch (error) {
+    console.error("❌ Failed to save attachment:", error);
+    const dbError: DatabaseError = {
+      code: "SAVE_ATTACHMENT_ERROR",
+      message: "Failed to save attachment",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Get an attachment's metadata by content hash
+export const getAttachmentByHash = async (
+  hash: string
+): Promise<DatabaseResult<Attachment>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.getFirstAsync<AttachmentRow>(
+      "SELECT * FROM attachments WHERE hash = ?",
+      [hash]
+    );
+
+    if (!result) {
+      return attachmentNotFound();
+    }
+
+    return { success: true, data: transformAttachmentRowToAttachment(result) };
+  } catch (error) {
+    console.error("❌ Failed to get attachment:", error);
+    const dbError: DatabaseError = {
+      code: "GET_ATTACHMENT_ERROR",
+      message: "Failed to get attachment",
+      details: { error: String(error), hash },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Load an attachment URI as a data URL, for display in the editor WebView
+export const getAttachmentDataUrl = async (
+  uri: string
+): Promise<DatabaseResult<string>> => {
+  try {
+    if (!uri.startsWith(ATTACHMENT_URI_SCHEME)) {
+      return attachmentNotFound();
+    }
+
+    const attachmentResult = await getAttachmentByHash(
+      uri.slice(ATTACHMENT_URI_SCHEME.length)
+    );
+    if (!attachmentResult.success || !attachmentResult.data) {
+      return { success: false, error: attachmentResult.error };
+    }
+
+    const { hash, mimeType } = attachmentResult.data;
+    const data = await getDatabaseDriver().attachmentFiles.readBase64(hash);
+
+    return { success: true, data: `data:${mimeType};base64,${data}` };
+  } catch (error) {
+    console.error("❌ Failed to read attachment:", error);
+    const dbError: DatabaseError = {
+      code: "READ_ATTACHMENT_ERROR",
+      message: "Failed to read attachment",
+      details: { error: String(error), uri },
+    };
+    return { success: false, error: dbError };
+  }
+};
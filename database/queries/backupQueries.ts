@@ -0,0 +1,393 @@
+import { base64ToBytes } from "../../lib/base64";
+import { ensureDatabase, runInTransaction } from "../connection";
+import { getDatabaseDriver, SqlDatabase, SqlValue } from "../driver";
+import { forgetAllNoteKeys, forgetNoteKey } from "../encryption";
+import { getSchemaVersion, LATEST_SCHEMA_VERSION } from "../migrations";
+import {
+  Backup,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLES,
+  BackupAttachmentFile,
+  BackupData,
+  BackupManifest,
+  BackupRow,
+  BackupSection,
+  BackupTable,
+  RestoreMode,
+  RestoreReport,
+} from "../models/Backup";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+
+const BACKUP_SECTIONS: BackupSection[] = [...BACKUP_TABLES, "attachment_files"];
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const checksum = async (value: unknown): Promise<string> =>
+  toHex(
+    await getDatabaseDriver().sha256(
+      new TextEncoder().encode(JSON.stringify(value))
+    )
+  );
+
+const invalidBackup = (
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): DatabaseResult<never> => ({
+  success: false,
+  error: { code, message, details },
+});
+
+// Write a row, skipping columns the current schema doesn't have so backups
+// taken on older versions still load
+const insertRow = async (
+  txn: SqlDatabase,
+  table: BackupTable,
+  row: BackupRow,
+  columns: Set<string>,
+  conflict: "ABORT" | "IGNORE" = "ABORT"
+): Promise<void> => {
+  const names = Object.keys(row).filter((name) => columns.has(name));
+  await txn.runAsync(
+    `INSERT OR ${conflict} INTO ${table} (${names.join(", ")})
+      VALUES (${names.map(() => "?").join(", ")})`,
+    names.map((name) => row[name])
+  );
+};
+
+const getTableColumns = async (
+  txn: SqlDatabase
+): Promise<Record<BackupTable, Set<string>>> => {
+  const columns = {} as Record<BackupTable, Set<string>>;
+  for (const table of BACKUP_TABLES) {
+    const info = await txn.getAllAsync<{ name: string }>(
+      `PRAGMA table_info(${table})`
+    );
+    columns[table] = new Set(info.map((column) => column.name));
+  }
+  return columns;
+};
+
+// Read every table and attachment file into a versioned archive. Rows are
+// read in one transaction so the archive is a consistent snapshot.
+export const createBackup = async (): Promise<DatabaseResult<Backup>> => {
+  try {
+    const { data, schemaVersion } = await runInTransaction(async (txn) => {
+      const tables = {} as Record<BackupTable, BackupRow[]>;
+      for (const table of BACKUP_TABLES) {
+        tables[table] = await txn.getAllAsync<BackupRow>(
+          `SELECT * FROM ${table} ORDER BY rowid`
+        );
+      }
+      return { data: tables, schemaVersion: await getSchemaVersion(txn) };
+    });
+
+    const { attachmentFiles } = getDatabaseDriver();
+    const files: BackupAttachmentFile[] = [];
+    for (const attachment of data.attachments) {
+      const hash = String(attachment.hash);
+      if (await attachmentFiles.exists(hash)) {
+        files.push({ hash, data: await attachmentFiles.readBase64(hash) });
+      } else {
+        console.warn("⚠️ Attachment file missing from backup:", hash);
+      }
+    }
+
+    const backupData: BackupData = { ...data, attachment_files: files };
+    const counts = {} as Record<BackupSection, number>;
+    const checksums = {} as Record<BackupSection, string>;
+    for (const section of BACKUP_SECTIONS) {
+      counts[section] = backupData[section].length;
+      checksums[section] = await checksum(backupData[section]);
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion,
+      createdAt: new Date().toISOString(),
+      counts,
+      checksums,
+    };
+
+    console.log("✅ Backup created:", counts);
+    return { success: true, data: { manifest, data: backupData } };
+  } catch (error) {
+    console.error("❌ Failed to create backup:", error);
+    const dbError: DatabaseError = {
+      code: "CREATE_BACKUP_ERROR",
+      message: "Failed to create backup",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Parse an archive and check it against its manifest before anything is
+// restored from it
+export const validateBackup = async (
+  archive: string
+): Promise<DatabaseResult<Backup>> => {
+  try {
+    let backup: Backup;
+    try {
+      backup = JSON.parse(archive);
+    } catch {
+      return invalidBackup("INVALID_BACKUP", "The file is not a backup");
+    }
+
+    const manifest = backup?.manifest;
+    if (manifest?.format !== BACKUP_FORMAT || !backup.data) {
+      return invalidBackup("INVALID_BACKUP", "The file is not a backup");
+    }
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      return invalidBackup(
+        "BACKUP_VERSION_UNSUPPORTED",
+        "The backup was made by a newer version of the app",
+        { formatVersion: manifest.formatVersion }
+      );
+    }
+    if (manifest.schemaVersion > LATEST_SCHEMA_VERSION) {
+      return invalidBackup(
+        "BACKUP_VERSION_UNSUPPORTED",
+        "The backup was made by a newer version of the app",
+        {
+          schemaVersion: manifest.schemaVersion,
+          latestVersion: LATEST_SCHEMA_VERSION,
+        }
+      );
+    }
+
+    for (const section of BACKUP_SECTIONS) {
+      const rows = backup.data[section];
+      if (
+        !Array.isArray(rows) ||
+        rows.length !== manifest.counts?.[section] ||
+        (await checksum(rows)) !== manifest.checksums?.[section]
+      ) {
+        return invalidBackup(
+          "BACKUP_CHECKSUM_MISMATCH",
+          "The backup is damaged or incomplete",
+          { section }
+        );
+      }
+    }
+
+    // Attachments are content-addressed, so each file can be checked too
+    const { sha256 } = getDatabaseDriver();
+    for (const file of backup.data.attachment_files) {
+      if (toHex(await sha256(base64ToBytes(file.data))) !== file.hash) {
+        return invalidBackup(
+          "BACKUP_CHECKSUM_MISMATCH",
+          "The backup is damaged or incomplete",
+          { section: "attachment_files", hash: file.hash }
+        );
+      }
+    }
+
+    return { success: true, data: backup };
+  } catch (error) {
+    console.error("❌ Failed to validate backup:", error);
+    const dbError: DatabaseError = {
+      code: "VALIDATE_BACKUP_ERROR",
+      message: "Failed to validate backup",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+const replaceAll = async (
+  txn: SqlDatabase,
+  data: BackupData,
+  columns: Record<BackupTable, Set<string>>,
+  report: RestoreReport
+): Promise<void> => {
+  for (const table of [...BACKUP_TABLES].reverse()) {
+    await txn.runAsync(`DELETE FROM ${table}`);
+  }
+  // Shared documents are rebuilt from the restored notes when next opened
+  await txn.runAsync("DELETE FROM note_collab_updates");
+  for (const table of BACKUP_TABLES) {
+    for (const row of data[table]) {
+      await insertRow(txn, table, row, columns[table]);
+    }
+  }
+
+  report.notesRestored = data.notes.length;
+  report.foldersRestored = data.folders.length;
+  report.attachmentsRestored = data.attachments.length;
+};
+
+// Whether a backup row was modified after the local row with the same id
+const isNewer = (row: BackupRow, local: { updated_at: string } | null) =>
+  !local || String(row.updated_at) > local.updated_at;
+
+const mergeById = async (
+  txn: SqlDatabase,
+  data: BackupData,
+  columns: Record<BackupTable, Set<string>>,
+  report: RestoreReport
+): Promise<void> => {
+  for (const row of data.attachments) {
+    const result = await txn.runAsync(
+      `INSERT OR IGNORE INTO attachments (hash, mime_type, byte_size, created_at)
+        VALUES (?, ?, ?, ?)`,
+      [row.hash, row.mime_type, row.byte_size, row.created_at]
+    );
+    report.attachmentsRestored += result.changes;
+  }
+
+  for (const row of data.folders) {
+    const local = await txn.getFirstAsync<{ updated_at: string }>(
+      "SELECT updated_at FROM folders WHERE id = ?",
+      [row.id]
+    );
+    if (isNewer(row, local)) {
+      await txn.runAsync("DELETE FROM folders WHERE id = ?", [row.id]);
+      await insertRow(txn, "folders", row, columns.folders);
+      report.foldersRestored++;
+    }
+  }
+
+  // Tag names are unique, so a backup tag may exist locally under another id
+  const tagIds = new Map<SqlValue, string>();
+  for (const row of data.tags) {
+    const local = await txn.getFirstAsync<{ id: string }>(
+      `SELECT id FROM tags WHERE id = ? OR name = ? COLLATE NOCASE
+        ORDER BY id = ? DESC LIMIT 1`,
+      [row.id, row.name, row.id]
+    );
+    if (!local) {
+      await insertRow(txn, "tags", row, columns.tags);
+    }
+    tagIds.set(row.id, local?.id ?? String(row.id));
+  }
+
+  const rowsByNote = (table: BackupTable, key: string) => {
+    const rows = new Map<SqlValue, BackupRow[]>();
+    for (const row of data[table]) {
+      rows.set(row[key], [...(rows.get(row[key]) ?? []), row]);
+    }
+    return rows;
+  };
+  const noteTags = rowsByNote("note_tags", "note_id");
+  const revisions = rowsByNote("note_revisions", "note_id");
+  const noteAttachments = rowsByNote("note_attachments", "note_id");
+  const noteLinks = rowsByNote("note_links", "source_note_id");
+
+  for (const row of data.notes) {
+    const local = await txn.getFirstAsync<{ updated_at: string }>(
+      "SELECT updated_at FROM notes WHERE id = ?",
+      [row.id]
+    );
+    if (!isNewer(row, local)) {
+      report.notesSkipped++;
+      continue;
+    }
+
+    // Links to this note from other notes stay; its own are replaced
+    await txn.runAsync("DELETE FROM note_tags WHERE note_id = ?", [row.id]);
+    await txn.runAsync("DELETE FROM note_attachments WHERE note_id = ?", [
+      row.id,
+    ]);
+    await txn.runAsync("DELETE FROM note_links WHERE source_note_id = ?", [
+      row.id,
+    ]);
+    await txn.runAsync("DELETE FROM note_collab_updates WHERE note_id = ?", [
+      row.id,
+    ]);
+    await txn.runAsync("DELETE FROM notes WHERE id = ?", [row.id]);
+    await insertRow(txn, "notes", row, columns.notes);
+
+    for (const noteTag of noteTags.get(row.id) ?? []) {
+      const tagId = tagIds.get(noteTag.tag_id) ?? noteTag.tag_id;
+      await insertRow(
+        txn,
+        "note_tags",
+        { ...noteTag, tag_id: tagId },
+        columns.note_tags,
+        "IGNORE"
+      );
+    }
+    for (const [table, rows] of [
+      ["note_revisions", revisions],
+      ["note_attachments", noteAttachments],
+      ["note_links", noteLinks],
+    ] as const) {
+      for (const related of rows.get(row.id) ?? []) {
+        await insertRow(txn, table, related, columns[table], "IGNORE");
+      }
+    }
+
+    // A key cached for the old copy may not open the restored one
+    forgetNoteKey(String(row.id));
+    report.notesRestored++;
+  }
+};
+
+// Restore a validated backup, either replacing everything or merging it into
+// the current notes
+export const restoreBackup = async (
+  backup: Backup,
+  mode: RestoreMode
+): Promise<DatabaseResult<RestoreReport>> => {
+  try {
+    const database = await ensureDatabase();
+    const { data } = backup;
+    const { attachmentFiles } = getDatabaseDriver();
+
+    // Files are content-addressed, so writing them first is harmless even
+    // if the restore is rolled back
+    for (const file of data.attachment_files) {
+      if (!(await attachmentFiles.exists(file.hash))) {
+        await attachmentFiles.writeBase64(file.hash, file.data);
+      }
+    }
+
+    const previousHashes = await database.getAllAsync<{ hash: string }>(
+      "SELECT hash FROM attachments"
+    );
+    const report: RestoreReport = {
+      mode,
+      notesRestored: 0,
+      notesSkipped: 0,
+      foldersRestored: 0,
+      attachmentsRestored: 0,
+    };
+
+    await runInTransaction(async (txn) => {
+      const columns = await getTableColumns(txn);
+      if (mode === "replace") {
+        await replaceAll(txn, data, columns, report);
+      } else {
+        await mergeById(txn, data, columns, report);
+      }
+    });
+
+    if (mode === "replace") {
+      forgetAllNoteKeys();
+      const kept = new Set(data.attachments.map((row) => String(row.hash)));
+      for (const { hash } of previousHashes) {
+        if (!kept.has(hash)) {
+          await attachmentFiles.delete(hash);
+        }
+      }
+    }
+
+    console.log("✅ Backup restored:", report);
+    return { success: true, data: report };
+  } catch (error) {
+    console.error("❌ Failed to restore backup:", error);
+    const dbError: DatabaseError = {
+      code: "RESTORE_BACKUP_ERROR",
+      message: "Failed to restore backup",
+      details: { error: String(error), mode },
+    };
+    return { success: false, error: dbError };
+  }
+};
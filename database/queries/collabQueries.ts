@@ -0,0 +1,111 @@
+import { mergeUpdates } from "yjs";
+import { base64ToBytes, bytesToBase64 } from "../../lib/base64";
+import { ensureDatabase, runInTransaction } from "../connection";
+import type { SqlDatabase } from "../driver";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+
+// Updates kept per note before they are merged into a single row
+export const COLLAB_COMPACTION_THRESHOLD = 200;
+
+const mergeStoredUpdates = (rows: { update_data: string }[]): string =>
+  bytesToBase64(
+    mergeUpdates(rows.map((row) => base64ToBytes(row.update_data)))
+  );
+
+// Replace a note's updates with one merged update. Must run inside the
+// caller's transaction.
+const compactCollabUpdates = async (
+  txn: SqlDatabase,
+  noteId: string
+): Promise<void> => {
+  const rows = await txn.getAllAsync<{ update_data: string }>(
+    "SELECT update_data FROM note_collab_updates WHERE note_id = ? ORDER BY id",
+    [noteId]
+  );
+  await txn.runAsync("DELETE FROM note_collab_updates WHERE note_id = ?", [
+    noteId,
+  ]);
+  await txn.runAsync(
+    `INSERT INTO note_collab_updates (note_id, update_data, created_at)
+      VALUES (?, ?, ?)`,
+    [noteId, mergeStoredUpdates(rows), new Date().toISOString()]
+  );
+};
+
+// Append a base64 Yjs update to a note's shared document. Locked notes keep
+// no shared document, since it would hold their text in plaintext.
+export const appendCollabUpdate = async (
+  noteId: string,
+  update: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const error = await runInTransaction(async (txn) => {
+      const note = await txn.getFirstAsync<{ is_locked: number }>(
+        `SELECT encrypted_payload IS NOT NULL AS is_locked
+          FROM notes WHERE id = ?`,
+        [noteId]
+      );
+      if (!note) {
+        return { code: "NOTE_NOT_FOUND", message: "Note not found" };
+      }
+      if (note.is_locked) {
+        return { code: "NOTE_LOCKED", message: "Unlock the note first" };
+      }
+
+      await txn.runAsync(
+        `INSERT INTO note_collab_updates (note_id, update_data, created_at)
+          VALUES (?, ?, ?)`,
+        [noteId, update, new Date().toISOString()]
+      );
+
+      const stored = await txn.getFirstAsync<{ count: number }>(
+        "SELECT COUNT(*) AS count FROM note_collab_updates WHERE note_id = ?",
+        [noteId]
+      );
+      if (stored && stored.count > COLLAB_COMPACTION_THRESHOLD) {
+        await compactCollabUpdates(txn, noteId);
+      }
+      return null;
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to save collaboration update:", error);
+    const dbError: DatabaseError = {
+      code: "APPEND_COLLAB_UPDATE_ERROR",
+      message: "Failed to save collaboration update",
+      details: { error: String(error), noteId },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// A note's shared document as one base64 Yjs update, or null if it was never
+// edited together
+export const getCollabState = async (
+  noteId: string
+): Promise<DatabaseResult<string | null>> => {
+  try {
+    const database = await ensureDatabase();
+    const rows = await database.getAllAsync<{ update_data: string }>(
+      "SELECT update_data FROM note_collab_updates WHERE note_id = ? ORDER BY id",
+      [noteId]
+    );
+
+    return {
+      success: true,
+      data: rows.length > 0 ? mergeStoredUpdates(rows) : null,
+    };
+  } catch (error) {
+    console.error("❌ Failed to get collaboration state:", error);
+    const dbError: DatabaseError = {
+      code: "GET_COLLAB_STATE_ERROR",
+      message: "Failed to get collaboration state",
+      details: { error: String(error), noteId },
+    };
+    return { success: false, error: dbError };
+  }
+};
@@ -0,0 +1,339 @@
+import { ensureDatabase, runInTransaction } from "../connection";
+import { getDatabaseDriver } from "../driver";
+import {
+  CreateFolderParams,
+  DeleteFolderMode,
+  Folder,
+  FolderRow,
+  FolderWithCount,
+  transformFolderRowToFolder,
+  transformFolderRowToFolderWithCount,
+  UpdateFolderParams,
+} from "../models/Folder";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+
+// Recursive CTE selecting a folder and all of its descendants
+const SUBTREE_CTE = `WITH RECURSIVE subtree(id) AS (
+  SELECT id FROM folders WHERE id = ?
+  UNION ALL
+  SELECT folders.id FROM folders JOIN subtree ON folders.parent_id = subtree.id
+)`;
+
+// Folder listing with direct note counts
+const FOLDER_WITH_COUNT_SELECT = `SELECT folders.*,
+  (SELECT COUNT(*) FROM notes
+    WHERE notes.folder_id = folders.id AND notes.is_deleted = 0) AS note_count
+  FROM folders`;
+
+const invalidName = (): DatabaseResult<never> => ({
+  success: false,
+  error: { code: "INVALID_FOLDER_NAME", message: "Folder name is required" },
+});
+
+const folderNotFound = (): DatabaseResult<never> => ({
+  success: false,
+  error: { code: "FOLDER_NOT_FOUND", message: "Folder not found" },
+});
+
+// Create a new folder at the end of its siblings
+export const createFolder = async (
+  params: CreateFolderParams
+): Promise<DatabaseResult<Folder>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const name = params.name.trim();
+    if (!name) {
+      return invalidName();
+    }
+
+    const parentId = params.parentId ?? null;
+    if (parentId) {
+      const parent = await database.getFirstAsync<{ id: string }>(
+        "SELECT id FROM folders WHERE id = ?",
+        [parentId]
+      );
+      if (!parent) {
+        return folderNotFound();
+      }
+    }
+
+    let sortOrder = params.sortOrder;
+    if (sortOrder === undefined) {
+      const last = await database.getFirstAsync<{ max_order: number | null }>(
+        "SELECT MAX(sort_order) AS max_order FROM folders WHERE parent_id IS ?",
+        [parentId]
+      );
+      sortOrder = (last?.max_order ?? -1) + 1;
+    }
+
+    const now = new Date().toISOString();
+    const folder: Folder = {
+      id: getDatabaseDriver().randomUUID(),
+      name,
+      parentId,
+      sortOrder,
+      color: params.color ?? null,
+      dateCreated: now,
+      lastModified: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO folders (
+        id, name, parent_id, sort_order, color, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        folder.id,
+        folder.name,
+        folder.parentId,
+        folder.sortOrder,
+        folder.color,
+        folder.dateCreated,
+        folder.lastModified,
+      ]
+    );
+
+    return { success: true, data: folder };
+  } catch (error) {
+    console.error("❌ Failed to create folder:", error);
+    const dbError: DatabaseError = {
+      code: "CREATE_FOLDER_ERROR",
+      message: "Failed to create folder",
+      details: { error: String(error), params },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Get folder by ID
+export const getFolderById = async (
+  id: string
+): Promise<DatabaseResult<Folder>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.getFirstAsync<FolderRow>(
+      "SELECT * FROM folders WHERE id = ?",
+      [id]
+    );
+
+    if (!result) {
+      return folderNotFound();
+    }
+
+    return { success: true, data: transformFolderRowToFolder(result) };
+  } catch (error) {
+    console.error("❌ Failed to get folder:", error);
+    const dbError: DatabaseError = {
+      code: "GET_FOLDER_ERROR",
+      message: "Failed to get folder",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// List folders with note counts. Pass a parent ID (or null for top level) to
+// list direct children only; omit it to list every folder.
+export const getFolders = async (
+  parentId?: string | null
+): Promise<DatabaseResult<FolderWithCount[]>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results =
+      parentId === undefined
+        ? await database.getAllAsync<FolderRow>(
+            `${FOLDER_WITH_COUNT_SELECT} ORDER BY sort_order ASC, name COLLATE NOCASE ASC`
+          )
+        : await database.getAllAsync<FolderRow>(
+            `${FOLDER_WITH_COUNT_SELECT} WHERE parent_id IS ?
+              ORDER BY sort_order ASC, name COLLATE NOCASE ASC`,
+            [parentId]
+          );
+
+    return {
+      success: true,
+      data: results.map(transformFolderRowToFolderWithCount),
+    };
+  } catch (error) {
+    console.error("❌ Failed to get folders:", error);
+    const dbError: DatabaseError = {
+      code: "GET_FOLDERS_ERROR",
+      message: "Failed to get folders",
+      details: { error: String(error), parentId },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Get the chain of folders from the top level down to (and including) a folder
+export const getFolderPath = async (
+  id: string
+): Promise<DatabaseResult<Folder[]>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results = await database.getAllAsync<FolderRow>(
+      `WITH RECURSIVE ancestors(id, parent_id, depth) AS (
+        SELECT id, parent_id, 0 FROM folders WHERE id = ?
+        UNION ALL
+        SELECT folders.id, folders.parent_id, ancestors.depth + 1
+          FROM folders JOIN ancestors ON folders.id = ancestors.parent_id
+      )
+      SELECT folders.* FROM folders
+        JOIN ancestors ON ancestors.id = folders.id
+        ORDER BY ancestors.depth DESC`,
+      [id]
+    );
+
+    if (results.length === 0) {
+      return folderNotFound();
+    }
+
+    return { success: true, data: results.map(transformFolderRowToFolder) };
+  } catch (error) {
+    console.error("❌ Failed to get folder path:", error);
+    const dbError: DatabaseError = {
+      code: "GET_FOLDER_PATH_ERROR",
+      message: "Failed to get folder path",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Update an existing folder (rename, move, recolor or reorder)
+export const updateFolder = async (
+  params: UpdateFolderParams
+): Promise<DatabaseResult<Folder>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const existingResult = await getFolderById(params.id);
+    if (!existingResult.success || !existingResult.data) {
+      return folderNotFound();
+    }
+    const existingFolder = existingResult.data;
+
+    const name = params.name !== undefined ? params.name.trim() : undefined;
+    if (name === "") {
+      return invalidName();
+    }
+
+    // A folder cannot be moved into itself or one of its descendants
+    if (params.parentId) {
+      const subtree = await database.getAllAsync<{ id: string }>(
+        `${SUBTREE_CTE} SELECT id FROM subtree`,
+        [params.id]
+      );
+      if (subtree.some((folder) => folder.id === params.parentId)) {
+        return {
+          success: false,
+          error: {
+            code: "INVALID_FOLDER_MOVE",
+            message: "A folder cannot be moved into itself or its subfolders",
+          },
+        };
+      }
+
+      const parent = await getFolderById(params.parentId);
+      if (!parent.success) {
+        return folderNotFound();
+      }
+    }
+
+    const updatedFolder: Folder = {
+      ...existingFolder,
+      name: name ?? existingFolder.name,
+      parentId:
+        params.parentId !== undefined
+          ? params.parentId
+          : existingFolder.parentId,
+      color: params.color !== undefined ? params.color : existingFolder.color,
+      sortOrder:
+        params.sortOrder !== undefined
+          ? params.sortOrder
+          : existingFolder.sortOrder,
+      lastModified: new Date().toISOString(),
+    };
+
+    await database.runAsync(
+      `UPDATE folders SET
+        name = ?, parent_id = ?, sort_order = ?, color = ?, updated_at = ?
+      WHERE id = ?`,
+      [
+        updatedFolder.name,
+        updatedFolder.parentId,
+        updatedFolder.sortOrder,
+        updatedFolder.color,
+        updatedFolder.lastModified,
+        params.id,
+      ]
+    );
+
+    return { success: true, data: updatedFolder };
+  } catch (error) {
+    console.error("❌ Failed to update folder:", error);
+    const dbError: DatabaseError = {
+      code: "UPDATE_FOLDER_ERROR",
+      message: "Failed to update folder",
+      details: { error: String(error), params },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Delete a folder, either with everything in it or by moving its contents up
+export const deleteFolder = async (
+  id: string,
+  mode: DeleteFolderMode
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const existingResult = await getFolderById(id);
+    if (!existingResult.success || !existingResult.data) {
+      return folderNotFound();
+    }
+    const parentId = existingResult.data.parentId;
+    const now = new Date().toISOString();
+
+    await runInTransaction(async (txn) => {
+      if (mode === "cascade") {
+        // Trashed notes lose their folder so restoring them lands at the top level
+        await txn.runAsync(
+          `${SUBTREE_CTE}
+          UPDATE notes SET
+            is_deleted = 1, folder_id = NULL, updated_at = ?,
+            deleted_at = CASE WHEN is_deleted = 1 THEN deleted_at ELSE ? END
+          WHERE folder_id IN (SELECT id FROM subtree)`,
+          [id, now, now]
+        );
+        await txn.runAsync(
+          `${SUBTREE_CTE}
+          DELETE FROM folders WHERE id IN (SELECT id FROM subtree)`,
+          [id]
+        );
+      } else {
+        await txn.runAsync(
+          "UPDATE notes SET folder_id = ?, updated_at = ? WHERE folder_id = ?",
+          [parentId, now, id]
+        );
+        await txn.runAsync(
+          "UPDATE folders SET parent_id = ?, updated_at = ? WHERE parent_id = ?",
+          [parentId, now, id]
+        );
+        await txn.runAsync("DELETE FROM folders WHERE id = ?", [id]);
+      }
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to delete folder:", error);
+    const dbError: DatabaseError = {
+      code: "DELETE_FOLDER_ERROR",
+      message: "Failed to delete folder",
+      details: { error: String(error), id, mode },
+    };
+    return { success: false, error: dbError };
+  }
+};
@@ -0,0 +1,89 @@
+import { ensureDatabase, runInTransaction } from "../connection";
+import type { SqlDatabase } from "../driver";
+import { extractNoteLinkIds, NoteLinkTarget } from "../models/NoteLink";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+
+// Rebuild a note's outgoing links from its HTML. Links to itself or to notes
+// that don't exist are dropped. Must run inside the caller's transaction.
+export const setNoteLinks = async (
+  txn: SqlDatabase,
+  noteId: string,
+  html: string
+): Promise<void> => {
+  await txn.runAsync("DELETE FROM note_links WHERE source_note_id = ?", [
+    noteId,
+  ]);
+
+  for (const targetId of extractNoteLinkIds(html)) {
+    if (targetId === noteId) {
+      continue;
+    }
+    await txn.runAsync(
+      `INSERT OR IGNORE INTO note_links (source_note_id, target_note_id)
+        SELECT ?, id FROM notes WHERE id = ?`,
+      [noteId, targetId]
+    );
+  }
+};
+
+// Rebuild the outgoing links of notes whose HTML links to notes created
+// after them, e.g. during an import
+export const reindexNoteLinks = async (
+  noteIds: string[]
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    await runInTransaction(async (txn) => {
+      for (const noteId of noteIds) {
+        const note = await txn.getFirstAsync<{ content: string }>(
+          "SELECT content FROM notes WHERE id = ? AND encrypted_payload IS NULL",
+          [noteId]
+        );
+        if (note) {
+          await setNoteLinks(txn, noteId, note.content);
+        }
+      }
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to reindex note links:", error);
+    const dbError: DatabaseError = {
+      code: "REINDEX_NOTE_LINKS_ERROR",
+      message: "Failed to reindex note links",
+      details: { error: String(error), noteIds },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Find notes to offer in [[link autocomplete, title prefix matches first.
+// Locked notes are left out, since a link would show their title.
+export const searchLinkTargets = async (
+  query: string,
+  excludeNoteId?: string,
+  limit = 8
+): Promise<DatabaseResult<NoteLinkTarget[]>> => {
+  try {
+    const database = await ensureDatabase();
+    const pattern = query.trim().replace(/[\\%_]/g, (c) => `\\${c}`);
+
+    const results = await database.getAllAsync<NoteLinkTarget>(
+      `SELECT id, title FROM notes
+        WHERE is_deleted = 0 AND encrypted_payload IS NULL AND id != ?
+          AND title LIKE ? ESCAPE '\\'
+        ORDER BY title LIKE ? ESCAPE '\\' DESC, updated_at DESC
+        LIMIT ?`,
+      [excludeNoteId ?? "", `%${pattern}%`, `${pattern}%`, limit]
+    );
+
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to search link targets:", error);
+    const dbError: DatabaseError = {
+      code: "SEARCH_LINK_TARGETS_ERROR",
+      message: "Failed to search link targets",
+      details: { error: String(error), query },
+    };
+    return { success: false, error: dbError };
+  }
+};
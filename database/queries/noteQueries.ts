@@ -1,199 +1,47 @@
-import * as Crypto from "expo-crypto";
-import * as SQLite from "expo-sqlite";
+import { ensureDatabase, runInTransaction } from "../connection";
+import { getDatabaseDriver, SqlDatabase } from "../driver";
 import {
+  createNoteKey,
+  forgetNoteKey,
+  getNoteKey,
+  rememberNoteKey,
+  unlockNoteSecrets,
+} from "../encryption";
+import {
+  BulkNoteResult,
   CreateNoteParams,
   DatabaseError,
   DatabaseResult,
   Note,
   NoteRow,
+  NoteSearchPage,
+  NoteSearchResult,
+  SEARCH_HIGHLIGHT_CLOSE,
+  SEARCH_HIGHLIGHT_OPEN,
+  SearchMatch,
   SearchNotesParams,
   transformNoteRowToNote,
   transformNoteToNoteRow,
   UpdateNoteParams,
+  VersionConflictDetails,
 } from "../models/Note";
-
-// Database initialization
-let db: SQLite.SQLiteDatabase | null = null;
-let isInitializing = false;
-
-export const initializeDatabase = async (): Promise<
-  DatabaseResult<boolean>
-> => {
-  // Prevent multiple simultaneous initializations
-  if (isInitializing) {
-    while (isInitializing) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-    return db
-      ? { success: true, data: true }
-      : {
-          success: false,
-          error: {
-            code: "DB_INIT_ERROR",
-            message: "Database initialization failed",
-          },
-        };
-  }
-
-  // Return early if already initialized
-  if (db) {
-    return { success: true, data: true };
-  }
-
-  isInitializing = true;
-
-  try {
-    console.log("🔧 Initializing SQLite database...");
-
-    // Open database
-    db = await SQLite.openDatabaseAsync("inky_notes.db");
-    console.log("✅ Database opened successfully");
-
-    // Enable WAL mode for better performance
-    await db.execAsync("PRAGMA journal_mode = WAL;");
-    console.log("✅ WAL mode enabled");
-
-    // Check existing table structure first
-    const tableInfo = await db.getAllAsync<{ name: string; type: string }>(
-      "PRAGMA table_info(notes);"
-    );
-
-    if (tableInfo.length > 0) {
-      console.log(
-        "📋 Found existing table with columns:",
-        tableInfo.map((col) => col.name)
-      );
-
-      // Add missing columns to existing table if needed
-      const existingColumns = tableInfo.map((col) => col.name);
-
-      if (!existingColumns.includes("plain_text")) {
-        console.log("🔧 Adding plain_text column...");
-        await db.execAsync(
-          "ALTER TABLE notes ADD COLUMN plain_text TEXT DEFAULT '';"
-        );
-      }
-
-      if (!existingColumns.includes("is_deleted")) {
-        console.log("🔧 Adding is_deleted column...");
-        await db.execAsync(
-          "ALTER TABLE notes ADD COLUMN is_deleted INTEGER DEFAULT 0;"
-        );
-      }
-
-      if (!existingColumns.includes("metadata")) {
-        console.log("🔧 Adding metadata column...");
-        await db.execAsync(
-          "ALTER TABLE notes ADD COLUMN metadata TEXT DEFAULT '{}';"
-        );
-      }
-
-      console.log("✅ Table structure updated");
-    } else {
-      // Create new table with our schema
-      await db.execAsync(`
-        CREATE TABLE notes (
-          id TEXT PRIMARY KEY,
-          title TEXT NOT NULL,
-          content TEXT NOT NULL,
-          plain_text TEXT NOT NULL DEFAULT '',
-          word_count INTEGER DEFAULT 0,
-          created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL,
-          folder_id TEXT,
-          tags TEXT,
-          reading_time INTEGER DEFAULT 1,
-          last_edit_position INTEGER DEFAULT 0,
-          is_pinned INTEGER DEFAULT 0,
-          is_favorite INTEGER DEFAULT 0,
-          is_deleted INTEGER DEFAULT 0,
-          metadata TEXT DEFAULT '{}'
-        );
-      `);
-      console.log("✅ New notes table created");
-    }
-
-    // Create indexes for existing column names
-    try {
-      await db.execAsync(
-        "CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at);"
-      );
-      console.log("✅ Index idx_notes_updated_at created");
-    } catch (error) {
-      console.error("❌ Failed to create idx_notes_updated_at:", error);
-    }
-
-    try {
-      await db.execAsync(
-        "CREATE INDEX IF NOT EXISTS idx_notes_is_deleted ON notes(is_deleted);"
-      );
-      console.log("✅ Index idx_notes_is_deleted created");
-    } catch (error) {
-      console.error("❌ Failed to create idx_notes_is_deleted:", error);
-    }
-
-    try {
-      await db.execAsync(
-        "CREATE INDEX IF NOT EXISTS idx_notes_folder_id ON notes(folder_id);"
-      );
-      console.log("✅ Index idx_notes_folder_id created");
-    } catch (error) {
-      console.error("❌ Failed to create idx_notes_folder_id:", error);
-    }
-
-    try {
-      await db.execAsync(
-        "CREATE INDEX IF NOT EXISTS idx_notes_plain_text ON notes(plain_text);"
-      );
-      console.log("✅ Index idx_notes_plain_text created");
-    } catch (error) {
-      console.error("❌ Failed to create idx_notes_plain_text:", error);
-    }
-
-    console.log("✅ All database indexes created");
-
-    // Test database functionality
-    const testResult = await db.getFirstAsync<{ version: string }>(
-      "SELECT sqlite_version() as version"
-    );
-    console.log(
-      `✅ Database test successful - SQLite version: ${testResult?.version}`
-    );
-
-    isInitializing = false;
-    return { success: true, data: true };
-  } catch (error) {
-    console.error("❌ Database initialization failed:", error);
-
-    // Reset state on failure
-    db = null;
-    isInitializing = false;
-
-    const dbError: DatabaseError = {
-      code: "DB_INIT_ERROR",
-      message: "Failed to initialize database",
-      details: {
-        error: String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        name: error instanceof Error ? error.name : undefined,
-      },
-    };
-    return { success: false, error: dbError };
-  }
-};
-
-// Ensure database is ready before operations
-const ensureDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
-  if (!db) {
-    const result = await initializeDatabase();
-    if (!result.success) {
-      throw new Error(
-        `Database initialization failed: ${result.error?.message}`
-      );
-    }
-  }
-  return db!;
-};
+import {
+  deleteOrphanedAttachments,
+  extractInlineImages,
+  linkNoteAttachments,
+} from "../attachments";
+import {
+  extractMentionContext,
+  findMention,
+  MIN_MENTION_TITLE_LENGTH,
+  NoteBacklink,
+  NoteBacklinks,
+  replaceNoteLinkLabels,
+} from "../models/NoteLink";
+import { deleteNotesWhere } from "../trash";
+import { setNoteLinks } from "./linkQueries";
+import { recordRevision } from "./revisionQueries";
+import { normalizeTagNames, setNoteTags } from "./tagQueries";
 
 // Utility function to extract plain text from HTML
 const extractPlainText = (html: string): string => {
@@ -214,68 +62,146 @@ const calculateReadingTime = (wordCount: number): number => {
   return Math.max(1, Math.ceil(wordCount / 200));
 };
 
+// Transform a row, decrypting it if the note was unlocked this session
+const toNote = (row: NoteRow): Note =>
+  transformNoteRowToNote(row, getNoteKey(row.id));
+
+// Update the label of every [[link]] to a renamed note. Must run inside the
+// caller's transaction. The linking notes' versions are bumped, so an editor
+// still showing the old label merges instead of saving over the new one.
+const relabelLinksToNote = async (
+  txn: SqlDatabase,
+  targetId: string,
+  previousTitle: string,
+  title: string
+): Promise<void> => {
+  const sources = await txn.getAllAsync<{ id: string; content: string }>(
+    `SELECT notes.id, notes.content FROM notes
+      JOIN note_links ON note_links.source_note_id = notes.id
+      WHERE note_links.target_note_id = ?`,
+    [targetId]
+  );
+
+  for (const source of sources) {
+    const content = replaceNoteLinkLabels(
+      source.content,
+      targetId,
+      previousTitle,
+      title
+    );
+    if (content !== source.content) {
+      await txn.runAsync(
+        `UPDATE notes SET content = ?, plain_text = ?, ${BUMP_VERSION_SQL}
+          WHERE id = ?`,
+        [content, extractPlainText(content), source.id]
+      );
+    }
+  }
+};
+
+// A note's metadata.version in SQL, matching how rows are read
+const VERSION_EXPRESSION = `COALESCE(
+  CASE WHEN json_valid(metadata) THEN json_extract(metadata, '$.version') END,
+  1
+)`;
+
+// Bumps metadata.version the way updateNote does, for changes that write
+// the row directly, so an editor holding the old note gets a VERSION_CONFLICT
+const BUMP_VERSION_SQL = `metadata = json_set(
+  CASE WHEN json_valid(metadata) THEN metadata ELSE '{}' END,
+  '$.version', ${VERSION_EXPRESSION} + 1
+)`;
+
+const versionConflict = (
+  details: VersionConflictDetails
+): DatabaseResult<Note> => ({
+  success: false,
+  error: {
+    code: "VERSION_CONFLICT",
+    message: "Note was changed by another save",
+    details: { ...details },
+  },
+});
+
+const noteLocked = (): DatabaseError => ({
+  code: "NOTE_LOCKED",
+  message: "Unlock the note first",
+});
+
+// Generate a UUID for a new note
+export const generateNoteId = (): string => getDatabaseDriver().randomUUID();
+
 // Create a new note
 export const createNote = async (
   params: CreateNoteParams
 ): Promise<DatabaseResult<Note>> => {
   try {
     const database = await ensureDatabase();
-
     const now = new Date().toISOString();
-    const plainText = extractPlainText(params.content);
+    const content = await extractInlineImages(database, params.content);
+    const plainText = extractPlainText(content);
     const wordCount = calculateWordCount(plainText);
     const readingTime = calculateReadingTime(wordCount);
 
-    // Generate UUID for note ID
-    const noteId = await Crypto.randomUUID();
+    const noteId = params.id || generateNoteId();
 
     const note: Note = {
       id: noteId,
       title: params.title || "Untitled Note",
-      content: params.content,
+      content,
       plainText,
       wordCount,
-      dateCreated: now,
-      lastModified: now,
+      dateCreated: params.dateCreated || now,
+      lastModified: params.lastModified || params.dateCreated || now,
       folderId: params.folderId || null,
       tags: params.tags || [],
-      isPinned: false,
+      isPinned: params.isPinned || false,
+      isFavorite: false,
       isDeleted: false,
+      deletedAt: null,
+      isLocked: false,
+      reminderAt: null,
       metadata: {
         readingTime,
         lastEditPosition: 0,
-        characterCount: params.content.length,
+        characterCount: content.length,
         version: 1,
       },
     };
 
-    const noteRow = transformNoteToNoteRow(note);
+    await runInTransaction(async (txn) => {
+      note.tags = await setNoteTags(txn, noteId, note.tags);
+      const noteRow = transformNoteToNoteRow(note);
 
-    await database.runAsync(
-      `INSERT INTO notes (
-        id, title, content, plain_text, word_count,
-        created_at, updated_at, folder_id, tags,
-        reading_time, last_edit_position, is_pinned,
-        is_favorite, is_deleted, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        noteRow.id!,
-        noteRow.title!,
-        noteRow.content!,
-        noteRow.plain_text!,
-        noteRow.word_count!,
-        noteRow.created_at!,
-        noteRow.updated_at!,
-        noteRow.folder_id || null,
-        noteRow.tags || null,
-        noteRow.reading_time || 1,
-        noteRow.last_edit_position || 0,
-        noteRow.is_pinned!,
-        noteRow.is_favorite || 0,
-        noteRow.is_deleted || 0,
-        noteRow.metadata || null,
-      ]
-    );
+      await txn.runAsync(
+        `INSERT INTO notes (
+          id, title, content, plain_text, word_count,
+          created_at, updated_at, folder_id, tags,
+          reading_time, last_edit_position, is_pinned,
+          is_favorite, is_deleted, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          noteRow.id!,
+          noteRow.title!,
+          noteRow.content!,
+          noteRow.plain_text!,
+          noteRow.word_count!,
+          noteRow.created_at!,
+          noteRow.updated_at!,
+          noteRow.folder_id || null,
+          noteRow.tags || null,
+          noteRow.reading_time || 1,
+          noteRow.last_edit_position || 0,
+          noteRow.is_pinned!,
+          noteRow.is_favorite || 0,
+          noteRow.is_deleted || 0,
+          noteRow.metadata || null,
+        ]
+      );
+      await linkNoteAttachments(txn, noteId, note.content);
+      await setNoteLinks(txn, noteId, note.content);
+      await recordRevision(txn, note);
+    });
 
     console.log("✅ Note created successfully:", noteId);
     return { success: true, data: note };
@@ -295,8 +221,6 @@ export const updateNote = async (
   params: UpdateNoteParams
 ): Promise<DatabaseResult<Note>> => {
   try {
-    const database = await ensureDatabase();
-
     // First, get the existing note
     const existingResult = await getNoteById(params.id);
     if (!existingResult.success || !existingResult.data) {
@@ -307,64 +231,158 @@ export const updateNote = async (
     }
 
     const existingNote = existingResult.data;
+    const key = getNoteKey(params.id);
+    if (
+      existingNote.isLocked &&
+      !key &&
+      (params.title !== undefined || params.content !== undefined)
+    ) {
+      return { success: false, error: noteLocked() };
+    }
+
+    // Rows written before versioning count as version 1
+    const existingVersion = existingNote.metadata.version ?? 1;
+    if (
+      params.expectedVersion !== undefined &&
+      params.expectedVersion !== existingVersion
+    ) {
+      return versionConflict({
+        id: params.id,
+        expectedVersion: params.expectedVersion,
+        current: existingNote,
+      });
+    }
+
     const now = new Date().toISOString();
+    const content =
+      params.content !== undefined
+        ? await extractInlineImages(await ensureDatabase(), params.content)
+        : undefined;
 
     // Update only provided fields
     const updatedNote: Note = {
       ...existingNote,
       title: params.title !== undefined ? params.title : existingNote.title,
-      content:
-        params.content !== undefined ? params.content : existingNote.content,
+      content: content !== undefined ? content : existingNote.content,
       folderId:
         params.folderId !== undefined ? params.folderId : existingNote.folderId,
       tags: params.tags !== undefined ? params.tags : existingNote.tags,
       isPinned:
         params.isPinned !== undefined ? params.isPinned : existingNote.isPinned,
+      isFavorite:
+        params.isFavorite !== undefined
+          ? params.isFavorite
+          : existingNote.isFavorite,
       isDeleted:
         params.isDeleted !== undefined
           ? params.isDeleted
           : existingNote.isDeleted,
+      reminderAt:
+        params.reminderAt !== undefined
+          ? params.reminderAt
+          : existingNote.reminderAt,
       lastModified: now,
+      metadata: { ...existingNote.metadata, version: existingVersion + 1 },
     };
+    if (updatedNote.isDeleted !== existingNote.isDeleted) {
+      updatedNote.deletedAt = updatedNote.isDeleted ? now : null;
+    }
 
     // Recalculate derived fields if content changed
-    if (params.content !== undefined) {
-      updatedNote.plainText = extractPlainText(params.content);
+    if (content !== undefined) {
+      updatedNote.plainText = extractPlainText(content);
       updatedNote.wordCount = calculateWordCount(updatedNote.plainText);
       updatedNote.metadata = {
         ...updatedNote.metadata,
         readingTime: calculateReadingTime(updatedNote.wordCount),
-        characterCount: params.content.length,
-        version: updatedNote.metadata.version + 1,
+        characterCount: content.length,
       };
     }
 
-    const noteRow = transformNoteToNoteRow(updatedNote);
+    const isUpdated = await runInTransaction(async (txn) => {
+      const noteRow = transformNoteToNoteRow(updatedNote, key);
 
-    await database.runAsync(
-      `UPDATE notes SET
-        title = ?, content = ?, plain_text = ?, word_count = ?,
-        updated_at = ?, folder_id = ?, tags = ?,
-        reading_time = ?, last_edit_position = ?, is_pinned = ?,
-        is_favorite = ?, is_deleted = ?, metadata = ?
-      WHERE id = ?`,
-      [
-        noteRow.title!,
-        noteRow.content!,
-        noteRow.plain_text!,
-        noteRow.word_count!,
-        noteRow.updated_at!,
-        noteRow.folder_id || null,
-        noteRow.tags || null,
-        noteRow.reading_time || 1,
-        noteRow.last_edit_position || 0,
-        noteRow.is_pinned!,
-        noteRow.is_favorite || 0,
-        noteRow.is_deleted || 0,
-        noteRow.metadata || null,
-        params.id,
-      ]
-    );
+      // Only write over the version that was read, so a save that landed in
+      // between is reported as a conflict instead of being overwritten
+      const result = await txn.runAsync(
+        `UPDATE notes SET
+          title = ?, content = ?, plain_text = ?, word_count = ?,
+          updated_at = ?, folder_id = ?, tags = ?,
+          reading_time = ?, last_edit_position = ?, is_pinned = ?,
+          is_favorite = ?, is_deleted = ?, deleted_at = ?, reminder_at = ?,
+          metadata = ?, encrypted_payload = COALESCE(?, encrypted_payload)
+        WHERE id = ? AND ${VERSION_EXPRESSION} = ?`,
+        [
+          noteRow.title!,
+          noteRow.content!,
+          noteRow.plain_text!,
+          noteRow.word_count!,
+          noteRow.updated_at!,
+          noteRow.folder_id || null,
+          noteRow.tags || null,
+          noteRow.reading_time || 1,
+          noteRow.last_edit_position || 0,
+          noteRow.is_pinned!,
+          noteRow.is_favorite || 0,
+          noteRow.is_deleted || 0,
+          noteRow.deleted_at || null,
+          noteRow.reminder_at || null,
+          noteRow.metadata || null,
+          noteRow.encrypted_payload ?? null,
+          params.id,
+          existingVersion,
+        ]
+      );
+      if (result.changes === 0) {
+        return false;
+      }
+
+      if (params.tags !== undefined) {
+        updatedNote.tags = await setNoteTags(txn, params.id, params.tags);
+        await txn.runAsync("UPDATE notes SET tags = ? WHERE id = ?", [
+          JSON.stringify(updatedNote.tags),
+          params.id,
+        ]);
+      }
+
+      if (updatedNote.content !== existingNote.content) {
+        await linkNoteAttachments(txn, params.id, updatedNote.content);
+      }
+      // Locked notes keep no links or history, which would be in plaintext
+      if (updatedNote.isLocked) {
+        return true;
+      }
+      if (updatedNote.content !== existingNote.content) {
+        await setNoteLinks(txn, params.id, updatedNote.content);
+      }
+      if (updatedNote.title !== existingNote.title) {
+        await relabelLinksToNote(
+          txn,
+          params.id,
+          existingNote.title,
+          updatedNote.title
+        );
+      }
+      if (
+        updatedNote.title !== existingNote.title ||
+        updatedNote.content !== existingNote.content
+      ) {
+        await recordRevision(txn, updatedNote, params.startNewRevision);
+      }
+      return true;
+    });
+
+    if (!isUpdated) {
+      const currentResult = await getNoteById(params.id);
+      if (!currentResult.success || !currentResult.data) {
+        return currentResult;
+      }
+      return versionConflict({
+        id: params.id,
+        expectedVersion: existingVersion,
+        current: currentResult.data,
+      });
+    }
 
     return { success: true, data: updatedNote };
   } catch (error) {
@@ -397,7 +415,7 @@ export const getNoteById = async (
       };
     }
 
-    const note = transformNoteRowToNote(result);
+    const note = toNote(result);
     return { success: true, data: note };
   } catch (error) {
     console.error("❌ Failed to get note:", error);
@@ -410,10 +428,156 @@ export const getNoteById = async (
   }
 };
 
-// Get all notes with optional search and filtering
+// Row shape returned by full-text queries
+interface NoteSearchRow extends NoteRow {
+  [sortKey: `sort_key_${number}`]: string | number;
+  rank?: number;
+  snippet?: string;
+  title_highlight?: string;
+  plain_text_highlight?: string;
+}
+
+// Title and tag matches weigh more than body matches in the ranking
+const RANK_EXPRESSION = "bm25(notes_fts, 10.0, 1.0, 5.0)";
+
+// Control characters used to locate matches in highlight() output
+const MATCH_START = "\u0001";
+const MATCH_END = "\u0002";
+
+// Turn free-form user input into a safe FTS5 query: every term is quoted
+// (so operators and punctuation are literal) and prefix-matched
+const buildFtsQuery = (query: string): string | null => {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => /[\p{L}\p{N}]/u.test(term));
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `"${term}"*`).join(" ");
+};
+
+// Convert highlight() output into match offsets within the original text
+const extractMatches = (
+  highlighted: string | undefined,
+  field: SearchMatch["field"]
+): SearchMatch[] => {
+  if (!highlighted) {
+    return [];
+  }
+
+  const matches: SearchMatch[] = [];
+  let position = 0;
+  let matchStart = -1;
+
+  for (const char of highlighted) {
+    if (char === MATCH_START) {
+      matchStart = position;
+    } else if (char === MATCH_END) {
+      if (matchStart >= 0) {
+        matches.push({
+          field,
+          start: matchStart,
+          length: position - matchStart,
+        });
+      }
+      matchStart = -1;
+    } else {
+      position += char.length;
+    }
+  }
+
+  return matches;
+};
+
+const transformSearchRow = (
+  row: NoteSearchRow,
+  projection: SearchNotesParams["projection"]
+): NoteSearchResult => {
+  const { content, ...note }: NoteSearchResult = toNote(row);
+  const result: NoteSearchResult =
+    projection === "list" ? note : { ...note, content };
+  if (row.rank === undefined) {
+    return result;
+  }
+
+  return {
+    ...result,
+    rank: row.rank,
+    snippet: row.snippet ?? "",
+    matches: [
+      ...extractMatches(row.title_highlight, "title"),
+      ...extractMatches(row.plain_text_highlight, "plainText"),
+    ],
+  };
+};
+
+// Every notes column except content, for the "list" projection. content is
+// selected as an empty string so rows still satisfy NoteRow, and so is the
+// encrypted payload of locked notes, which only needs to flag the lock.
+const LIST_PROJECTION_COLUMNS = `notes.id, notes.title, '' AS content,
+  notes.plain_text, notes.word_count, notes.created_at, notes.updated_at,
+  notes.folder_id, notes.tags, notes.reading_time, notes.last_edit_position,
+  notes.is_pinned, notes.is_favorite, notes.is_deleted, notes.deleted_at,
+  notes.reminder_at, notes.metadata,
+  CASE WHEN notes.encrypted_payload IS NULL THEN NULL ELSE '' END
+    AS encrypted_payload`;
+
+// Column or expression the results are ordered by
+interface SortKey {
+  expression: string;
+  direction: "ASC" | "DESC";
+}
+
+type CursorValue = string | number;
+
+// Condition selecting the rows that sort strictly after the cursor, comparing
+// the keys lexicographically and each one in its own direction
+const buildKeysetCondition = (
+  keys: SortKey[],
+  values: CursorValue[]
+): { sql: string; params: CursorValue[] } => {
+  const clauses: string[] = [];
+  const params: CursorValue[] = [];
+
+  keys.forEach((key, index) => {
+    const terms = keys
+      .slice(0, index)
+      .map((previous) => `${previous.expression} = ?`);
+    terms.push(`${key.expression} ${key.direction === "ASC" ? ">" : "<"} ?`);
+    clauses.push(`(${terms.join(" AND ")})`);
+    params.push(...values.slice(0, index + 1));
+  });
+
+  return { sql: `(${clauses.join(" OR ")})`, params };
+};
+
+// Cursors hold the sort key values of the last row on a page
+const encodeCursor = (row: NoteSearchRow, keyCount: number): string =>
+  JSON.stringify(
+    Array.from({ length: keyCount }, (_, index) => row[`sort_key_${index}`])
+  );
+
+const decodeCursor = (cursor: string, keyCount: number): CursorValue[] => {
+  const values: unknown = JSON.parse(cursor);
+  if (
+    !Array.isArray(values) ||
+    values.length !== keyCount ||
+    !values.every((v) => typeof v === "string" || typeof v === "number")
+  ) {
+    throw new Error("Cursor does not match the search parameters");
+  }
+  return values;
+};
+
+// Get all notes with optional search and filtering. Results are paged by
+// keyset: each page's nextCursor marks where the next page starts, which
+// stays cheap however deep the user scrolls.
 export const searchNotes = async (
   params: SearchNotesParams = {}
-): Promise<DatabaseResult<Note[]>> => {
+): Promise<DatabaseResult<NoteSearchPage>> => {
   try {
     const database = await ensureDatabase();
 
@@ -421,62 +585,169 @@ export const searchNotes = async (
       query,
       folderId,
       tags = [],
+      tagMatch = "all",
+      isFavorite,
+      hasReminder,
       includeDeleted = false,
-      sortBy = "lastModified",
       sortOrder = "desc",
+      pinnedFirst = false,
+      favoritesFirst = false,
+      updatedSince,
+      ids,
+      projection = "full",
       limit = 100,
       offset = 0,
+      cursor,
+      snippetTokens = 16,
     } = params;
 
-    let sql = "SELECT * FROM notes WHERE 1=1";
+    const ftsQuery = query ? buildFtsQuery(query) : null;
+    const sortBy = params.sortBy ?? (ftsQuery ? "relevance" : "lastModified");
+
+    // Sorting; relevance only applies to full-text queries. The id breaks
+    // ties so every row has a unique position for the cursor.
+    const sortKeys: SortKey[] = [];
+    if (pinnedFirst) {
+      sortKeys.push({ expression: "notes.is_pinned", direction: "DESC" });
+    }
+    if (favoritesFirst) {
+      sortKeys.push({ expression: "notes.is_favorite", direction: "DESC" });
+    }
+    let direction: SortKey["direction"] = sortOrder === "asc" ? "ASC" : "DESC";
+    if (sortBy === "relevance" && ftsQuery) {
+      // Lower bm25 scores are more relevant
+      direction = direction === "DESC" ? "ASC" : "DESC";
+      sortKeys.push({ expression: RANK_EXPRESSION, direction });
+    } else if (sortBy === "reminder") {
+      // Notes without a reminder go last in either direction
+      sortKeys.push(
+        { expression: "(notes.reminder_at IS NULL)", direction: "ASC" },
+        { expression: "COALESCE(notes.reminder_at, '')", direction }
+      );
+    } else {
+      const sortColumn =
+        sortBy === "dateCreated"
+          ? "notes.created_at"
+          : sortBy === "title"
+            ? "notes.title"
+            : "notes.updated_at";
+      sortKeys.push({ expression: sortColumn, direction });
+    }
+    sortKeys.push({ expression: "notes.id", direction });
+
+    const columns = projection === "list" ? LIST_PROJECTION_COLUMNS : "notes.*";
+    const sortKeyColumns = sortKeys
+      .map((key, index) => `${key.expression} AS sort_key_${index}`)
+      .join(", ");
+
+    let sql: string;
     const sqlParams: (string | number)[] = [];
 
+    // Locked notes only have their tags indexed, and never match a query
+    if (ftsQuery) {
+      sql = `SELECT ${columns}, ${sortKeyColumns},
+          ${RANK_EXPRESSION} AS rank,
+          snippet(notes_fts, 1, '${SEARCH_HIGHLIGHT_OPEN}', '${SEARCH_HIGHLIGHT_CLOSE}', '…', ?) AS snippet,
+          highlight(notes_fts, 0, char(1), char(2)) AS title_highlight,
+          highlight(notes_fts, 1, char(1), char(2)) AS plain_text_highlight
+        FROM notes_fts
+        JOIN notes ON notes.rowid = notes_fts.rowid
+        WHERE notes_fts MATCH ? AND notes.encrypted_payload IS NULL`;
+      sqlParams.push(snippetTokens, ftsQuery);
+    } else if (query) {
+      // Nothing searchable in the query (e.g. only punctuation)
+      return { success: true, data: { notes: [], nextCursor: null } };
+    } else {
+      sql = `SELECT ${columns}, ${sortKeyColumns} FROM notes WHERE 1=1`;
+    }
+
     // Filter by deleted status
     if (!includeDeleted) {
-      sql += " AND is_deleted = 0";
+      sql += " AND notes.is_deleted = 0";
     }
 
     // Filter by folder
     if (folderId !== undefined) {
       if (folderId === null) {
-        sql += " AND folder_id IS NULL";
+        sql += " AND notes.folder_id IS NULL";
       } else {
-        sql += " AND folder_id = ?";
+        sql += " AND notes.folder_id = ?";
         sqlParams.push(folderId);
       }
     }
 
-    // Search in title and content
-    if (query) {
-      sql += " AND (title LIKE ? OR plain_text LIKE ?)";
-      const searchTerm = `%${query}%`;
-      sqlParams.push(searchTerm, searchTerm);
+    // Filter by favorite status
+    if (isFavorite !== undefined) {
+      sql += " AND notes.is_favorite = ?";
+      sqlParams.push(isFavorite ? 1 : 0);
     }
 
-    // Filter by tags (simplified - could be enhanced)
-    if (tags.length > 0) {
-      const tagConditions = tags.map(() => "tags LIKE ?").join(" AND ");
-      sql += ` AND (${tagConditions})`;
-      tags.forEach((tag) => sqlParams.push(`%"${tag}"%`));
+    // Filter by pending reminder
+    if (hasReminder !== undefined) {
+      sql += hasReminder
+        ? " AND notes.reminder_at IS NOT NULL"
+        : " AND notes.reminder_at IS NULL";
     }
 
-    // Sorting
-    const sortColumn =
-      sortBy === "lastModified"
-        ? "updated_at"
-        : sortBy === "dateCreated"
-          ? "created_at"
-          : "title";
-    sql += ` ORDER BY ${sortColumn} ${sortOrder.toUpperCase()}`;
+    // Filter by modification time
+    if (updatedSince) {
+      sql += " AND notes.updated_at >= ?";
+      sqlParams.push(updatedSince);
+    }
+
+    // Filter by id
+    if (ids) {
+      sql += ` AND notes.id IN (${ids.map(() => "?").join(", ")})`;
+      sqlParams.push(...ids);
+    }
+
+    // Filter by tags; "all" requires every tag, "any" at least one
+    const tagNames = normalizeTagNames(tags);
+    if (tagNames.length > 0) {
+      sql += ` AND notes.id IN (
+        SELECT note_tags.note_id FROM note_tags
+        JOIN tags ON tags.id = note_tags.tag_id
+        WHERE tags.name IN (${tagNames.map(() => "?").join(", ")})
+        GROUP BY note_tags.note_id`;
+      sqlParams.push(...tagNames);
+      if (tagMatch === "all") {
+        sql += " HAVING COUNT(DISTINCT tags.id) = ?";
+        sqlParams.push(tagNames.length);
+      }
+      sql += ")";
+    }
+
+    // Continue after the previous page
+    if (cursor) {
+      const keyset = buildKeysetCondition(
+        sortKeys,
+        decodeCursor(cursor, sortKeys.length)
+      );
+      sql += ` AND ${keyset.sql}`;
+      sqlParams.push(...keyset.params);
+    }
 
-    // Pagination
+    sql += ` ORDER BY ${sortKeys
+      .map((key) => `${key.expression} ${key.direction}`)
+      .join(", ")}`;
+
+    // Pagination; one extra row tells whether another page follows
     sql += " LIMIT ? OFFSET ?";
-    sqlParams.push(limit, offset);
+    sqlParams.push(limit + 1, cursor ? 0 : offset);
 
-    const results = await database.getAllAsync<NoteRow>(sql, sqlParams);
-    const notes = results.map(transformNoteRowToNote);
+    const results = await database.getAllAsync<NoteSearchRow>(sql, sqlParams);
+    const hasMore = results.length > limit;
+    const pageRows = hasMore ? results.slice(0, limit) : results;
+    const lastRow = pageRows.at(-1);
 
-    return { success: true, data: notes };
+    return {
+      success: true,
+      data: {
+        notes: pageRows.map((row) => transformSearchRow(row, projection)),
+        nextCursor:
+          hasMore && lastRow ? encodeCursor(lastRow, sortKeys.length) : null,
+      },
+    };
   } catch (error) {
     console.error("❌ Failed to search notes:", error);
     const dbError: DatabaseError = {
@@ -488,16 +759,102 @@ export const searchNotes = async (
   }
 };
 
+// Cap on unlinked mentions returned, since common titles can appear in
+// many notes
+const MAX_UNLINKED_MENTIONS = 50;
+
+// Notes linking to a note, plus notes that mention its title as plain text
+// without linking to it. Deleted notes are left out of both.
+export const getBacklinks = async (
+  id: string
+): Promise<DatabaseResult<NoteBacklinks>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const target = await database.getFirstAsync<{ title: string }>(
+      "SELECT title FROM notes WHERE id = ?",
+      [id]
+    );
+
+    if (!target) {
+      return {
+        success: false,
+        error: { code: "NOTE_NOT_FOUND", message: "Note not found" },
+      };
+    }
+
+    const title = target.title.trim();
+    type SourceRow = Pick<
+      NoteRow,
+      "id" | "title" | "plain_text" | "updated_at"
+    >;
+    const toBacklink = (row: SourceRow): NoteBacklink => ({
+      noteId: row.id,
+      title: row.title,
+      context: extractMentionContext(row.plain_text ?? "", title),
+      lastModified: row.updated_at,
+    });
+
+    const linked = await database.getAllAsync<SourceRow>(
+      `SELECT notes.id, notes.title, notes.plain_text, notes.updated_at
+        FROM notes
+        JOIN note_links ON note_links.source_note_id = notes.id
+        WHERE note_links.target_note_id = ? AND notes.is_deleted = 0
+        ORDER BY notes.updated_at DESC`,
+      [id]
+    );
+
+    let unlinked: SourceRow[] = [];
+    if (title.length >= MIN_MENTION_TITLE_LENGTH) {
+      // instr() narrows the candidates; findMention then drops matches that
+      // are only part of a longer word
+      const candidates = await database.getAllAsync<SourceRow>(
+        `SELECT id, title, plain_text, updated_at FROM notes
+          WHERE is_deleted = 0 AND id != ?
+            AND instr(lower(plain_text), lower(?)) > 0
+            AND NOT EXISTS (
+              SELECT 1 FROM note_links
+              WHERE source_note_id = notes.id AND target_note_id = ?
+            )
+          ORDER BY updated_at DESC`,
+        [id, title, id]
+      );
+      unlinked = candidates
+        .filter((row) => findMention(row.plain_text ?? "", title) !== -1)
+        .slice(0, MAX_UNLINKED_MENTIONS);
+    }
+
+    return {
+      success: true,
+      data: {
+        linked: linked.map(toBacklink),
+        unlinkedMentions: unlinked.map(toBacklink),
+      },
+    };
+  } catch (error) {
+    console.error("❌ Failed to get backlinks:", error);
+    const dbError: DatabaseError = {
+      code: "GET_BACKLINKS_ERROR",
+      message: "Failed to get backlinks",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
 // Delete note (soft delete)
 export const deleteNote = async (
   id: string
 ): Promise<DatabaseResult<boolean>> => {
   try {
     const database = await ensureDatabase();
+    const now = new Date().toISOString();
 
     await database.runAsync(
-      "UPDATE notes SET is_deleted = 1, updated_at = ? WHERE id = ?",
-      [new Date().toISOString(), id]
+      `UPDATE notes SET is_deleted = 1, deleted_at = ?, updated_at = ?,
+          ${BUMP_VERSION_SQL}
+        WHERE id = ?`,
+      [now, now, id]
     );
 
     return { success: true, data: true };
@@ -517,9 +874,10 @@ export const permanentlyDeleteNote = async (
   id: string
 ): Promise<DatabaseResult<boolean>> => {
   try {
-    const database = await ensureDatabase();
-
-    await database.runAsync("DELETE FROM notes WHERE id = ?", [id]);
+    await runInTransaction(async (txn) => {
+      await deleteNotesWhere(txn, "id = ?", [id]);
+    });
+    await deleteOrphanedAttachments(await ensureDatabase());
     return { success: true, data: true };
   } catch (error) {
     console.error("❌ Failed to permanently delete note:", error);
@@ -531,3 +889,570 @@ export const permanentlyDeleteNote = async (
     return { success: false, error: dbError };
   }
 };
+
+// List notes in the trash, most recently deleted first
+export const getDeletedNotes = async (): Promise<DatabaseResult<Note[]>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results = await database.getAllAsync<NoteRow>(
+      `SELECT * FROM notes WHERE is_deleted = 1
+        ORDER BY COALESCE(deleted_at, updated_at) DESC`
+    );
+
+    return { success: true, data: results.map(toNote) };
+  } catch (error) {
+    console.error("❌ Failed to get deleted notes:", error);
+    const dbError: DatabaseError = {
+      code: "GET_DELETED_NOTES_ERROR",
+      message: "Failed to get deleted notes",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+const RESTORE_NOTE_SQL = `UPDATE notes SET
+    is_deleted = 0, deleted_at = NULL, updated_at = ?, ${BUMP_VERSION_SQL},
+    folder_id = CASE
+      WHEN folder_id IN (SELECT id FROM folders) THEN folder_id
+      ELSE NULL
+    END
+  WHERE id = ? AND is_deleted = 1`;
+
+// Restore a note from the trash. If its folder has since been deleted the
+// note is restored to the top level.
+export const restoreNote = async (
+  id: string
+): Promise<DatabaseResult<Note>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.runAsync(RESTORE_NOTE_SQL, [
+      new Date().toISOString(),
+      id,
+    ]);
+
+    if (result.changes === 0) {
+      return {
+        success: false,
+        error: { code: "NOTE_NOT_FOUND", message: "Note not found in trash" },
+      };
+    }
+
+    return await getNoteById(id);
+  } catch (error) {
+    console.error("❌ Failed to restore note:", error);
+    const dbError: DatabaseError = {
+      code: "RESTORE_NOTE_ERROR",
+      message: "Failed to restore note",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Permanently delete every note in the trash. Returns the number removed.
+export const emptyTrash = async (): Promise<DatabaseResult<number>> => {
+  try {
+    const removed = await runInTransaction((txn) =>
+      deleteNotesWhere(txn, "is_deleted = 1")
+    );
+    await deleteOrphanedAttachments(await ensureDatabase());
+    return { success: true, data: removed };
+  } catch (error) {
+    console.error("❌ Failed to empty trash:", error);
+    const dbError: DatabaseError = {
+      code: "EMPTY_TRASH_ERROR",
+      message: "Failed to empty trash",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+const noteNotFound = (message = "Note not found"): DatabaseError => ({
+  code: "NOTE_NOT_FOUND",
+  message,
+});
+
+// Apply a step to each note inside one transaction. A step returns an error
+// for notes it can't apply to, which is reported for that id while the rest
+// go ahead; anything thrown rolls back the whole batch.
+const runBulkOperation = (
+  ids: string[],
+  step: (
+    txn: SqlDatabase,
+    id: string,
+    now: string
+  ) => Promise<DatabaseError | null>
+): Promise<BulkNoteResult[]> =>
+  runInTransaction(async (txn) => {
+    const now = new Date().toISOString();
+    const results: BulkNoteResult[] = [];
+    for (const id of new Set(ids)) {
+      const error = await step(txn, id, now);
+      results.push(
+        error ? { id, success: false, error } : { id, success: true }
+      );
+    }
+    return results;
+  });
+
+// Move notes to the trash
+export const bulkDeleteNotes = async (
+  ids: string[]
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const results = await runBulkOperation(ids, async (txn, id, now) => {
+      const result = await txn.runAsync(
+        `UPDATE notes SET
+          is_deleted = 1, updated_at = ?, ${BUMP_VERSION_SQL},
+          deleted_at = CASE WHEN is_deleted = 1 THEN deleted_at ELSE ? END
+        WHERE id = ?`,
+        [now, now, id]
+      );
+      return result.changes === 0 ? noteNotFound() : null;
+    });
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to delete notes:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_DELETE_ERROR",
+      message: "Failed to delete notes",
+      details: { error: String(error), ids },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Restore notes from the trash
+export const bulkRestoreNotes = async (
+  ids: string[]
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const results = await runBulkOperation(ids, async (txn, id, now) => {
+      const result = await txn.runAsync(RESTORE_NOTE_SQL, [now, id]);
+      return result.changes === 0
+        ? noteNotFound("Note not found in trash")
+        : null;
+    });
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to restore notes:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_RESTORE_ERROR",
+      message: "Failed to restore notes",
+      details: { error: String(error), ids },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Move notes into a folder, or to the top level when folderId is null
+export const bulkMoveNotesToFolder = async (
+  ids: string[],
+  folderId: string | null
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    if (folderId !== null) {
+      const database = await ensureDatabase();
+      const folder = await database.getFirstAsync<{ id: string }>(
+        "SELECT id FROM folders WHERE id = ?",
+        [folderId]
+      );
+      if (!folder) {
+        return {
+          success: false,
+          error: { code: "FOLDER_NOT_FOUND", message: "Folder not found" },
+        };
+      }
+    }
+
+    const results = await runBulkOperation(ids, async (txn, id, now) => {
+      const result = await txn.runAsync(
+        `UPDATE notes SET folder_id = ?, updated_at = ?, ${BUMP_VERSION_SQL}
+          WHERE id = ?`,
+        [folderId, now, id]
+      );
+      return result.changes === 0 ? noteNotFound() : null;
+    });
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to move notes:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_MOVE_ERROR",
+      message: "Failed to move notes",
+      details: { error: String(error), ids, folderId },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Rewrite each note's tags with transform, keeping note_tags and the
+// denormalized tags column in step
+const bulkUpdateTags = (
+  ids: string[],
+  transform: (tags: string[]) => string[]
+): Promise<BulkNoteResult[]> =>
+  runBulkOperation(ids, async (txn, id, now) => {
+    const row = await txn.getFirstAsync<{ tags: string | null }>(
+      "SELECT tags FROM notes WHERE id = ?",
+      [id]
+    );
+    if (!row) {
+      return noteNotFound();
+    }
+
+    const tags = await setNoteTags(
+      txn,
+      id,
+      transform(row.tags ? JSON.parse(row.tags) : [])
+    );
+    await txn.runAsync(
+      `UPDATE notes SET tags = ?, updated_at = ?, ${BUMP_VERSION_SQL}
+        WHERE id = ?`,
+      [JSON.stringify(tags), now, id]
+    );
+    return null;
+  });
+
+// Add tags to notes, keeping the tags they already have
+export const bulkAddTags = async (
+  ids: string[],
+  tagNames: string[]
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const results = await bulkUpdateTags(ids, (tags) => [...tags, ...tagNames]);
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to add tags:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_ADD_TAGS_ERROR",
+      message: "Failed to add tags",
+      details: { error: String(error), ids, tagNames },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Remove tags from notes. Tag names match case-insensitively.
+export const bulkRemoveTags = async (
+  ids: string[],
+  tagNames: string[]
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const removed = new Set(
+      normalizeTagNames(tagNames).map((name) => name.toLowerCase())
+    );
+    const results = await bulkUpdateTags(ids, (tags) =>
+      tags.filter((tag) => !removed.has(tag.trim().toLowerCase()))
+    );
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to remove tags:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_REMOVE_TAGS_ERROR",
+      message: "Failed to remove tags",
+      details: { error: String(error), ids, tagNames },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Pin or unpin notes. Like setNotePinned, this leaves their modification
+// time and version alone.
+export const bulkSetPinned = async (
+  ids: string[],
+  isPinned: boolean
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const results = await runBulkOperation(ids, async (txn, id) => {
+      const result = await txn.runAsync(
+        "UPDATE notes SET is_pinned = ? WHERE id = ? AND is_deleted = 0",
+        [isPinned ? 1 : 0, id]
+      );
+      return result.changes === 0 ? noteNotFound() : null;
+    });
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to update pins:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_PIN_ERROR",
+      message: "Failed to update pins",
+      details: { error: String(error), ids, isPinned },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Permanently delete notes along with their history
+export const bulkPermanentlyDeleteNotes = async (
+  ids: string[]
+): Promise<DatabaseResult<BulkNoteResult[]>> => {
+  try {
+    const results = await runBulkOperation(ids, async (txn, id) => {
+      const removed = await deleteNotesWhere(txn, "id = ?", [id]);
+      return removed === 0 ? noteNotFound() : null;
+    });
+    await deleteOrphanedAttachments(await ensureDatabase());
+    return { success: true, data: results };
+  } catch (error) {
+    console.error("❌ Failed to permanently delete notes:", error);
+    const dbError: DatabaseError = {
+      code: "BULK_PERMANENT_DELETE_ERROR",
+      message: "Failed to permanently delete notes",
+      details: { error: String(error), ids },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Write one column that says how a note is shown rather than what it says.
+// The modification time and version are left alone, so the note keeps its
+// place in date order and a save in progress doesn't conflict with it. The
+// sync trigger still logs the change. Notes in the trash are not found.
+const setNoteColumn = async (
+  id: string,
+  column: string,
+  value: string | number | null
+): Promise<DatabaseResult<Note>> => {
+  const database = await ensureDatabase();
+  const result = await database.runAsync(
+    `UPDATE notes SET ${column} = ? WHERE id = ? AND is_deleted = 0`,
+    [value, id]
+  );
+  if (result.changes === 0) {
+    return { success: false, error: noteNotFound() };
+  }
+  return getNoteById(id);
+};
+
+// Pin or unpin a note
+export const setNotePinned = async (
+  id: string,
+  isPinned: boolean
+): Promise<DatabaseResult<Note>> => {
+  try {
+    return await setNoteColumn(id, "is_pinned", isPinned ? 1 : 0);
+  } catch (error) {
+    console.error("❌ Failed to update pin:", error);
+    const dbError: DatabaseError = {
+      code: "SET_PINNED_ERROR",
+      message: "Failed to update pin",
+      details: { error: String(error), id, isPinned },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Mark or unmark a note as a favorite
+export const setNoteFavorite = async (
+  id: string,
+  isFavorite: boolean
+): Promise<DatabaseResult<Note>> => {
+  try {
+    return await setNoteColumn(id, "is_favorite", isFavorite ? 1 : 0);
+  } catch (error) {
+    console.error("❌ Failed to update favorite:", error);
+    const dbError: DatabaseError = {
+      code: "SET_FAVORITE_ERROR",
+      message: "Failed to update favorite",
+      details: { error: String(error), id, isFavorite },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Set or clear (null) the date a note's reminder fires
+export const setNoteReminder = async (
+  id: string,
+  reminderAt: string | null
+): Promise<DatabaseResult<Note>> => {
+  try {
+    return await setNoteColumn(id, "reminder_at", reminderAt);
+  } catch (error) {
+    console.error("❌ Failed to update reminder:", error);
+    const dbError: DatabaseError = {
+      code: "SET_REMINDER_ERROR",
+      message: "Failed to update reminder",
+      details: { error: String(error), id, reminderAt },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Encrypt a note's title, content and plain text with a key derived from the
+// passphrase. Its revisions, outgoing links and shared editing history are
+// deleted, since they hold the same text in plaintext. Attachment files are
+// shared by content hash and stay unencrypted, which the lock dialog says.
+export const lockNote = async (
+  id: string,
+  passphrase: string
+): Promise<DatabaseResult<Note>> => {
+  try {
+    const key = await createNoteKey(passphrase);
+    const error = await runInTransaction(async (txn) => {
+      const row = await txn.getFirstAsync<NoteRow>(
+        "SELECT * FROM notes WHERE id = ? AND is_deleted = 0",
+        [id]
+      );
+      if (!row) {
+        return noteNotFound();
+      }
+      if (row.encrypted_payload != null) {
+        return {
+          code: "NOTE_ALREADY_LOCKED",
+          message: "Note is already locked",
+        };
+      }
+
+      const noteRow = transformNoteToNoteRow(
+        { ...transformNoteRowToNote(row), isLocked: true },
+        key
+      );
+      await txn.runAsync(
+        `UPDATE notes SET
+          title = '', content = '', plain_text = '', encrypted_payload = ?,
+          updated_at = ?, ${BUMP_VERSION_SQL}
+        WHERE id = ?`,
+        [noteRow.encrypted_payload!, new Date().toISOString(), id]
+      );
+      await txn.runAsync("DELETE FROM note_revisions WHERE note_id = ?", [id]);
+      await txn.runAsync("DELETE FROM note_links WHERE source_note_id = ?", [
+        id,
+      ]);
+      await txn.runAsync("DELETE FROM note_collab_updates WHERE note_id = ?", [
+        id,
+      ]);
+      return null;
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+    forgetNoteKey(id);
+    return await getNoteById(id);
+  } catch (error) {
+    console.error("❌ Failed to lock note:", error);
+    const dbError: DatabaseError = {
+      code: "LOCK_NOTE_ERROR",
+      message: "Failed to lock note",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Decrypt a locked note with its passphrase. The key is kept in memory so the
+// note reads and saves decrypted until relockNote.
+export const unlockNote = async (
+  id: string,
+  passphrase: string
+): Promise<DatabaseResult<Note>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const row = await database.getFirstAsync<NoteRow>(
+      "SELECT * FROM notes WHERE id = ? AND is_deleted = 0",
+      [id]
+    );
+    if (!row) {
+      return { success: false, error: noteNotFound() };
+    }
+    if (row.encrypted_payload == null) {
+      return {
+        success: false,
+        error: { code: "NOTE_NOT_LOCKED", message: "Note is not locked" },
+      };
+    }
+
+    const unlocked = await unlockNoteSecrets(row.encrypted_payload, passphrase);
+    if (!unlocked) {
+      return {
+        success: false,
+        error: { code: "WRONG_PASSPHRASE", message: "Wrong passphrase" },
+      };
+    }
+
+    rememberNoteKey(id, unlocked.noteKey);
+    return { success: true, data: toNote(row) };
+  } catch (error) {
+    console.error("❌ Failed to unlock note:", error);
+    const dbError: DatabaseError = {
+      code: "UNLOCK_NOTE_ERROR",
+      message: "Failed to unlock note",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Forget an unlocked note's key, so it reads as locked again
+export const relockNote = (id: string): void => {
+  forgetNoteKey(id);
+};
+
+export const isNoteUnlocked = (id: string): boolean =>
+  getNoteKey(id) !== undefined;
+
+// Store an unlocked note in plaintext again and drop its passphrase
+export const removeNoteLock = async (
+  id: string
+): Promise<DatabaseResult<Note>> => {
+  try {
+    const existingResult = await getNoteById(id);
+    if (!existingResult.success || !existingResult.data) {
+      return existingResult;
+    }
+    if (!existingResult.data.isLocked) {
+      return {
+        success: false,
+        error: { code: "NOTE_NOT_LOCKED", message: "Note is not locked" },
+      };
+    }
+    if (!getNoteKey(id)) {
+      return { success: false, error: noteLocked() };
+    }
+
+    const note: Note = {
+      ...existingResult.data,
+      isLocked: false,
+      lastModified: new Date().toISOString(),
+      metadata: {
+        ...existingResult.data.metadata,
+        version: (existingResult.data.metadata.version ?? 1) + 1,
+      },
+    };
+
+    await runInTransaction(async (txn) => {
+      await txn.runAsync(
+        `UPDATE notes SET
+          title = ?, content = ?, plain_text = ?, encrypted_payload = NULL,
+          updated_at = ?, metadata = ?
+        WHERE id = ?`,
+        [
+          note.title,
+          note.content,
+          note.plainText,
+          note.lastModified,
+          JSON.stringify(note.metadata),
+          id,
+        ]
+      );
+      await setNoteLinks(txn, id, note.content);
+      await recordRevision(txn, note, true);
+    });
+
+    forgetNoteKey(id);
+    return { success: true, data: note };
+  } catch (error) {
+    console.error("❌ Failed to remove note lock:", error);
+    const dbError: DatabaseError = {
+      code: "REMOVE_NOTE_LOCK_ERROR",
+      message: "Failed to remove note lock",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
@@ -0,0 +1,130 @@
+import { ensureDatabase } from "../connection";
+import { getDatabaseDriver, SqlDatabase } from "../driver";
+import { DatabaseError, DatabaseResult, Note } from "../models/Note";
+import {
+  NoteRevision,
+  NoteRevisionRow,
+  NoteRevisionSummary,
+  transformRevisionRowToRevision,
+  transformRevisionRowToSummary,
+} from "../models/NoteRevision";
+
+// Saves within this window of a revision's start are folded into it, so a
+// burst of debounced auto-saves produces one revision rather than dozens
+export const REVISION_COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+// Snapshot a note's current state. Must run inside the caller's transaction.
+export const recordRevision = async (
+  txn: SqlDatabase,
+  note: Note,
+  startNewRevision = false
+): Promise<void> => {
+  const now = new Date();
+
+  const latest = await txn.getFirstAsync<{ id: string; created_at: string }>(
+    `SELECT id, created_at FROM note_revisions
+      WHERE note_id = ? ORDER BY created_at DESC LIMIT 1`,
+    [note.id]
+  );
+
+  const canCoalesce =
+    !startNewRevision &&
+    latest !== null &&
+    now.getTime() - new Date(latest.created_at).getTime() <
+      REVISION_COALESCE_WINDOW_MS;
+
+  if (latest && canCoalesce) {
+    await txn.runAsync(
+      `UPDATE note_revisions SET
+        title = ?, content = ?, plain_text = ?, word_count = ?,
+        version = ?, updated_at = ?
+      WHERE id = ?`,
+      [
+        note.title,
+        note.content,
+        note.plainText,
+        note.wordCount,
+        note.metadata.version,
+        now.toISOString(),
+        latest.id,
+      ]
+    );
+    return;
+  }
+
+  await txn.runAsync(
+    `INSERT INTO note_revisions (
+      id, note_id, title, content, plain_text, word_count, version,
+      created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      getDatabaseDriver().randomUUID(),
+      note.id,
+      note.title,
+      note.content,
+      note.plainText,
+      note.wordCount,
+      note.metadata.version,
+      now.toISOString(),
+      now.toISOString(),
+    ]
+  );
+};
+
+// List a note's revisions, newest first
+export const getNoteRevisions = async (
+  noteId: string
+): Promise<DatabaseResult<NoteRevisionSummary[]>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results = await database.getAllAsync<NoteRevisionRow>(
+      `SELECT id, note_id, title, plain_text, word_count, version,
+        created_at, updated_at
+      FROM note_revisions WHERE note_id = ?
+      ORDER BY created_at DESC`,
+      [noteId]
+    );
+
+    return { success: true, data: results.map(transformRevisionRowToSummary) };
+  } catch (error) {
+    console.error("❌ Failed to get note revisions:", error);
+    const dbError: DatabaseError = {
+      code: "GET_REVISIONS_ERROR",
+      message: "Failed to get note revisions",
+      details: { error: String(error), noteId },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Get a single revision including its content
+export const getNoteRevisionById = async (
+  id: string
+): Promise<DatabaseResult<NoteRevision>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.getFirstAsync<NoteRevisionRow>(
+      "SELECT * FROM note_revisions WHERE id = ?",
+      [id]
+    );
+
+    if (!result) {
+      return {
+        success: false,
+        error: { code: "REVISION_NOT_FOUND", message: "Revision not found" },
+      };
+    }
+
+    return { success: true, data: transformRevisionRowToRevision(result) };
+  } catch (error) {
+    console.error("❌ Failed to get note revision:", error);
+    const dbError: DatabaseError = {
+      code: "GET_REVISION_ERROR",
+      message: "Failed to get note revision",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
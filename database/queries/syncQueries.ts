@@ -0,0 +1,652 @@
+import { ensureDatabase, runInTransaction } from "../connection";
+import { getDatabaseDriver, SqlDatabase } from "../driver";
+import { deleteOrphanedAttachments, linkNoteAttachments } from "../attachments";
+import { forgetNoteKey } from "../encryption";
+import {
+  DatabaseError,
+  DatabaseResult,
+  NoteRow,
+  transformNoteRowToNote,
+} from "../models/Note";
+import {
+  PendingSyncChange,
+  PushedSyncChange,
+  SyncApplyReport,
+  SyncEntity,
+  SyncRecord,
+  SyncRecordData,
+  SyncStatus,
+} from "../models/Sync";
+import { deleteNotesWhere } from "../trash";
+import { setNoteLinks } from "./linkQueries";
+import { recordRevision } from "./revisionQueries";
+import { normalizeTagNames, setNoteTags } from "./tagQueries";
+
+const ENTITY_TABLES: Record<SyncEntity, { table: string; key: string }> = {
+  attachment: { table: "attachments", key: "hash" },
+  folder: { table: "folders", key: "id" },
+  note: { table: "notes", key: "id" },
+};
+
+// Push order: attachments, then folders, then notes
+const ENTITY_ORDER = `CASE entity
+  WHEN 'attachment' THEN 0 WHEN 'folder' THEN 1 ELSE 2 END`;
+
+const CONFLICTED_COPY_SUFFIX = " (conflicted copy)";
+
+const getState = async (db: SqlDatabase, key: string): Promise<string | null> =>
+  (
+    await db.getFirstAsync<{ value: string }>(
+      "SELECT value FROM sync_state WHERE key = ?",
+      [key]
+    )
+  )?.value ?? null;
+
+const setState = async (
+  db: SqlDatabase,
+  key: string,
+  value: string
+): Promise<void> => {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)",
+    [key, value]
+  );
+};
+
+const getSyncedVersion = async (
+  db: SqlDatabase,
+  entity: SyncEntity,
+  id: string
+): Promise<number | null> =>
+  (
+    await db.getFirstAsync<{ version: number }>(
+      "SELECT version FROM sync_versions WHERE entity = ? AND entity_id = ?",
+      [entity, id]
+    )
+  )?.version ?? null;
+
+// The record as it was at the version last synced, if known
+const getSyncedData = async (
+  db: SqlDatabase,
+  entity: SyncEntity,
+  id: string
+): Promise<SyncRecordData | null> => {
+  const row = await db.getFirstAsync<{ data: string | null }>(
+    "SELECT data FROM sync_versions WHERE entity = ? AND entity_id = ?",
+    [entity, id]
+  );
+  return row?.data ? JSON.parse(row.data) : null;
+};
+
+// Attachments never change, so only notes and folders keep their data
+const setSyncedVersion = async (
+  txn: SqlDatabase,
+  entity: SyncEntity,
+  id: string,
+  version: number,
+  data: SyncRecordData | null
+): Promise<void> => {
+  await txn.runAsync(
+    `INSERT OR REPLACE INTO sync_versions (entity, entity_id, version, data)
+      VALUES (?, ?, ?, ?)`,
+    [
+      entity,
+      id,
+      version,
+      data && entity !== "attachment" ? JSON.stringify(data) : null,
+    ]
+  );
+};
+
+// Forget logged changes to a record, e.g. once the remote copy replaced it
+const clearChanges = async (
+  txn: SqlDatabase,
+  entity: SyncEntity,
+  id: string
+): Promise<void> => {
+  await txn.runAsync("DELETE FROM changes WHERE entity = ? AND entity_id = ?", [
+    entity,
+    id,
+  ]);
+};
+
+const getRow = (
+  db: SqlDatabase,
+  entity: SyncEntity,
+  id: string
+): Promise<SyncRecordData | null> => {
+  const { table, key } = ENTITY_TABLES[entity];
+  return db.getFirstAsync<SyncRecordData>(
+    `SELECT * FROM ${table} WHERE ${key} = ?`,
+    [id]
+  );
+};
+
+// Insert a row or overwrite the columns it has, skipping columns the local
+// schema lacks so a newer app version can sync with an older one
+const upsertRow = async (
+  txn: SqlDatabase,
+  entity: SyncEntity,
+  data: SyncRecordData
+): Promise<void> => {
+  const { table, key } = ENTITY_TABLES[entity];
+  const info = await txn.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`
+  );
+  const columns = new Set(info.map((column) => column.name));
+  const names = Object.keys(data).filter((name) => columns.has(name));
+  const updates = names
+    .filter((name) => name !== key)
+    .map((name) => `${name} = excluded.${name}`);
+
+  await txn.runAsync(
+    `INSERT INTO ${table} (${names.join(", ")})
+      VALUES (${names.map(() => "?").join(", ")})
+      ON CONFLICT(${key}) DO ${
+        updates.length > 0 ? `UPDATE SET ${updates.join(", ")}` : "NOTHING"
+      }`,
+    names.map((name) => data[name])
+  );
+};
+
+const noteVersion = (metadata: unknown): number => {
+  try {
+    return JSON.parse(String(metadata)).version ?? 1;
+  } catch {
+    return 1;
+  }
+};
+
+// Store a note's row and rebuild what is derived from it. The local version
+// moves past both copies, so an editor still holding the old note gets a
+// VERSION_CONFLICT on its next save rather than overwriting this one.
+const writeNote = async (
+  txn: SqlDatabase,
+  data: SyncRecordData,
+  local: SyncRecordData | null
+): Promise<void> => {
+  const id = String(data.id);
+  let metadata: Record<string, unknown> = {};
+  try {
+    metadata = JSON.parse(String(data.metadata ?? "{}"));
+  } catch {
+    // Rebuilt from the version below
+  }
+  metadata.version =
+    Math.max(
+      noteVersion(data.metadata),
+      local ? noteVersion(local.metadata) : 0
+    ) + 1;
+  await upsertRow(txn, "note", { ...data, metadata: JSON.stringify(metadata) });
+
+  let tagNames: string[] = [];
+  try {
+    tagNames = JSON.parse(String(data.tags ?? "[]"));
+  } catch {
+    // Treated as untagged
+  }
+  const storedTags = await setNoteTags(txn, id, normalizeTagNames(tagNames));
+  await txn.runAsync("UPDATE notes SET tags = ? WHERE id = ?", [
+    JSON.stringify(storedTags),
+    id,
+  ]);
+
+  const row = await txn.getFirstAsync<NoteRow>(
+    "SELECT * FROM notes WHERE id = ?",
+    [id]
+  );
+  if (!row) {
+    return;
+  }
+  await linkNoteAttachments(txn, id, row.content);
+  // A key cached for the old copy may not open this one
+  forgetNoteKey(id);
+  if (row.encrypted_payload != null) {
+    // Locked notes keep no links or history, which would be in plaintext
+    await txn.runAsync("DELETE FROM note_links WHERE source_note_id = ?", [id]);
+    await txn.runAsync("DELETE FROM note_collab_updates WHERE note_id = ?", [
+      id,
+    ]);
+    return;
+  }
+  await setNoteLinks(txn, id, row.content);
+  if (!local || local.title !== row.title || local.content !== row.content) {
+    await recordRevision(txn, transformNoteRowToNote(row));
+  }
+};
+
+// Move what is still inside a deleted folder to the top level. The device
+// that deleted it moved everything it knew about and pushes those changes
+// itself, so only rows with unpushed local changes stay in the log.
+const detachFromFolder = async (
+  txn: SqlDatabase,
+  entity: "note" | "folder",
+  column: string,
+  folderId: string
+): Promise<void> => {
+  const { table } = ENTITY_TABLES[entity];
+  const synced = await txn.getAllAsync<{ id: string }>(
+    `SELECT id FROM ${table} WHERE ${column} = ? AND id NOT IN (
+      SELECT entity_id FROM changes WHERE entity = ?
+    )`,
+    [folderId, entity]
+  );
+  await txn.runAsync(
+    `UPDATE ${table} SET ${column} = NULL WHERE ${column} = ?`,
+    [folderId]
+  );
+  for (const { id } of synced) {
+    await clearChanges(txn, entity, id);
+  }
+};
+
+// Make a record match the server's copy
+const applyRemote = async (
+  txn: SqlDatabase,
+  record: SyncRecord,
+  local: SyncRecordData | null
+): Promise<void> => {
+  if (record.entity === "attachment") {
+    if (record.data) {
+      const { hash, mime_type, byte_size, created_at } = record.data;
+      await txn.runAsync(
+        `INSERT OR IGNORE INTO attachments (hash, mime_type, byte_size, created_at)
+          VALUES (?, ?, ?, ?)`,
+        [hash, mime_type, byte_size, created_at]
+      );
+    }
+  } else if (record.entity === "folder") {
+    if (record.data) {
+      await upsertRow(txn, "folder", record.data);
+    } else {
+      await detachFromFolder(txn, "note", "folder_id", record.id);
+      await detachFromFolder(txn, "folder", "parent_id", record.id);
+      await txn.runAsync("DELETE FROM folders WHERE id = ?", [record.id]);
+    }
+  } else if (record.data) {
+    await writeNote(txn, record.data, local);
+  } else {
+    await deleteNotesWhere(txn, "id = ?", [record.id]);
+    forgetNoteKey(record.id);
+  }
+
+  await clearChanges(txn, record.entity, record.id);
+  await setSyncedVersion(
+    txn,
+    record.entity,
+    record.id,
+    record.version,
+    record.data
+  );
+};
+
+// Keep the local copy of a note that lost a conflict as a new note, so
+// neither side's edits are lost. Locked notes keep their title, which is
+// encrypted. Returns the copy's id.
+const saveConflictedCopy = async (
+  txn: SqlDatabase,
+  local: SyncRecordData
+): Promise<string> => {
+  const isLocked = local.encrypted_payload != null;
+  const id = getDatabaseDriver().randomUUID();
+  await writeNote(
+    txn,
+    {
+      ...local,
+      id,
+      title: isLocked
+        ? local.title
+        : `${local.title ?? "Untitled Note"}${CONFLICTED_COPY_SUFFIX}`,
+    },
+    null
+  );
+  return id;
+};
+
+const isSameNoteText = (a: SyncRecordData, b: SyncRecordData): boolean =>
+  a.title === b.title &&
+  a.content === b.content &&
+  a.encrypted_payload === b.encrypted_payload;
+
+// Columns merged together when a record changed on two devices. Each group
+// is taken whole from the side that changed it, so a note's text keeps the
+// columns computed from it and a trashed note its deletion time.
+const NOTE_TEXT_COLUMNS = [
+  "title",
+  "content",
+  "encrypted_payload",
+  "plain_text",
+  "word_count",
+  "reading_time",
+  "metadata",
+];
+const MERGED_COLUMNS: Record<"note" | "folder", string[][]> = {
+  note: [
+    NOTE_TEXT_COLUMNS,
+    ["is_deleted", "deleted_at"],
+    ["folder_id"],
+    ["tags"],
+    ["is_pinned"],
+    ["is_favorite"],
+    ["reminder_at"],
+  ],
+  folder: [["name"], ["parent_id"], ["sort_order"], ["color"]],
+};
+
+// Three-way merge of a record against the copy both sides last synced. A
+// group changed on one side only takes that side's value; changed on both,
+// the remote value wins, as other devices already have it. Text changed on
+// both sides is reported instead, for the caller to keep the local text as
+// a copy.
+const mergeRecord = (
+  entity: "note" | "folder",
+  base: SyncRecordData,
+  local: SyncRecordData,
+  remote: SyncRecordData
+): { merged: SyncRecordData; textDiverged: boolean } => {
+  const merged = { ...remote };
+  let textDiverged = false;
+  for (const columns of MERGED_COLUMNS[entity]) {
+    const differs = (a: SyncRecordData, b: SyncRecordData) =>
+      columns === NOTE_TEXT_COLUMNS
+        ? !isSameNoteText(a, b)
+        : columns.some((column) => (a[column] ?? null) !== (b[column] ?? null));
+    if (!differs(local, base) || !differs(local, remote)) {
+      continue;
+    }
+    if (!differs(remote, base)) {
+      for (const column of columns) {
+        if (column in local) {
+          merged[column] = local[column];
+        }
+      }
+    } else if (columns === NOTE_TEXT_COLUMNS) {
+      textDiverged = true;
+    }
+  }
+  if (String(local.updated_at) > String(remote.updated_at)) {
+    merged.updated_at = local.updated_at;
+  }
+  return { merged, textDiverged };
+};
+
+const isSameRecord = (
+  entity: "note" | "folder",
+  a: SyncRecordData,
+  b: SyncRecordData
+): boolean =>
+  MERGED_COLUMNS[entity].every((columns) =>
+    columns.every((column) => (a[column] ?? null) === (b[column] ?? null))
+  );
+
+// Settle a remote change to a record that also has unpushed local changes.
+// A delete never beats an edit, since the edit was made without seeing it.
+// Otherwise the two copies are merged column by column against the copy
+// last synced, and note text changed on both sides is kept on both by
+// saving the local note as a copy. A merged copy that differs from the
+// remote one is pushed over it on the next push. A record with no synced
+// copy, created on both devices, falls back to the copy modified last.
+const resolveConflict = async (
+  txn: SqlDatabase,
+  record: SyncRecord,
+  local: SyncRecordData | null,
+  report: SyncApplyReport
+): Promise<void> => {
+  const keepLocal = async () =>
+    setSyncedVersion(
+      txn,
+      record.entity,
+      record.id,
+      record.version,
+      record.data
+    );
+  const base = await getSyncedData(txn, record.entity, record.id);
+
+  if (record.entity === "attachment") {
+    await applyRemote(txn, record, local);
+  } else if (!record.data) {
+    if (local) {
+      await keepLocal();
+    } else {
+      await applyRemote(txn, record, local);
+    }
+  } else if (!local) {
+    await applyRemote(txn, record, local);
+  } else if (base) {
+    const { merged, textDiverged } = mergeRecord(
+      record.entity,
+      base,
+      local,
+      record.data
+    );
+    if (textDiverged) {
+      report.changedNoteIds.push(await saveConflictedCopy(txn, local));
+      report.conflictedCopies++;
+    }
+    if (isSameRecord(record.entity, merged, record.data)) {
+      await applyRemote(txn, record, local);
+    } else {
+      if (record.entity === "note") {
+        await writeNote(txn, merged, local);
+      } else {
+        await upsertRow(txn, "folder", merged);
+      }
+      await keepLocal();
+    }
+  } else if (record.entity === "note" && !isSameNoteText(record.data, local)) {
+    report.changedNoteIds.push(await saveConflictedCopy(txn, local));
+    await applyRemote(txn, record, local);
+    report.conflictedCopies++;
+  } else if (String(record.data.updated_at) > String(local.updated_at)) {
+    await applyRemote(txn, record, local);
+  } else {
+    await keepLocal();
+  }
+};
+
+// Device id, pull cursor and the number of records waiting to be pushed.
+// The device id is created on first use.
+export const getSyncStatus = async (): Promise<DatabaseResult<SyncStatus>> => {
+  try {
+    const database = await ensureDatabase();
+    let deviceId = await getState(database, "device_id");
+    if (!deviceId) {
+      deviceId = getDatabaseDriver().randomUUID();
+      await setState(database, "device_id", deviceId);
+    }
+    const pending = await database.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM (
+        SELECT 1 FROM changes GROUP BY entity, entity_id
+      )`
+    );
+
+    return {
+      success: true,
+      data: {
+        deviceId,
+        cursor: Number((await getState(database, "cursor")) ?? 0),
+        pendingChanges: pending?.count ?? 0,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Failed to get sync status:", error);
+    const dbError: DatabaseError = {
+      code: "GET_SYNC_STATUS_ERROR",
+      message: "Failed to get sync status",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Read the current state of up to limit records with logged changes. A
+// record whose row is gone is offered as a delete (a tombstone).
+export const getPendingSyncChanges = async (
+  limit: number
+): Promise<DatabaseResult<PendingSyncChange[]>> => {
+  try {
+    const database = await ensureDatabase();
+    const { attachmentFiles } = getDatabaseDriver();
+    const pending = await database.getAllAsync<{
+      entity: SyncEntity;
+      entity_id: string;
+      seq: number;
+    }>(
+      `SELECT entity, entity_id, MAX(seq) AS seq FROM changes
+        GROUP BY entity, entity_id
+        ORDER BY ${ENTITY_ORDER}, MIN(seq)
+        LIMIT ?`,
+      [limit]
+    );
+
+    const changes: PendingSyncChange[] = [];
+    for (const { entity, entity_id: id, seq } of pending) {
+      let data = await getRow(database, entity, id);
+      if (data && entity === "attachment") {
+        if (!(await attachmentFiles.exists(id))) {
+          // Nothing to upload; the file was cleaned up as unused
+          console.warn("⚠️ Attachment file missing, not syncing:", id);
+          await clearChanges(database, entity, id);
+          continue;
+        }
+        data = { ...data, file_data: await attachmentFiles.readBase64(id) };
+      }
+
+      changes.push({
+        entity,
+        id,
+        baseVersion: await getSyncedVersion(database, entity, id),
+        deleted: data === null,
+        data,
+        seq,
+      });
+    }
+
+    return { success: true, data: changes };
+  } catch (error) {
+    console.error("❌ Failed to get pending sync changes:", error);
+    const dbError: DatabaseError = {
+      code: "GET_PENDING_SYNC_CHANGES_ERROR",
+      message: "Failed to get pending sync changes",
+      details: { error: String(error), limit },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Record the versions the server accepted and drop the log entries the push
+// covered. Entries logged after the push was read stay pending.
+export const markSyncChangesPushed = async (
+  pushed: PushedSyncChange[]
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    await runInTransaction(async (txn) => {
+      for (const { entity, id, seq, version, data } of pushed) {
+        await setSyncedVersion(txn, entity, id, version, data);
+        await txn.runAsync(
+          "DELETE FROM changes WHERE entity = ? AND entity_id = ? AND seq <= ?",
+          [entity, id, seq]
+        );
+      }
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to mark sync changes pushed:", error);
+    const dbError: DatabaseError = {
+      code: "MARK_SYNC_CHANGES_PUSHED_ERROR",
+      message: "Failed to mark sync changes pushed",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Apply a page of pulled records and advance the cursor past it, in one
+// transaction. Records at or below the version already synced, such as this
+// device's own pushes coming back, are skipped.
+export const applySyncRecords = async (
+  records: SyncRecord[],
+  cursor: number
+): Promise<DatabaseResult<SyncApplyReport>> => {
+  try {
+    const { attachmentFiles } = getDatabaseDriver();
+    const report: SyncApplyReport = {
+      applied: 0,
+      skipped: 0,
+      conflicts: 0,
+      conflictedCopies: 0,
+      changedNoteIds: [],
+    };
+
+    // Files are content-addressed, so writing them first is harmless even
+    // if the transaction is rolled back
+    for (const record of records) {
+      const fileData = record.data?.file_data;
+      if (
+        record.entity === "attachment" &&
+        typeof fileData === "string" &&
+        !(await attachmentFiles.exists(record.id))
+      ) {
+        await attachmentFiles.writeBase64(record.id, fileData);
+      }
+    }
+
+    let hasDeletedNotes = false;
+    await runInTransaction(async (txn) => {
+      for (const record of records) {
+        const syncedVersion = await getSyncedVersion(
+          txn,
+          record.entity,
+          record.id
+        );
+        if (syncedVersion !== null && record.version <= syncedVersion) {
+          report.skipped++;
+          continue;
+        }
+
+        if (record.entity === "note") {
+          report.changedNoteIds.push(record.id);
+        } else if (record.entity === "folder" && record.deleted) {
+          // Its notes move to the top level
+          const moved = await txn.getAllAsync<{ id: string }>(
+            "SELECT id FROM notes WHERE folder_id = ?",
+            [record.id]
+          );
+          report.changedNoteIds.push(...moved.map((note) => note.id));
+        }
+
+        const local = await getRow(txn, record.entity, record.id);
+        const hasLocalChanges = await txn.getFirstAsync<{ seq: number }>(
+          "SELECT seq FROM changes WHERE entity = ? AND entity_id = ? LIMIT 1",
+          [record.entity, record.id]
+        );
+        if (hasLocalChanges) {
+          report.conflicts++;
+          await resolveConflict(txn, record, local, report);
+        } else {
+          await applyRemote(txn, record, local);
+        }
+        if (record.entity === "note" && record.deleted) {
+          hasDeletedNotes = true;
+        }
+        report.applied++;
+      }
+      await setState(txn, "cursor", String(cursor));
+    });
+
+    if (hasDeletedNotes) {
+      await deleteOrphanedAttachments(await ensureDatabase());
+    }
+
+    return { success: true, data: report };
+  } catch (error) {
+    console.error("❌ Failed to apply sync records:", error);
+    const dbError: DatabaseError = {
+      code: "APPLY_SYNC_RECORDS_ERROR",
+      message: "Failed to apply sync records",
+      details: { error: String(error), cursor },
+    };
+    return { success: false, error: dbError };
+  }
+};
@@ -0,0 +1,284 @@
+import { ensureDatabase, runInTransaction } from "../connection";
+import { getDatabaseDriver, SqlDatabase } from "../driver";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+import {
+  TagRow,
+  TagWithCount,
+  transformTagRowToTagWithCount,
+} from "../models/Tag";
+
+// Trim tag names and drop empty and case-insensitive duplicates, and values
+// that aren't strings (possible in tags JSON written by older versions)
+export const normalizeTagNames = (names: unknown[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const name of names) {
+    if (typeof name !== "string") {
+      continue;
+    }
+    const trimmed = name.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  }
+
+  return result;
+};
+
+const placeholders = (count: number): string =>
+  Array.from({ length: count }, () => "?").join(", ");
+
+// Replace a note's tag links, creating tags as needed. Must run inside the
+// caller's transaction. Returns the tag names as stored, so an existing tag's
+// casing wins over what the user typed.
+export const setNoteTags = async (
+  txn: SqlDatabase,
+  noteId: string,
+  names: string[]
+): Promise<string[]> => {
+  const tagNames = normalizeTagNames(names);
+  const now = new Date().toISOString();
+
+  await txn.runAsync("DELETE FROM note_tags WHERE note_id = ?", [noteId]);
+
+  const storedNames: string[] = [];
+  for (const name of tagNames) {
+    await txn.runAsync(
+      "INSERT OR IGNORE INTO tags (id, name, created_at) VALUES (?, ?, ?)",
+      [getDatabaseDriver().randomUUID(), name, now]
+    );
+    const tag = await txn.getFirstAsync<TagRow>(
+      "SELECT * FROM tags WHERE name = ?",
+      [name]
+    );
+    if (tag) {
+      await txn.runAsync(
+        "INSERT OR IGNORE INTO note_tags (note_id, tag_id) VALUES (?, ?)",
+        [noteId, tag.id]
+      );
+      storedNames.push(tag.name);
+    }
+  }
+
+  return storedNames;
+};
+
+// Rewrite the denormalized notes.tags column for notes linked to the given tags
+const rewriteNoteTagsJson = async (
+  txn: SqlDatabase,
+  tagIds: string[],
+  transform: (tags: string[]) => string[]
+): Promise<void> => {
+  const rows = await txn.getAllAsync<{ id: string; tags: string | null }>(
+    `SELECT id, tags FROM notes WHERE id IN (
+      SELECT note_id FROM note_tags WHERE tag_id IN (${placeholders(tagIds.length)})
+    )`,
+    tagIds
+  );
+
+  for (const row of rows) {
+    let current: string[] = [];
+    try {
+      const parsed: unknown = row.tags ? JSON.parse(row.tags) : [];
+      current = normalizeTagNames(Array.isArray(parsed) ? parsed : []);
+    } catch {
+      current = [];
+    }
+    const updated = normalizeTagNames(transform(current));
+    await txn.runAsync("UPDATE notes SET tags = ? WHERE id = ?", [
+      JSON.stringify(updated),
+      row.id,
+    ]);
+  }
+};
+
+const getTagRow = async (
+  database: SqlDatabase,
+  id: string
+): Promise<TagRow | null> =>
+  database.getFirstAsync<TagRow>("SELECT * FROM tags WHERE id = ?", [id]);
+
+const tagNotFound = (): DatabaseResult<never> => ({
+  success: false,
+  error: { code: "TAG_NOT_FOUND", message: "Tag not found" },
+});
+
+// List all tags with the number of notes using each one
+export const getTagsWithCounts = async (): Promise<
+  DatabaseResult<TagWithCount[]>
+> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results = await database.getAllAsync<TagRow>(
+      `SELECT tags.*, COUNT(notes.id) AS note_count
+        FROM tags
+        LEFT JOIN note_tags ON note_tags.tag_id = tags.id
+        LEFT JOIN notes ON notes.id = note_tags.note_id AND notes.is_deleted = 0
+        GROUP BY tags.id
+        ORDER BY tags.name ASC`
+    );
+
+    return { success: true, data: results.map(transformTagRowToTagWithCount) };
+  } catch (error) {
+    console.error("❌ Failed to get tags:", error);
+    const dbError: DatabaseError = {
+      code: "GET_TAGS_ERROR",
+      message: "Failed to get tags",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Rename a tag across every note that uses it
+export const renameTag = async (
+  id: string,
+  newName: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const database = await ensureDatabase();
+    const name = newName.trim();
+    if (!name) {
+      return {
+        success: false,
+        error: { code: "INVALID_TAG_NAME", message: "Tag name is required" },
+      };
+    }
+
+    const tag = await getTagRow(database, id);
+    if (!tag) {
+      return tagNotFound();
+    }
+
+    // Renaming onto another existing tag is a merge, not a rename
+    const conflict = await database.getFirstAsync<TagRow>(
+      "SELECT * FROM tags WHERE name = ? AND id != ?",
+      [name, id]
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: {
+          code: "TAG_NAME_CONFLICT",
+          message: `A tag named "${conflict.name}" already exists`,
+          details: { conflictingTagId: conflict.id },
+        },
+      };
+    }
+
+    const oldKey = tag.name.toLowerCase();
+    await runInTransaction(async (txn) => {
+      await txn.runAsync("UPDATE tags SET name = ? WHERE id = ?", [name, id]);
+      await rewriteNoteTagsJson(txn, [id], (tags) =>
+        tags.map((t) => (t.trim().toLowerCase() === oldKey ? name : t))
+      );
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to rename tag:", error);
+    const dbError: DatabaseError = {
+      code: "RENAME_TAG_ERROR",
+      message: "Failed to rename tag",
+      details: { error: String(error), id, newName },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Merge one or more tags into a target tag, then delete the sources
+export const mergeTags = async (
+  sourceIds: string[],
+  targetId: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const target = await getTagRow(database, targetId);
+    if (!target) {
+      return tagNotFound();
+    }
+
+    const ids = sourceIds.filter((sourceId) => sourceId !== targetId);
+    if (ids.length === 0) {
+      return { success: true, data: true };
+    }
+
+    const sources = await database.getAllAsync<TagRow>(
+      `SELECT * FROM tags WHERE id IN (${placeholders(ids.length)})`,
+      ids
+    );
+    if (sources.length !== ids.length) {
+      return tagNotFound();
+    }
+    const sourceKeys = new Set(sources.map((s) => s.name.toLowerCase()));
+
+    await runInTransaction(async (txn) => {
+      await rewriteNoteTagsJson(txn, ids, (tags) =>
+        tags.map((t) =>
+          sourceKeys.has(t.trim().toLowerCase()) ? target.name : t
+        )
+      );
+      await txn.runAsync(
+        `INSERT OR IGNORE INTO note_tags (note_id, tag_id)
+          SELECT note_id, ? FROM note_tags WHERE tag_id IN (${placeholders(ids.length)})`,
+        [targetId, ...ids]
+      );
+      await txn.runAsync(
+        `DELETE FROM note_tags WHERE tag_id IN (${placeholders(ids.length)})`,
+        ids
+      );
+      await txn.runAsync(
+        `DELETE FROM tags WHERE id IN (${placeholders(ids.length)})`,
+        ids
+      );
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to merge tags:", error);
+    const dbError: DatabaseError = {
+      code: "MERGE_TAGS_ERROR",
+      message: "Failed to merge tags",
+      details: { error: String(error), sourceIds, targetId },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Delete a tag and remove it from every note
+export const deleteTag = async (
+  id: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const tag = await getTagRow(database, id);
+    if (!tag) {
+      return tagNotFound();
+    }
+
+    const key = tag.name.toLowerCase();
+    await runInTransaction(async (txn) => {
+      await rewriteNoteTagsJson(txn, [id], (tags) =>
+        tags.filter((t) => t.trim().toLowerCase() !== key)
+      );
+      await txn.runAsync("DELETE FROM note_tags WHERE tag_id = ?", [id]);
+      await txn.runAsync("DELETE FROM tags WHERE id = ?", [id]);
+    });
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to delete tag:", error);
+    const dbError: DatabaseError = {
+      code: "DELETE_TAG_ERROR",
+      message: "Failed to delete tag",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
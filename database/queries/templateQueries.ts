@@ -0,0 +1,216 @@
+import { ensureDatabase } from "../connection";
+import { getDatabaseDriver } from "../driver";
+import { DatabaseError, DatabaseResult } from "../models/Note";
+import {
+  CreateTemplateParams,
+  NoteTemplate,
+  NoteTemplateRow,
+  transformTemplateRowToTemplate,
+  UpdateTemplateParams,
+} from "../models/Template";
+import { normalizeTagNames } from "./tagQueries";
+
+const invalidName = (): DatabaseResult<never> => ({
+  success: false,
+  error: {
+    code: "INVALID_TEMPLATE_NAME",
+    message: "Template name is required",
+  },
+});
+
+const templateNotFound = (): DatabaseResult<never> => ({
+  success: false,
+  error: { code: "TEMPLATE_NOT_FOUND", message: "Template not found" },
+});
+
+// Create a new template
+export const createTemplate = async (
+  params: CreateTemplateParams
+): Promise<DatabaseResult<NoteTemplate>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const name = params.name.trim();
+    if (!name) {
+      return invalidName();
+    }
+
+    const now = new Date().toISOString();
+    const template: NoteTemplate = {
+      id: getDatabaseDriver().randomUUID(),
+      name,
+      titlePattern: params.titlePattern ?? "",
+      content: params.content ?? "<p></p>",
+      tags: normalizeTagNames(params.tags ?? []),
+      folderId: params.folderId ?? null,
+      dateCreated: now,
+      lastModified: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO templates (
+        id, name, title_pattern, content, tags, folder_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.name,
+        template.titlePattern,
+        template.content,
+        JSON.stringify(template.tags),
+        template.folderId,
+        template.dateCreated,
+        template.lastModified,
+      ]
+    );
+
+    return { success: true, data: template };
+  } catch (error) {
+    console.error("❌ Failed to create template:", error);
+    const dbError: DatabaseError = {
+      code: "CREATE_TEMPLATE_ERROR",
+      message: "Failed to create template",
+      details: { error: String(error), params },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Get template by ID
+export const getTemplateById = async (
+  id: string
+): Promise<DatabaseResult<NoteTemplate>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.getFirstAsync<NoteTemplateRow>(
+      "SELECT * FROM templates WHERE id = ?",
+      [id]
+    );
+
+    if (!result) {
+      return templateNotFound();
+    }
+
+    return { success: true, data: transformTemplateRowToTemplate(result) };
+  } catch (error) {
+    console.error("❌ Failed to get template:", error);
+    const dbError: DatabaseError = {
+      code: "GET_TEMPLATE_ERROR",
+      message: "Failed to get template",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// List every template by name
+export const getTemplates = async (): Promise<
+  DatabaseResult<NoteTemplate[]>
+> => {
+  try {
+    const database = await ensureDatabase();
+
+    const results = await database.getAllAsync<NoteTemplateRow>(
+      "SELECT * FROM templates ORDER BY name COLLATE NOCASE ASC"
+    );
+
+    return { success: true, data: results.map(transformTemplateRowToTemplate) };
+  } catch (error) {
+    console.error("❌ Failed to get templates:", error);
+    const dbError: DatabaseError = {
+      code: "GET_TEMPLATES_ERROR",
+      message: "Failed to get templates",
+      details: { error: String(error) },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Update an existing template
+export const updateTemplate = async (
+  params: UpdateTemplateParams
+): Promise<DatabaseResult<NoteTemplate>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const existingResult = await getTemplateById(params.id);
+    if (!existingResult.success || !existingResult.data) {
+      return templateNotFound();
+    }
+    const existingTemplate = existingResult.data;
+
+    const name = params.name !== undefined ? params.name.trim() : undefined;
+    if (name === "") {
+      return invalidName();
+    }
+
+    const updatedTemplate: NoteTemplate = {
+      ...existingTemplate,
+      name: name ?? existingTemplate.name,
+      titlePattern: params.titlePattern ?? existingTemplate.titlePattern,
+      content: params.content ?? existingTemplate.content,
+      tags:
+        params.tags !== undefined
+          ? normalizeTagNames(params.tags)
+          : existingTemplate.tags,
+      folderId:
+        params.folderId !== undefined
+          ? params.folderId
+          : existingTemplate.folderId,
+      lastModified: new Date().toISOString(),
+    };
+
+    await database.runAsync(
+      `UPDATE templates SET
+        name = ?, title_pattern = ?, content = ?, tags = ?, folder_id = ?,
+        updated_at = ?
+      WHERE id = ?`,
+      [
+        updatedTemplate.name,
+        updatedTemplate.titlePattern,
+        updatedTemplate.content,
+        JSON.stringify(updatedTemplate.tags),
+        updatedTemplate.folderId,
+        updatedTemplate.lastModified,
+        params.id,
+      ]
+    );
+
+    return { success: true, data: updatedTemplate };
+  } catch (error) {
+    console.error("❌ Failed to update template:", error);
+    const dbError: DatabaseError = {
+      code: "UPDATE_TEMPLATE_ERROR",
+      message: "Failed to update template",
+      details: { error: String(error), params },
+    };
+    return { success: false, error: dbError };
+  }
+};
+
+// Delete a template. Notes created from it are not affected.
+export const deleteTemplate = async (
+  id: string
+): Promise<DatabaseResult<boolean>> => {
+  try {
+    const database = await ensureDatabase();
+
+    const result = await database.runAsync(
+      "DELETE FROM templates WHERE id = ?",
+      [id]
+    );
+    if (result.changes === 0) {
+      return templateNotFound();
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error("❌ Failed to delete template:", error);
+    const dbError: DatabaseError = {
+      code: "DELETE_TEMPLATE_ERROR",
+      message: "Failed to delete template",
+      details: { error: String(error), id },
+    };
+    return { success: false, error: dbError };
+  }
+};
@@ -0,0 +1,71 @@
+import type { SqlDatabase } from "./driver";
+
+// How long notes stay in the trash before being purged on startup
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently delete the notes matching a condition on the notes table,
+// along with everything that references them. Must run inside the caller's
+// transaction. Returns the number of notes removed. Attachment files left
+// unreferenced are cleaned up separately by deleteOrphanedAttachments.
+export const deleteNotesWhere = async (
+  txn: SqlDatabase,
+  condition: string,
+  params: (string | number)[] = []
+): Promise<number> => {
+  const selectIds = `SELECT id FROM notes WHERE ${condition}`;
+
+  await txn.runAsync(
+    `DELETE FROM note_tags WHERE note_id IN (${selectIds})`,
+    params
+  );
+  await txn.runAsync(
+    `DELETE FROM note_revisions WHERE note_id IN (${selectIds})`,
+    params
+  );
+  await txn.runAsync(
+    `DELETE FROM note_attachments WHERE note_id IN (${selectIds})`,
+    params
+  );
+  await txn.runAsync(
+    `DELETE FROM note_collab_updates WHERE note_id IN (${selectIds})`,
+    params
+  );
+  await txn.runAsync(
+    `DELETE FROM note_links
+      WHERE source_note_id IN (${selectIds})
+        OR target_note_id IN (${selectIds})`,
+    [...params, ...params]
+  );
+  const result = await txn.runAsync(
+    `DELETE FROM notes WHERE ${condition}`,
+    params
+  );
+
+  return result.changes;
+};
+
+// Permanently delete notes that have been in the trash longer than the
+// retention period. A period of zero or less keeps trashed notes forever.
+export const purgeExpiredTrash = async (
+  db: SqlDatabase,
+  retentionDays: number
+): Promise<number> => {
+  if (retentionDays <= 0) {
+    return 0;
+  }
+
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  let purged = 0;
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    purged = await deleteNotesWhere(
+      txn,
+      "is_deleted = 1 AND deleted_at IS NOT NULL AND deleted_at < ?",
+      [cutoff]
+    );
+  });
+
+  return purged;
+};
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import * as Y from "yjs";
+import { createRelayProvider, RelayProvider } from "./collaboration";
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { createCollabRelay } = require("../scripts/collab-relay");
+const { WebSocket } = require("ws");
+/* eslint-enable @typescript-eslint/no-require-imports */
+
+interface Peer {
+  doc: Y.Doc;
+  provider: RelayProvider;
+  isSeeder: Promise<boolean>;
+}
+
+const NOTE_TEXT = "Agenda for Monday";
+
+let server: Server;
+let relayUrl: string;
+let peers: Peer[];
+let originalWebSocket: typeof globalThis.WebSocket;
+
+// Open the note the way the editor does: join the room, and fill the
+// document with the note's text only when the relay says we are the seeder
+const openNote = (room: string): Peer => {
+  const doc = new Y.Doc();
+  const provider = createRelayProvider(doc, relayUrl, room);
+  const isSeeder = new Promise<boolean>((resolve) => {
+    provider.onSynced((seeder) => {
+      if (seeder) {
+        doc.getText("default").insert(0, NOTE_TEXT);
+      }
+      resolve(seeder);
+    });
+  });
+  provider.connect();
+  const peer = { doc, provider, isSeeder };
+  peers.push(peer);
+  return peer;
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+beforeEach(async () => {
+  originalWebSocket = globalThis.WebSocket;
+  globalThis.WebSocket = WebSocket;
+  peers = [];
+  server = createServer();
+  createCollabRelay(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  relayUrl = `ws://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  for (const peer of peers) {
+    peer.provider.destroy();
+    peer.doc.destroy();
+  }
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  globalThis.WebSocket = originalWebSocket;
+});
+
+describe("createRelayProvider", () => {
+  it("seeds a room once when peers open it at the same time", async () => {
+    const first = openNote("note-1");
+    const second = openNote("note-1");
+    const third = openNote("note-1");
+
+    const seeders = await Promise.all(
+      [first, second, third].map((peer) => peer.isSeeder)
+    );
+    expect(seeders.filter(Boolean)).toHaveLength(1);
+
+    await waitFor(() =>
+      [first, second, third].every(
+        (peer) => peer.doc.getText("default").toString() === NOTE_TEXT
+      )
+    );
+  });
+
+  it("syncs a peer that joins later without seeding it again", async () => {
+    const first = openNote("note-1");
+    expect(await first.isSeeder).toBe(true);
+
+    const second = openNote("note-1");
+    expect(await second.isSeeder).toBe(false);
+    expect(second.doc.getText("default").toString()).toBe(NOTE_TEXT);
+  });
+
+  it("seeds each room on its own", async () => {
+    const first = openNote("note-1");
+    const second = openNote("note-2");
+
+    expect(await first.isSeeder).toBe(true);
+    expect(await second.isSeeder).toBe(true);
+  });
+});
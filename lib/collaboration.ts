@@ -0,0 +1,225 @@
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import {
+  applyAwarenessUpdate,
+  Awareness,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from "y-protocols/awareness";
+import {
+  messageYjsSyncStep1,
+  messageYjsSyncStep2,
+  readSyncMessage,
+  writeSyncStep1,
+  writeUpdate,
+} from "y-protocols/sync";
+import type * as Y from "yjs";
+
+// Shown next to the user's cursor in other people's editors
+export interface CollaborationUser {
+  name: string;
+  color: string;
+}
+
+// Editing a note together. Everyone with the same room edits one shared
+// document; without a relay the document is only kept locally.
+export interface CollaborationConfig {
+  room: string;
+  relayUrl?: string; // ws:// URL of scripts/collab-relay.js
+  user: CollaborationUser;
+}
+
+export const COLLABORATOR_COLORS = [
+  "#dc2626",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#9333ea",
+  "#db2777",
+];
+
+export const pickCollaboratorColor = (): string =>
+  COLLABORATOR_COLORS[Math.floor(Math.random() * COLLABORATOR_COLORS.length)];
+
+// Relay messages are a type byte followed by a y-protocols payload
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_JOINED = 2; // From the relay: 1 if we joined an empty room
+
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+export interface RelayProvider {
+  awareness: Awareness; // Cursors and user details of everyone in the room
+  connect(): void;
+  destroy(): void;
+  // Called once the document has caught up with the room: straight away if
+  // we joined an empty room, otherwise when a peer answers our state
+  // vector. isSeeder is true only for the peer that found the room empty,
+  // which is the one allowed to fill the document with the note's content.
+  // Returns a function that stops listening.
+  onSynced(listener: (isSeeder: boolean) => void): () => void;
+}
+
+// Exchange a document's updates and cursors with everyone in a room of the
+// relay. The relay only forwards messages, so peers sync each other: a peer
+// that joins sends its state vector and whoever is there answers with what
+// it is missing. Reconnects with backoff until destroyed.
+export const createRelayProvider = (
+  doc: Y.Doc,
+  relayUrl: string,
+  room: string
+): RelayProvider => {
+  const awareness = new Awareness(doc);
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let isDestroyed = false;
+  let synced: { isSeeder: boolean } | null = null;
+  const syncListeners = new Set<(isSeeder: boolean) => void>();
+
+  const markSynced = (isSeeder: boolean) => {
+    if (synced) {
+      return;
+    }
+    synced = { isSeeder };
+    for (const listener of syncListeners) {
+      listener(isSeeder);
+    }
+  };
+
+  const send = (encoder: encoding.Encoder) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(encoding.toUint8Array(encoder));
+    }
+  };
+
+  const createMessage = (type: number): encoding.Encoder => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, type);
+    return encoder;
+  };
+
+  const sendAwareness = (clients: number[]) => {
+    const encoder = createMessage(MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      encoder,
+      encodeAwarenessUpdate(awareness, clients)
+    );
+    send(encoder);
+  };
+
+  const handleMessage = (data: ArrayBuffer) => {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const type = decoding.readVarUint(decoder);
+    if (type === MESSAGE_SYNC) {
+      const reply = createMessage(MESSAGE_SYNC);
+      const syncType = readSyncMessage(decoder, reply, doc, provider);
+      if (encoding.length(reply) > 1) {
+        send(reply);
+      }
+      // Someone just joined; let them see our cursor
+      if (syncType === messageYjsSyncStep1) {
+        sendAwareness([doc.clientID]);
+      } else if (syncType === messageYjsSyncStep2) {
+        markSynced(false);
+      }
+    } else if (type === MESSAGE_AWARENESS) {
+      applyAwarenessUpdate(
+        awareness,
+        decoding.readVarUint8Array(decoder),
+        provider
+      );
+    } else if (type === MESSAGE_JOINED) {
+      if (decoding.readVarUint(decoder) === 1) {
+        markSynced(true);
+      }
+    }
+  };
+
+  const connect = () => {
+    if (isDestroyed || socket) {
+      return;
+    }
+    const ws = new WebSocket(
+      `${relayUrl.replace(/\/+$/, "")}/${encodeURIComponent(room)}`
+    );
+    ws.binaryType = "arraybuffer";
+    socket = ws;
+
+    ws.onopen = () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      const encoder = createMessage(MESSAGE_SYNC);
+      writeSyncStep1(encoder, doc);
+      send(encoder);
+      sendAwareness([doc.clientID]);
+    };
+    ws.onmessage = (event) => {
+      handleMessage(event.data as ArrayBuffer);
+    };
+    ws.onclose = () => {
+      socket = null;
+      // Cursors of people we can no longer hear from are stale
+      const others = Array.from(awareness.getStates().keys()).filter(
+        (clientId) => clientId !== doc.clientID
+      );
+      removeAwarenessStates(awareness, others, provider);
+
+      if (!isDestroyed) {
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      }
+    };
+  };
+
+  const handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== provider) {
+      const encoder = createMessage(MESSAGE_SYNC);
+      writeUpdate(encoder, update);
+      send(encoder);
+    }
+  };
+
+  const handleAwarenessUpdate = (
+    changes: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === "local") {
+      sendAwareness([...changes.added, ...changes.updated, ...changes.removed]);
+    }
+  };
+
+  const destroy = () => {
+    isDestroyed = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+    }
+    // Tell the others we left before closing
+    removeAwarenessStates(awareness, [doc.clientID], "local");
+    doc.off("update", handleDocUpdate);
+    awareness.off("update", handleAwarenessUpdate);
+    awareness.destroy();
+    syncListeners.clear();
+    socket?.close();
+  };
+
+  const onSynced = (listener: (isSeeder: boolean) => void) => {
+    if (synced) {
+      listener(synced.isSeeder);
+      return () => {};
+    }
+    syncListeners.add(listener);
+    return () => {
+      syncListeners.delete(listener);
+    };
+  };
+
+  const provider: RelayProvider = { awareness, connect, destroy, onSynced };
+
+  doc.on("update", handleDocUpdate);
+  awareness.on("update", handleAwarenessUpdate);
+
+  return provider;
+};
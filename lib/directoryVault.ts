@@ -0,0 +1,35 @@
+import * as FileSystem from "expo-file-system";
+import { VaultFiles } from "./vault";
+
+// A vault in a local directory, e.g. one copied into the app's documents
+export const createDirectoryVault = (directoryUri: string): VaultFiles => {
+  const root = directoryUri.endsWith("/") ? directoryUri : `${directoryUri}/`;
+
+  const listDirectory = async (path: string): Promise<string[]> => {
+    const names = await FileSystem.readDirectoryAsync(`${root}${path}`);
+    const files: string[] = [];
+
+    for (const name of names) {
+      const childPath = `${path}${name}`;
+      const info = await FileSystem.getInfoAsync(`${root}${childPath}`);
+      if (info.isDirectory) {
+        files.push(...(await listDirectory(`${childPath}/`)));
+      } else {
+        files.push(childPath);
+      }
+    }
+
+    return files;
+  };
+
+  return {
+    list: () => listDirectory(""),
+
+    readText: (path) => FileSystem.readAsStringAsync(`${root}${path}`),
+
+    readBase64: (path) =>
+      FileSystem.readAsStringAsync(`${root}${path}`, {
+        encoding: FileSystem.EncodingType.Base64,
+      }),
+  };
+};
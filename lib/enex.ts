@@ -0,0 +1,386 @@
+import { md5 } from "@noble/hashes/legacy";
+import { bytesToHex } from "@noble/hashes/utils";
+import { base64ToBytes } from "./base64";
+import {
+  escapeAttribute,
+  escapeText,
+  HtmlElement,
+  HtmlNode,
+  isSafeUrl,
+  parseHtml,
+  styleProperty,
+  textContent,
+} from "./html";
+
+// Reading Evernote .enex exports. Each <note> holds its text as ENML, an
+// XHTML dialect, plus resources referenced from it by MD5 hash. ENML is
+// converted to the HTML subset the editor's schema accepts.
+
+export interface EnexNote {
+  title: string;
+  content: string; // Editor HTML; images are inline data URLs
+  tags: string[];
+  dateCreated?: string; // ISO date string
+  lastModified?: string; // ISO date string
+}
+
+interface EnexResource {
+  mimeType: string;
+  data: string; // Base64
+  fileName: string | null;
+}
+
+// Elements that start a new block. Anything else is treated as inline.
+const ENML_BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "center",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "en-note",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|rgba?\([\d\s,.%]+\)|[a-z]+)$/i;
+
+const isElement = (node: HtmlNode): node is HtmlElement =>
+  typeof node !== "string";
+
+const childElements = (element: HtmlElement, tag: string): HtmlElement[] =>
+  element.children.filter(
+    (child): child is HtmlElement => isElement(child) && child.tag === tag
+  );
+
+const childText = (element: HtmlElement, tag: string): string | null => {
+  const [child] = childElements(element, tag);
+  return child ? textContent(child.children).trim() : null;
+};
+
+const containsBlock = (node: HtmlNode): boolean =>
+  isElement(node) &&
+  (ENML_BLOCK_TAGS.has(node.tag) || node.children.some(containsBlock));
+
+// ENEX timestamps look like 20240131T235959Z
+const parseEnexDate = (value: string | null): string | undefined => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(
+    value ?? ""
+  );
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}Z`
+  ).toISOString();
+};
+
+// Text of an Evernote code block, whose lines are usually separate divs
+const codeBlockText = (nodes: HtmlNode[]): string =>
+  nodes
+    .map((node) => {
+      if (!isElement(node)) {
+        return node;
+      }
+      if (node.tag === "br") {
+        return "\n";
+      }
+      const text = codeBlockText(node.children);
+      return node.tag === "div" || node.tag === "p" ? `${text}\n` : text;
+    })
+    .join("");
+
+const wrapColor = (color: string | null, html: string): string =>
+  color && COLOR_PATTERN.test(color) && html
+    ? `<span style="color: ${escapeAttribute(color)}">${html}</span>`
+    : html;
+
+// Convert ENML to editor HTML, resolving <en-media> against the note's
+// resources
+const enmlToHtml = (
+  enml: string,
+  resources: Map<string, EnexResource>
+): string => {
+  const media = (element: HtmlElement): string => {
+    const resource = resources.get(
+      (element.attributes.hash ?? "").toLowerCase()
+    );
+    if (!resource) {
+      return "";
+    }
+    if (resource.mimeType.startsWith("image/")) {
+      const alt = resource.fileName
+        ? ` alt="${escapeAttribute(resource.fileName)}"`
+        : "";
+      return `<img src="data:${escapeAttribute(resource.mimeType)};base64,${
+        resource.data
+      }"${alt}>`;
+    }
+    // Only images can be shown in a note; other files are named instead
+    return escapeText(`📎 ${resource.fileName ?? resource.mimeType}`);
+  };
+
+  const inline = (nodes: HtmlNode[]): string => {
+    return nodes.map((node) => inlineNode(node)).join("");
+  };
+
+  const inlineNode = (node: HtmlNode): string => {
+    if (!isElement(node)) {
+      return escapeText(node.replace(/\s+/g, " "));
+    }
+
+    const inner = (): string => inline(node.children);
+    switch (node.tag) {
+      case "b":
+      case "strong":
+        return `<strong>${inner()}</strong>`;
+      case "i":
+      case "em":
+      case "cite":
+        return `<em>${inner()}</em>`;
+      case "u":
+      case "ins":
+        return `<u>${inner()}</u>`;
+      case "s":
+      case "strike":
+      case "del":
+        return `<s>${inner()}</s>`;
+      case "code":
+      case "tt":
+      case "kbd":
+      case "samp":
+        return `<code>${escapeText(textContent(node.children))}</code>`;
+      case "br":
+        return "<br>";
+      case "a": {
+        const href = node.attributes.href ?? "";
+        return href && isSafeUrl(href)
+          ? `<a href="${escapeAttribute(href)}">${inner()}</a>`
+          : inner();
+      }
+      case "img": {
+        const src = node.attributes.src ?? "";
+        return src && isSafeUrl(src, true)
+          ? `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(
+              node.attributes.alt ?? ""
+            )}">`
+          : "";
+      }
+      case "en-media":
+        return media(node);
+      case "en-todo":
+        return node.attributes.checked === "true" ? "☑ " : "☐ ";
+      case "en-crypt":
+        return escapeText("[Encrypted content]");
+      case "font":
+        return wrapColor(node.attributes.color ?? null, inner());
+      case "td":
+      case "th":
+        return ` ${inner()} `;
+      default:
+        return wrapColor(
+          styleProperty(node.attributes.style, "color"),
+          inner()
+        );
+    }
+  };
+
+  // Wrap inline content as a paragraph, keeping Evernote's blank lines
+  const paragraph = (nodes: HtmlNode[]): string => {
+    const html = inline(nodes)
+      .replace(/^(\s|<br>)+|(\s|<br>)+$/g, "")
+      .trim();
+    // Images are blocks in the editor
+    return /^<img [^>]*>$/.test(html) ? html : `<p>${html}</p>`;
+  };
+
+  const list = (element: HtmlElement): string => {
+    const items = element.children
+      .filter((child) => isElement(child) || child.trim() !== "")
+      .map((child) => {
+        const children =
+          isElement(child) && child.tag === "li" ? child.children : [child];
+        return `<li>${blocks(children) || "<p></p>"}</li>`;
+      });
+
+    if (element.tag === "ul") {
+      return `<ul>${items.join("")}</ul>`;
+    }
+    const start = parseInt(element.attributes.start ?? "", 10);
+    const startAttribute = start > 1 ? ` start="${start}"` : "";
+    return `<ol${startAttribute}>${items.join("")}</ol>`;
+  };
+
+  // Tables have no place in the editor; each row becomes a paragraph
+  const table = (element: HtmlElement): string => {
+    const rows: HtmlElement[] = [];
+    const collectRows = (nodes: HtmlNode[]): void => {
+      for (const node of nodes) {
+        if (isElement(node)) {
+          if (node.tag === "tr") {
+            rows.push(node);
+          } else {
+            collectRows(node.children);
+          }
+        }
+      }
+    };
+    collectRows(element.children);
+
+    return rows
+      .map((row) => {
+        const cells = row.children
+          .filter(isElement)
+          .map((cell) => inline(cell.children).trim());
+        return `<p>${cells.join(" | ")}</p>`;
+      })
+      .join("");
+  };
+
+  const block = (element: HtmlElement): string => {
+    switch (element.tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return `<${element.tag}>${inline(element.children).trim()}</${
+          element.tag
+        }>`;
+      case "ul":
+      case "ol":
+        return list(element);
+      case "blockquote":
+        return `<blockquote>${
+          blocks(element.children) || "<p></p>"
+        }</blockquote>`;
+      case "pre":
+        return `<pre><code>${escapeText(
+          textContent(element.children).replace(/\n$/, "")
+        )}</code></pre>`;
+      case "hr":
+        return "<hr>";
+      case "table":
+        return table(element);
+      default:
+        if (/-en-codeblock\s*:\s*true/.test(element.attributes.style ?? "")) {
+          return `<pre><code>${escapeText(
+            codeBlockText(element.children).replace(/\n$/, "")
+          )}</code></pre>`;
+        }
+        return element.children.some(containsBlock)
+          ? blocks(element.children)
+          : paragraph(element.children);
+    }
+  };
+
+  // Render block content, wrapping runs of loose inline content as
+  // paragraphs. Whitespace between blocks is dropped.
+  const blocks = (nodes: HtmlNode[]): string => {
+    const html: string[] = [];
+    let inlineRun: HtmlNode[] = [];
+
+    const flushInline = (): void => {
+      if (inlineRun.some((node) => isElement(node) || node.trim() !== "")) {
+        html.push(paragraph(inlineRun));
+      }
+      inlineRun = [];
+    };
+
+    for (const node of nodes) {
+      if (containsBlock(node)) {
+        flushInline();
+        html.push(block(node as HtmlElement));
+      } else {
+        inlineRun.push(node);
+      }
+    }
+    flushInline();
+
+    return html.join("");
+  };
+
+  return blocks(parseHtml(enml));
+};
+
+const parseResource = (element: HtmlElement): [string, EnexResource] | null => {
+  const [dataElement] = childElements(element, "data");
+  const data = dataElement
+    ? textContent(dataElement.children).replace(/\s+/g, "")
+    : "";
+  if (!data) {
+    return null;
+  }
+
+  const [attributes] = childElements(element, "resource-attributes");
+  const resource: EnexResource = {
+    mimeType: (
+      childText(element, "mime") || "application/octet-stream"
+    ).toLowerCase(),
+    data,
+    fileName: attributes ? childText(attributes, "file-name") || null : null,
+  };
+  return [bytesToHex(md5(base64ToBytes(data))), resource];
+};
+
+const parseNote = (xml: string): EnexNote => {
+  const [note] = parseHtml(xml, { xml: true }).filter(isElement);
+  const resources = new Map(
+    childElements(note, "resource")
+      .map(parseResource)
+      .filter((entry): entry is [string, EnexResource] => entry !== null)
+  );
+
+  const [contentElement] = childElements(note, "content");
+  const enml = contentElement ? textContent(contentElement.children) : "";
+  const content = enmlToHtml(enml, resources);
+
+  return {
+    title: childText(note, "title") ?? "",
+    content: content || "<p></p>",
+    tags: childElements(note, "tag")
+      .map((tag) => textContent(tag.children).trim())
+      .filter(Boolean),
+    dateCreated: parseEnexDate(childText(note, "created")),
+    lastModified: parseEnexDate(childText(note, "updated")),
+  };
+};
+
+export const isEnex = (xml: string): boolean => /<en-export[\s>]/.test(xml);
+
+export const countEnexNotes = (xml: string): number =>
+  xml.match(/<note>/g)?.length ?? 0;
+
+// Read the notes of an export one at a time, so only one note's markup and
+// resources are parsed at once
+export function* readEnexNotes(xml: string): Generator<EnexNote> {
+  let position = 0;
+  while (true) {
+    const start = xml.indexOf("<note>", position);
+    const end = start === -1 ? -1 : xml.indexOf("</note>", start);
+    if (end === -1) {
+      return;
+    }
+    position = end + "</note>".length;
+    yield parseNote(xml.slice(start, position));
+  }
+}
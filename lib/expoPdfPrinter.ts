@@ -0,0 +1,21 @@
+import * as Print from "expo-print";
+import { PdfPrinter } from "./noteExport";
+
+// Prints with the platform's WebView into the app's cache directory
+export const expoPdfPrinter: PdfPrinter = {
+  printToFile: async (html, page) => {
+    const { uri, numberOfPages } = await Print.printToFileAsync({
+      html,
+      width: page.width,
+      height: page.height,
+      // iOS ignores @page margins
+      margins: {
+        left: page.margin,
+        top: page.margin,
+        right: page.margin,
+        bottom: page.margin,
+      },
+    });
+    return { uri, numberOfPages };
+  },
+};
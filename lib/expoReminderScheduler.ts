@@ -0,0 +1,133 @@
+import * as Notifications from "expo-notifications";
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  REMINDER_ACTION_DONE,
+  REMINDER_ACTION_SNOOZE,
+  ReminderScheduler,
+} from "./reminders";
+
+const REMINDER_CATEGORY = "note-reminder";
+const IDENTIFIER_PREFIX = "note-reminder:";
+
+const notificationId = (noteId: string): string =>
+  `${IDENTIFIER_PREFIX}${noteId}`;
+
+// Ask for permission and register the reminder buttons, once per launch.
+// Resolves to false when notifications aren't allowed.
+let preparation: Promise<boolean> | null = null;
+const prepare = (): Promise<boolean> => {
+  if (!preparation) {
+    preparation = (async () => {
+      const permission = await Notifications.requestPermissionsAsync();
+      if (!permission.granted) {
+        return false;
+      }
+      await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+        {
+          identifier: REMINDER_ACTION_SNOOZE,
+          buttonTitle: `Snooze ${DEFAULT_SNOOZE_MINUTES} minutes`,
+        },
+        { identifier: REMINDER_ACTION_DONE, buttonTitle: "Mark done" },
+      ]);
+      return true;
+    })().catch((error) => {
+      console.error("❌ Failed to set up reminder notifications:", error);
+      preparation = null;
+      return false;
+    });
+  }
+  return preparation;
+};
+
+// Schedules reminders with expo-notifications, identified by note id
+export const expoReminderScheduler: ReminderScheduler = {
+  schedule: async (reminder) => {
+    if (!(await prepare())) {
+      return;
+    }
+    await Notifications.scheduleNotificationAsync({
+      identifier: notificationId(reminder.noteId),
+      content: {
+        title: reminder.title,
+        body: "Reminder",
+        data: { noteId: reminder.noteId },
+        categoryIdentifier: REMINDER_CATEGORY,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(reminder.fireAt),
+      },
+    });
+  },
+
+  cancel: (noteId) =>
+    Notifications.cancelScheduledNotificationAsync(notificationId(noteId)),
+
+  cancelAll: async () => {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((request) => request.identifier.startsWith(IDENTIFIER_PREFIX))
+        .map((request) =>
+          Notifications.cancelScheduledNotificationAsync(request.identifier)
+        )
+    );
+  },
+};
+
+export interface ReminderResponseHandlers {
+  onOpen: (noteId: string) => void; // The notification itself was tapped
+  onSnooze: (noteId: string) => void;
+  onDone: (noteId: string) => void;
+}
+
+// Show reminders while the app is open and route taps on them, including
+// the one that launched the app. Returns a function that stops listening.
+export const listenForReminders = (
+  handlers: ReminderResponseHandlers
+): (() => void) => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  // The response that launched the app can also reach the listener
+  const handled = new Set<string>();
+  const handleResponse = (response: Notifications.NotificationResponse) => {
+    const { notification, actionIdentifier } = response;
+    const key = `${notification.request.identifier}:${notification.date}:${actionIdentifier}`;
+    const { noteId } = notification.request.content.data ?? {};
+    if (typeof noteId !== "string" || handled.has(key)) {
+      return;
+    }
+    handled.add(key);
+
+    if (actionIdentifier === REMINDER_ACTION_SNOOZE) {
+      handlers.onSnooze(noteId);
+    } else if (actionIdentifier === REMINDER_ACTION_DONE) {
+      handlers.onDone(noteId);
+    } else {
+      handlers.onOpen(noteId);
+    }
+  };
+
+  // Cleared once handled, so the next launch doesn't act on it again
+  Notifications.getLastNotificationResponseAsync()
+    .then(async (response) => {
+      if (response) {
+        await Notifications.clearLastNotificationResponseAsync();
+        handleResponse(response);
+      }
+    })
+    .catch((error) => {
+      console.error("❌ Failed to read the last notification response:", error);
+    });
+
+  const subscription =
+    Notifications.addNotificationResponseReceivedListener(handleResponse);
+  return () => subscription.remove();
+};
@@ -0,0 +1,142 @@
+// YAML front matter at the top of Markdown files. Only the subset notes use
+// is supported: strings, booleans, numbers and lists of those.
+
+export type FrontMatterValue =
+  string | number | boolean | null | FrontMatterValue[];
+
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+const FRONT_MATTER_PATTERN =
+  /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+// Plain scalars that would read back as something other than a string
+const needsQuotes = (value: string): boolean =>
+  value === "" ||
+  value !== value.trim() ||
+  /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+  /: |\s#|[\n\r\t]/.test(value) ||
+  /^(true|false|yes|no|on|off|null|~)$/i.test(value) ||
+  !Number.isNaN(Number(value));
+
+const formatValue = (value: FrontMatterValue): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (typeof value === "string") {
+    // JSON strings are valid double-quoted YAML scalars
+    return needsQuotes(value) || /[,[\]{}]/.test(value)
+      ? JSON.stringify(value)
+      : value;
+  }
+  return value === null ? "null" : String(value);
+};
+
+export const formatFrontMatter = (frontMatter: FrontMatter): string => {
+  const lines = Object.entries(frontMatter).map(
+    ([key, value]) => `${key}: ${formatValue(value)}`
+  );
+  return `---\n${lines.join("\n")}\n---\n`;
+};
+
+// Split a comma-separated flow list, ignoring commas inside quotes
+const splitFlowList = (source: string): string[] => {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        current += char + (source[++i] ?? "");
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+
+  return items.map((item) => item.trim()).filter((item) => item !== "");
+};
+
+const parseScalar = (source: string): FrontMatterValue => {
+  const text = source.trim();
+
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[") && text.endsWith("]")) {
+    return splitFlowList(text.slice(1, -1)).map(parseScalar);
+  }
+
+  const value = text.replace(/\s+#.*$/, "");
+  if (/^(true|yes|on)$/i.test(value)) {
+    return true;
+  }
+  if (/^(false|no|off)$/i.test(value)) {
+    return false;
+  }
+  if (value === "" || value === "~" || value === "null") {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+};
+
+// Read front matter from the start of a Markdown document. Returns an empty
+// object and the whole text as the body when there is none.
+export const parseFrontMatter = (
+  markdown: string
+): { frontMatter: FrontMatter; body: string } => {
+  const match = FRONT_MATTER_PATTERN.exec(markdown);
+  if (!match) {
+    return { frontMatter: {}, body: markdown.replace(/^\uFEFF/, "") };
+  }
+
+  const frontMatter: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (line.trim() === "" || line.trim().startsWith("#")) {
+      continue;
+    }
+
+    // "- item" under a key with no value of its own
+    const listItem = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+    if (listItem && listKey) {
+      const list = frontMatter[listKey];
+      const item = parseScalar(listItem[1] ?? listItem[2]);
+      frontMatter[listKey] = Array.isArray(list) ? [...list, item] : [item];
+      continue;
+    }
+
+    const entry = /^([\w-]+)\s*:(?:\s+(.*))?$/.exec(line);
+    if (!entry) {
+      listKey = null;
+      continue;
+    }
+    const [, key, value = ""] = entry;
+    frontMatter[key] = parseScalar(value);
+    listKey = value.trim() === "" ? key : null;
+  }
+
+  return { frontMatter, body: markdown.slice(match[0].length) };
+};
@@ -0,0 +1,137 @@
+// Reading and writing note HTML without a DOM, which React Native lacks.
+// The tokenizer is tolerant rather than spec-complete: it is tuned for the
+// editor's own output and for markup imported from other apps.
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+// Text nodes are stored decoded
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1].toLowerCase() === "x"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+export const escapeText = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const escapeAttribute = (text: string): string =>
+  escapeText(text).replace(/"/g, "&quot;");
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const [, name, double, single, bare] of source.matchAll(pattern)) {
+    attributes[name.toLowerCase()] = decodeEntities(
+      double ?? single ?? bare ?? ""
+    );
+  }
+  return attributes;
+};
+
+// Build a node tree from HTML. Unclosed tags are closed at the end and stray
+// closing tags are ignored. In XML mode only self-closing tags are empty,
+// and CDATA sections become text.
+export const parseHtml = (
+  html: string,
+  options: { xml?: boolean } = {}
+): HtmlNode[] => {
+  const root: HtmlElement = { tag: "#root", attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+  for (const [token, cdata, closing, tagName, rawAttributes] of html.matchAll(
+    pattern
+  )) {
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+      continue;
+    }
+    if (/^<[!?]/.test(token)) {
+      // Comments, doctypes and processing instructions
+      continue;
+    }
+    if (!tagName) {
+      parent.children.push(decodeEntities(token));
+      continue;
+    }
+
+    const tag = tagName.toLowerCase();
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const isSelfClosing = rawAttributes.trim().endsWith("/");
+    const element: HtmlElement = {
+      tag,
+      attributes: parseAttributes(rawAttributes.replace(/\/\s*$/, "")),
+      children: [],
+    };
+    parent.children.push(element);
+    if (!isSelfClosing && (options.xml || !VOID_TAGS.has(tag))) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+};
+
+export const textContent = (nodes: HtmlNode[]): string =>
+  nodes
+    .map((node) =>
+      typeof node === "string"
+        ? node
+        : node.tag === "br"
+          ? "\n"
+          : textContent(node.children)
+    )
+    .join("");
+
+// Value of one property in an inline style attribute
+export const styleProperty = (style: string | undefined, name: string) =>
+  style
+    ?.split(";")
+    .map((declaration) => declaration.split(":"))
+    .find(([property]) => property?.trim().toLowerCase() === name)?.[1]
+    ?.trim() || null;
+
+// Whether a URL is safe to put in an href or src. Data URLs are only
+// allowed for images, where the editor stores them as attachments.
+export const isSafeUrl = (url: string, allowImageData = false): boolean => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1]?.toLowerCase();
+  if (!scheme) {
+    return true;
+  }
+  if (allowImageData && /^data:image\/[a-z0-9.+-]+;base64,/i.test(url)) {
+    return true;
+  }
+  return ["http", "https", "mailto", "tel", "inky-attachment"].includes(scheme);
+};
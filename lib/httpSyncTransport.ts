@@ -0,0 +1,52 @@
+import {
+  PullResponse,
+  PushResponse,
+  SYNC_PROTOCOL_VERSION,
+  SyncTransport,
+} from "../database/models/Sync";
+
+export interface HttpSyncOptions {
+  token?: string; // Sent as a bearer token when the server requires one
+}
+
+// Client for the REST sync protocol in docs/sync-protocol.md
+export const createHttpSyncTransport = (
+  baseUrl: string,
+  options: HttpSyncOptions = {}
+): SyncTransport => {
+  const root = baseUrl.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Sync-Protocol": String(SYNC_PROTOCOL_VERSION),
+  };
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  }
+
+  const request = async <T>(path: string, init: RequestInit): Promise<T> => {
+    const response = await fetch(`${root}${path}`, { ...init, headers });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      // Error responses carry { error: { code, message } }
+      throw new Error(
+        `${body?.error?.code ?? "SYNC_HTTP_ERROR"}: ${
+          body?.error?.message ?? `Sync server responded ${response.status}`
+        }`
+      );
+    }
+    return body as T;
+  };
+
+  return {
+    pull: (since, limit) =>
+      request<PullResponse>(`/sync/changes?since=${since}&limit=${limit}`, {
+        method: "GET",
+      }),
+
+    push: (pushRequest) =>
+      request<PushResponse>("/sync/changes", {
+        method: "POST",
+        body: JSON.stringify(pushRequest),
+      }),
+  };
+};
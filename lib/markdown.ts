@@ -0,0 +1,816 @@
+import {
+  NOTE_LINK_TYPE,
+  noteLinkHtml,
+  NoteLinkTarget,
+} from "../database/models/NoteLink";
+import {
+  decodeEntities,
+  escapeAttribute,
+  escapeText,
+  HtmlElement,
+  HtmlNode,
+  isSafeUrl,
+  parseHtml,
+  styleProperty,
+  textContent,
+} from "./html";
+
+// Conversion between the HTML TipTap stores in Note.content and Markdown
+
+// Hooks for resolving references while converting Markdown to HTML. Each
+// returns null to leave the reference as written.
+export interface MarkdownResolvers {
+  // The note a [[wiki link]] refers to, given the text between the brackets
+  wikiLink?: (text: string) => NoteLinkTarget | null;
+  // The note a relative link such as [text](Other.md) points at
+  relativeLink?: (url: string) => NoteLinkTarget | null;
+  // The src for a relative image path or an ![[embedded]] file
+  image?: (path: string) => string | null;
+}
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "hr",
+  "img",
+  "div",
+]);
+
+const isBlock = (node: HtmlNode): boolean =>
+  typeof node !== "string" && BLOCK_TAGS.has(node.tag);
+
+// ---------------------------------------------------------------------------
+// HTML to Markdown
+
+// Backslash-escape characters that would otherwise read as Markdown syntax
+const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/[\\`*[\]<]/g, "\\$&")
+    .replace(/~~/g, "\\~\\~")
+    .replace(/&(?=#?\w+;)/g, "\\&")
+    .replace(/_/g, (underscore, offset: number, whole: string) =>
+      /[\p{L}\p{N}]/u.test(whole[offset - 1] ?? "") &&
+      /[\p{L}\p{N}]/u.test(whole[offset + 1] ?? "")
+        ? underscore
+        : "\\_"
+    );
+
+// Escape what would start a block when it begins a line of paragraph text
+const escapeLineStarts = (text: string): string =>
+  text.replace(
+    /^([ \t]*)(#|>|[-+](?=[ \t]|$)|\d+(?=[.)]))/gm,
+    (_match, indent: string, marker: string) =>
+      /\d/.test(marker) ? `${indent}${marker}\\` : `${indent}\\${marker}`
+  );
+
+// Wrap text in a delimiter, keeping surrounding whitespace outside it since
+// Markdown doesn't allow emphasis to start or end with a space
+const wrapInline = (text: string, open: string, close = open): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || match[2] === "") {
+    return text;
+  }
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+};
+
+const codeSpan = (code: string): string => {
+  const longestRun = Math.max(
+    0,
+    ...Array.from(code.matchAll(/`+/g), ([run]) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${padding}${code}${padding}${fence}`;
+};
+
+const imageMarkdown = (element: HtmlElement): string => {
+  const { src = "", alt = "", title } = element.attributes;
+  const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+  return `![${escapeMarkdown(alt)}](<${src}>${titlePart})`;
+};
+
+const renderInline = (nodes: HtmlNode[]): string =>
+  nodes.map(renderInlineNode).join("");
+
+const renderInlineNode = (node: HtmlNode): string => {
+  if (typeof node === "string") {
+    return escapeMarkdown(node.replace(/\s*\n\s*/g, " "));
+  }
+
+  const inner = (): string => renderInline(node.children);
+  switch (node.tag) {
+    case "strong":
+    case "b":
+      return wrapInline(inner(), "**");
+    case "em":
+    case "i":
+      return wrapInline(inner(), "*");
+    case "s":
+    case "strike":
+    case "del":
+      return wrapInline(inner(), "~~");
+    case "u":
+      return wrapInline(inner(), "<u>", "</u>");
+    case "code":
+      return codeSpan(textContent(node.children));
+    case "br":
+      return "\\\n";
+    case "img":
+      return imageMarkdown(node);
+    case "a": {
+      const href = node.attributes.href ?? "";
+      return href ? `[${inner()}](<${href}>)` : inner();
+    }
+    case "span": {
+      if (node.attributes["data-type"] === NOTE_LINK_TYPE) {
+        return `[[${textContent(node.children).replace(/[[\]]/g, "")}]]`;
+      }
+      // Colors have no Markdown syntax; inline HTML keeps them for apps
+      // that render it and reads as plain text everywhere else
+      const color = styleProperty(node.attributes.style, "color");
+      return color
+        ? wrapInline(
+            inner(),
+            `<span style="color: ${escapeAttribute(color)}">`,
+            "</span>"
+          )
+        : inner();
+    }
+    default:
+      return inner();
+  }
+};
+
+// Prefix every line but the first, e.g. to continue a list item
+const indentLines = (text: string, indent: string): string =>
+  text.replace(/\n(?=.)/g, `\n${indent}`);
+
+const renderList = (element: HtmlElement): string => {
+  const isOrdered = element.tag === "ol";
+  let number = parseInt(element.attributes.start ?? "1", 10) || 1;
+
+  return element.children
+    .filter((child): child is HtmlElement => isBlock(child))
+    .map((item) => {
+      const marker = isOrdered ? `${number++}. ` : "- ";
+      const body = renderBlocks(item.children, "\n");
+      return `${marker}${indentLines(body, " ".repeat(marker.length))}`;
+    })
+    .join("\n");
+};
+
+const renderBlock = (element: HtmlElement): string => {
+  switch (element.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+      return `${"#".repeat(Number(element.tag[1]))} ${renderInline(
+        element.children
+      ).trim()}`;
+    case "ul":
+    case "ol":
+      return renderList(element);
+    case "blockquote":
+      return renderBlocks(element.children)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "pre": {
+      const code = textContent(element.children).replace(/\n$/, "");
+      const codeElement = element.children.find(
+        (child): child is HtmlElement =>
+          typeof child !== "string" && child.tag === "code"
+      );
+      const language =
+        /\blanguage-(\S+)/.exec(codeElement?.attributes.class ?? "")?.[1] ?? "";
+      const longestRun = Math.max(
+        0,
+        ...Array.from(code.matchAll(/^`{3,}/gm), ([run]) => run.length)
+      );
+      const fence = "`".repeat(Math.max(3, longestRun + 1));
+      return `${fence}${language}\n${code}\n${fence}`;
+    }
+    case "hr":
+      return "---";
+    case "img":
+      return imageMarkdown(element);
+    case "li":
+    case "div":
+      return renderBlocks(element.children);
+    default:
+      return escapeLineStarts(renderInline(element.children).trim());
+  }
+};
+
+// Render block content, wrapping runs of loose inline content as paragraphs
+const renderBlocks = (nodes: HtmlNode[], separator = "\n\n"): string => {
+  const blocks: string[] = [];
+  let inlineRun: HtmlNode[] = [];
+
+  const flushInline = (): void => {
+    const text = escapeLineStarts(renderInline(inlineRun).trim());
+    if (text) {
+      blocks.push(text);
+    }
+    inlineRun = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flushInline();
+      const block = renderBlock(node as HtmlElement);
+      if (block) {
+        blocks.push(block);
+      }
+    } else {
+      inlineRun.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks.join(separator);
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  const markdown = renderBlocks(parseHtml(html));
+  return markdown ? `${markdown}\n` : "";
+};
+
+// ---------------------------------------------------------------------------
+// Markdown to HTML
+
+// Whether a URL is a path relative to the Markdown file, such as another
+// file in the same folder
+const isRelativeUrl = (url: string): boolean =>
+  url !== "" && !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(url);
+
+// Parse a link destination and optional title starting at "(", returning
+// them with the index after ")"
+const parseLinkTarget = (
+  text: string,
+  start: number
+): { url: string; title: string | null; end: number } | null => {
+  let i = start + 1;
+  while (text[i] === " ") i++;
+
+  let url = "";
+  if (text[i] === "<") {
+    const close = text.indexOf(">", i);
+    if (close === -1) {
+      return null;
+    }
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    while (i < text.length && !/\s/.test(text[i])) {
+      if (text[i] === "\\" && i + 1 < text.length) {
+        url += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (text[i] === "(") depth++;
+      if (text[i] === ")") {
+        if (depth === 0) break;
+        depth--;
+      }
+      url += text[i++];
+    }
+  }
+
+  while (text[i] === " ") i++;
+  let title: string | null = null;
+  const quote = text[i];
+  if (quote === '"' || quote === "'") {
+    let j = i + 1;
+    title = "";
+    while (j < text.length && text[j] !== quote) {
+      if (text[j] === "\\" && j + 1 < text.length) j++;
+      title += text[j++];
+    }
+    i = j + 1;
+    while (text[i] === " ") i++;
+  }
+
+  return text[i] === ")" ? { url, title, end: i + 1 } : null;
+};
+
+// Index of the "]" closing the bracket opened at start, or -1
+const findClosingBracket = (text: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "[") {
+      depth++;
+    } else if (text[i] === "]" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Index where a delimiter run closing the one at start begins, or -1. Code
+// spans and escapes are skipped; a single delimiter doesn't close on a
+// double one.
+const findClosingDelimiter = (
+  text: string,
+  start: number,
+  delimiter: string
+): number => {
+  const char = delimiter[0];
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === "`") {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        i = close + run.length - 1;
+      }
+      continue;
+    }
+    if (text[i] !== char) {
+      continue;
+    }
+
+    let runLength = 1;
+    while (text[i + runLength] === char) runLength++;
+    if (
+      runLength >= delimiter.length &&
+      (delimiter.length > 1 || runLength !== 2) &&
+      !/\s/.test(text[i - 1] ?? " ")
+    ) {
+      // For "***" closing "*", the emphasis closes on its last character
+      return delimiter.length === 1 ? i + runLength - 1 : i;
+    }
+    i += runLength - 1;
+  }
+  return -1;
+};
+
+const INLINE_HTML_PATTERNS = [
+  /^<\/?u>/i,
+  /^<\/span>/i,
+  /^<br\s*\/?>/i,
+  /^<span style="color:\s*([#\w(),.\s%]+?);?\s*">/i,
+];
+
+const isWordChar = (char: string | undefined): boolean =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+const parseInline = (text: string, resolvers: MarkdownResolvers): string => {
+  let html = "";
+  let i = 0;
+
+  const tryDelimited = (delimiter: string, tag: string): boolean => {
+    const contentStart = i + delimiter.length;
+    if (/\s/.test(text[contentStart] ?? " ")) {
+      return false;
+    }
+    // Underscores inside words are just underscores
+    if (delimiter[0] === "_" && isWordChar(text[i - 1])) {
+      return false;
+    }
+    const close = findClosingDelimiter(text, contentStart, delimiter);
+    if (close <= contentStart) {
+      return false;
+    }
+    if (delimiter[0] === "_" && isWordChar(text[close + delimiter.length])) {
+      return false;
+    }
+    html += `<${tag}>${parseInline(
+      text.slice(contentStart, close),
+      resolvers
+    )}</${tag}>`;
+    i = close + delimiter.length;
+    return true;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === "\\") {
+      const next = text[i + 1];
+      if (next === "\n") {
+        html += "<br>";
+        i += 2;
+        continue;
+      }
+      if (next !== undefined && /[!-/:-@[-`{-~]/.test(next)) {
+        html += escapeText(next);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (char === "\n") {
+      // Two or more trailing spaces make a hard break
+      if (/ {2,}$/.test(html)) {
+        html = `${html.replace(/ +$/, "")}<br>`;
+      } else {
+        html = `${html.replace(/ +$/, "")} `;
+      }
+      i++;
+      while (text[i] === " ") i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1 && text[close + run.length] !== "`") {
+        let code = text.slice(i + run.length, close).replace(/\n/g, " ");
+        if (/^ .*[^ ].* $/.test(code)) {
+          code = code.slice(1, -1);
+        }
+        html += `<code>${escapeText(code)}</code>`;
+        i = close + run.length;
+        continue;
+      }
+      html += run;
+      i += run.length;
+      continue;
+    }
+
+    if (rest.startsWith("![")) {
+      const close = findClosingBracket(text, i + 1);
+      const target =
+        close !== -1 && text[close + 1] === "("
+          ? parseLinkTarget(text, close + 1)
+          : null;
+      if (target && isSafeUrl(target.url, true)) {
+        const alt = text.slice(i + 2, close).replace(/\\(.)/g, "$1");
+        const title = target.title
+          ? ` title="${escapeAttribute(target.title)}"`
+          : "";
+        const src =
+          (isRelativeUrl(target.url) && resolvers.image?.(target.url)) ||
+          target.url;
+        html += `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(
+          alt
+        )}"${title}>`;
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("![[")) {
+      const close = text.indexOf("]]", i + 3);
+      const name = close !== -1 ? wikiLinkTarget(text.slice(i + 3, close)) : "";
+      const src = name && !name.includes("\n") ? resolvers.image?.(name) : null;
+      if (src) {
+        html += `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(
+          name
+        )}">`;
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("[[")) {
+      const close = text.indexOf("]]", i + 2);
+      const title = close !== -1 ? text.slice(i + 2, close).trim() : "";
+      if (title && !title.includes("\n")) {
+        const target = resolvers.wikiLink?.(title) ?? null;
+        html += target
+          ? noteLinkHtml(target.id, wikiLinkAlias(title) ?? target.title)
+          : escapeText(`[[${title}]]`);
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const close = findClosingBracket(text, i);
+      const target =
+        close !== -1 && text[close + 1] === "("
+          ? parseLinkTarget(text, close + 1)
+          : null;
+      const note =
+        target && isRelativeUrl(target.url)
+          ? (resolvers.relativeLink?.(target.url) ?? null)
+          : null;
+      if (note) {
+        html += noteLinkHtml(note.id, note.title);
+        i = target!.end;
+        continue;
+      }
+      if (target) {
+        const label = parseInline(text.slice(i + 1, close), resolvers);
+        html += isSafeUrl(target.url)
+          ? `<a href="${escapeAttribute(target.url)}">${label}</a>`
+          : label;
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      const autolink = /^<((?:https?|mailto):[^\s<>]+)>/i.exec(rest);
+      if (autolink) {
+        html += `<a href="${escapeAttribute(autolink[1])}">${escapeText(
+          autolink[1]
+        )}</a>`;
+        i += autolink[0].length;
+        continue;
+      }
+      const tag = INLINE_HTML_PATTERNS.map((pattern) =>
+        pattern.exec(rest)
+      ).find(Boolean);
+      if (tag) {
+        html += tag[1]
+          ? `<span style="color: ${escapeAttribute(tag[1].trim())}">`
+          : tag[0].toLowerCase();
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === "&") {
+      const entity = /^&(?:#x[0-9a-f]+|#\d+|[a-z]+);/i.exec(rest);
+      if (entity) {
+        html += escapeText(decodeEntities(entity[0]));
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    if (
+      (rest.startsWith("**") && tryDelimited("**", "strong")) ||
+      (rest.startsWith("__") && tryDelimited("__", "strong")) ||
+      (rest.startsWith("~~") && tryDelimited("~~", "s")) ||
+      (char === "*" && tryDelimited("*", "em")) ||
+      (char === "_" && tryDelimited("_", "em"))
+    ) {
+      continue;
+    }
+
+    html += escapeText(char);
+    i++;
+  }
+
+  return html;
+};
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+
+const isBlank = (line: string): boolean => line.trim() === "";
+
+// Whether a line starts a block that interrupts a paragraph
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  LIST_ITEM_PATTERN.test(line);
+
+// Expand tabs used for indentation so columns can be counted
+const expandIndent = (line: string): string =>
+  line.replace(/^[ \t]+/, (indent) => indent.replace(/\t/g, "    "));
+
+const parseList = (
+  lines: string[],
+  start: number,
+  resolvers: MarkdownResolvers
+): { html: string; end: number } => {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const isOrdered = /\d/.test(first[2]);
+  const items: string[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM_PATTERN.exec(lines[i]);
+    if (!match || /\d/.test(match[2]) !== isOrdered) {
+      break;
+    }
+
+    const [, indent, marker, spacing, firstLine] = match;
+    const contentIndent =
+      indent.length +
+      marker.length +
+      (spacing.length > 4 || spacing.length === 0 ? 1 : spacing.length);
+    const itemLines = [firstLine];
+    i++;
+
+    while (i < lines.length) {
+      const line = expandIndent(lines[i]);
+      const leading = /^ */.exec(line)![0].length;
+      if (isBlank(line)) {
+        itemLines.push("");
+      } else if (leading >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (
+        !isBlank(itemLines[itemLines.length - 1]) &&
+        !startsBlock(line)
+      ) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    // Blank lines only belong to the item if more of it follows
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop();
+      i--;
+    }
+    items.push(`<li>${parseBlocks(itemLines, resolvers)}</li>`);
+
+    // Skip blank lines between items of the same list
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const nextItem = LIST_ITEM_PATTERN.exec(lines[next] ?? "");
+    if (!nextItem || /\d/.test(nextItem[2]) !== isOrdered) {
+      break;
+    }
+    i = next;
+  }
+
+  if (!isOrdered) {
+    return { html: `<ul>${items.join("")}</ul>`, end: i };
+  }
+  const startNumber = parseInt(first[2], 10);
+  const startAttribute = startNumber !== 1 ? ` start="${startNumber}"` : "";
+  return { html: `<ol${startAttribute}>${items.join("")}</ol>`, end: i };
+};
+
+const parseBlocks = (lines: string[], resolvers: MarkdownResolvers): string => {
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const [, marker, language] = fence;
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(lines[i]);
+        if (
+          closing &&
+          closing[1][0] === marker[0] &&
+          closing[1].length >= marker.length
+        ) {
+          i++;
+          break;
+        }
+        codeLines.push(lines[i]);
+        i++;
+      }
+      const languageClass = language
+        ? ` class="language-${escapeAttribute(language)}"`
+        : "";
+      blocks.push(
+        `<pre><code${languageClass}>${escapeText(
+          codeLines.join("\n")
+        )}</code></pre>`
+      );
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(
+        `<h${level}>${parseInline(heading[2] ?? "", resolvers)}</h${level}>`
+      );
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(QUOTE_PATTERN.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push(
+        `<blockquote>${parseBlocks(quoteLines, resolvers)}</blockquote>`
+      );
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = parseList(lines, i, resolvers);
+      blocks.push(list.html);
+      i = list.end;
+      continue;
+    }
+
+    // Paragraph, or a setext heading when underlined with = or -
+    const paragraphLines = [line.trim()];
+    i++;
+    let level = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = SETEXT_PATTERN.exec(lines[i]);
+      if (setext) {
+        level = setext[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i])) {
+        break;
+      }
+      paragraphLines.push(lines[i].replace(/^[ \t]+/, ""));
+      i++;
+    }
+
+    const content = parseInline(
+      paragraphLines.join("\n").replace(/\\$/, ""),
+      resolvers
+    ).trim();
+    if (level > 0) {
+      blocks.push(`<h${level}>${content}</h${level}>`);
+    } else if (/^<img [^>]*>$/.test(content)) {
+      // Images are blocks in the editor
+      blocks.push(content);
+    } else {
+      blocks.push(`<p>${content}</p>`);
+    }
+  }
+
+  return blocks.join("");
+};
+
+export const markdownToHtml = (
+  markdown: string,
+  resolvers: MarkdownResolvers = {}
+): string => {
+  const html = parseBlocks(
+    markdown.replace(/\r\n?/g, "\n").split("\n"),
+    resolvers
+  );
+  return html || "<p></p>";
+};
+
+// The note name in a [[wiki link]], without any |alias or #heading
+export const wikiLinkTarget = (text: string): string =>
+  text.split("|")[0].split("#")[0].trim();
+
+// The |alias a [[wiki link]] is shown as, or null when it has none
+export const wikiLinkAlias = (text: string): string | null => {
+  const separator = text.indexOf("|");
+  const alias = separator === -1 ? "" : text.slice(separator + 1).trim();
+  return alias || null;
+};
+
+// Note names of the [[wiki links]] in Markdown, without duplicates
+export const extractWikiLinkTitles = (markdown: string): string[] =>
+  Array.from(
+    new Set(
+      Array.from(markdown.matchAll(/(?<!!)\[\[([^[\]\n]+)\]\]/g), ([, text]) =>
+        wikiLinkTarget(text)
+      ).filter(Boolean)
+    )
+  );
+
+// Relative image paths and ![[embedded]] file names in Markdown
+export const extractImagePaths = (markdown: string): string[] => {
+  const paths = [
+    ...Array.from(
+      markdown.matchAll(/!\[[^\]\n]*\]\(\s*(?:<([^>\n]+)>|([^)\s]+))/g),
+      ([, bracketed, bare]) => bracketed ?? bare
+    ).filter(isRelativeUrl),
+    ...Array.from(markdown.matchAll(/!\[\[([^[\]\n]+)\]\]/g), ([, text]) =>
+      wikiLinkTarget(text)
+    ),
+  ];
+  return Array.from(new Set(paths.filter(Boolean)));
+};
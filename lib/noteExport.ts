@@ -0,0 +1,143 @@
+import { escapeText } from "./html";
+import { NOTE_CONTENT_STYLES } from "./noteStyles";
+
+// Rendering notes as a standalone HTML document, for sharing as a file or
+// printing to PDF. Images must already be inlined as data URLs.
+
+export type PageSize = "letter" | "a4";
+
+export interface NoteExportOptions {
+  pageBreaks?: boolean; // Start a new page at each horizontal rule
+  pageSize?: PageSize; // Defaults to letter
+}
+
+export interface ExportedNote {
+  title: string;
+  content: string; // Editor HTML
+  lastModified: string; // ISO date string, shown under the title
+}
+
+// Page dimensions and margin in points (1/72 inch)
+export interface PageDimensions {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+export interface PrintedPdf {
+  uri: string; // Local file the PDF was written to
+  numberOfPages: number;
+}
+
+// Prints an HTML document to a PDF file. The app registers one backed by
+// expo-print; headless callers can supply their own.
+export interface PdfPrinter {
+  printToFile(html: string, page: PageDimensions): Promise<PrintedPdf>;
+}
+
+export const PAGE_DIMENSIONS: Record<PageSize, PageDimensions> = {
+  letter: { width: 612, height: 792, margin: 54 },
+  a4: { width: 595, height: 842, margin: 54 },
+};
+
+const formatExportDate = (isoString: string): string =>
+  new Date(isoString).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const documentStyles = (page: PageDimensions): string => `
+  @page {
+    size: ${page.width}pt ${page.height}pt;
+    margin: ${page.margin}pt;
+  }
+
+  body {
+    margin: 0;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    background: #ffffff;
+  }
+
+  @media screen {
+    body {
+      max-width: 720px;
+      margin: 0 auto;
+      padding: 32px 16px;
+    }
+  }
+
+  ${NOTE_CONTENT_STYLES}
+
+  .ProseMirror img {
+    max-width: 100%;
+    break-inside: avoid;
+  }
+
+  .note-header {
+    margin: 0 0 24px 0;
+    padding-bottom: 12px;
+    border-bottom: 2px solid #fed7aa;
+  }
+
+  .note-header h1 {
+    margin: 0 0 4px 0;
+    font-size: 24px;
+    line-height: 1.3;
+    color: #111827;
+  }
+
+  .note-header time {
+    font-size: 12px;
+    color: #6b7280;
+  }
+
+  /* Each note starts on its own page */
+  .note + .note {
+    break-before: page;
+  }
+
+  .page-breaks .ProseMirror hr {
+    break-after: page;
+    border: none;
+    margin: 0;
+  }
+`;
+
+const renderNote = (note: ExportedNote): string => `
+  <article class="note">
+    <header class="note-header">
+      <h1>${escapeText(note.title || "Untitled Note")}</h1>
+      <time datetime="${note.lastModified}">${escapeText(
+        formatExportDate(note.lastModified)
+      )}</time>
+    </header>
+    <div class="ProseMirror">${note.content}</div>
+  </article>`;
+
+// Build one document holding the notes in order, styled like the editor
+export const renderNotesDocument = (
+  notes: ExportedNote[],
+  options: NoteExportOptions = {}
+): string => {
+  const page = PAGE_DIMENSIONS[options.pageSize ?? "letter"];
+  const title =
+    notes.length === 1
+      ? notes[0].title || "Untitled Note"
+      : `${notes.length} notes`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeText(title)}</title>
+  <style>${documentStyles(page)}</style>
+</head>
+<body${options.pageBreaks ? ' class="page-breaks"' : ""}>${notes
+    .map(renderNote)
+    .join("")}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,54 @@
+// Typography for note content, shared by the editor and exported documents
+// so a note looks the same in both. Rules are scoped to .ProseMirror, the
+// class TipTap gives the editable element.
+export const NOTE_CONTENT_STYLES = `
+  .ProseMirror {
+    font-size: 14px;
+    line-height: 1.6;
+    color: #111827;
+  }
+
+  .ProseMirror > * {
+    max-width: 100%;
+    box-sizing: border-box;
+    word-wrap: break-word;
+    overflow-wrap: break-word;
+  }
+
+  .ProseMirror p {
+    margin: 0 0 16px 0;
+  }
+
+  .ProseMirror img {
+    width: auto;
+    height: auto;
+    display: block;
+    margin: 24px 0;
+    border-radius: 8px;
+    border: 2px solid #fed7aa;
+    object-fit: contain;
+    box-sizing: border-box;
+  }
+
+  .ProseMirror img[style*="text-align: left"] {
+    margin-left: 0;
+    margin-right: auto;
+  }
+
+  .ProseMirror img[style*="text-align: center"] {
+    margin-left: auto;
+    margin-right: auto;
+  }
+
+  .ProseMirror img[style*="text-align: right"] {
+    margin-left: auto;
+    margin-right: 0;
+  }
+
+  .ProseMirror .note-link {
+    color: #ea580c;
+    background-color: #fff7ed;
+    border-radius: 4px;
+    padding: 0 2px;
+  }
+`;
@@ -0,0 +1,71 @@
+// Note reminders delivered as local notifications
+
+// A reminder to schedule for a note
+export interface ScheduledReminder {
+  noteId: string;
+  title: string; // Shown on the notification
+  fireAt: string; // ISO date string
+}
+
+// Schedules reminder notifications, at most one per note. The app registers
+// one backed by expo-notifications; headless callers can leave it unset.
+export interface ReminderScheduler {
+  schedule(reminder: ScheduledReminder): Promise<void>; // Replaces the note's previous one
+  cancel(noteId: string): Promise<void>;
+  cancelAll(): Promise<void>;
+}
+
+// Buttons on a reminder notification
+export const REMINDER_ACTION_SNOOZE = "snooze";
+export const REMINDER_ACTION_DONE = "done";
+
+export const DEFAULT_SNOOZE_MINUTES = 60;
+
+// iOS keeps at most 64 pending notifications per app; the soonest reminders
+// are scheduled and the rest wait for a later launch
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+export interface ReminderPreset {
+  label: string;
+  date: Date;
+}
+
+const atTime = (date: Date, hours: number): Date => {
+  const result = new Date(date);
+  result.setHours(hours, 0, 0, 0);
+  return result;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Quick choices for setting a reminder. "This evening" is only offered
+// while there is still some of the afternoon left.
+export const reminderPresets = (now: Date = new Date()): ReminderPreset[] => {
+  const presets: ReminderPreset[] = [
+    { label: "In 1 hour", date: new Date(now.getTime() + 60 * 60 * 1000) },
+  ];
+  if (now.getHours() < 17) {
+    presets.push({ label: "This evening", date: atTime(now, 18) });
+  }
+  presets.push({
+    label: "Tomorrow morning",
+    date: atTime(addDays(now, 1), 9),
+  });
+
+  // Monday of next week; a week from today when today is Monday
+  const daysToMonday = (8 - now.getDay()) % 7 || 7;
+  presets.push({
+    label: "Next week",
+    date: atTime(addDays(now, daysToMonday), 9),
+  });
+  return presets;
+};
+
+export const isReminderDue = (
+  reminderAt: string,
+  now: Date = new Date()
+): boolean => new Date(reminderAt).getTime() <= now.getTime();
@@ -0,0 +1,68 @@
+// Variables in note templates, filled in when a note is created:
+//   {{date}}     2026-10-19
+//   {{time}}     14:05
+//   {{weekday}}  Monday
+//   {{cursor}}   Where the caret starts in the new note (content only)
+// Unknown variables are left as written.
+
+// Title, content and caret of a note made from a template
+export interface ExpandedTemplate {
+  title: string;
+  content: string;
+  cursor: number | null; // Offset into content of the first {{cursor}}
+}
+
+export const TEMPLATE_VARIABLES = ["date", "time", "weekday", "cursor"];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const variableValues = (now: Date): Record<string, string> => ({
+  date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+  time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  weekday: now.toLocaleDateString("en-US", { weekday: "long" }),
+});
+
+// Replace the variables in text. {{cursor}} is removed and the offset of the
+// first one reported.
+const expandText = (
+  text: string,
+  values: Record<string, string>
+): { text: string; cursor: number | null } => {
+  let result = "";
+  let cursor: number | null = null;
+  let last = 0;
+
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    result += text.slice(last, match.index);
+    last = match.index! + match[0].length;
+
+    const name = match[1].toLowerCase();
+    if (name === "cursor") {
+      cursor = cursor ?? result.length;
+    } else {
+      result += values[name] ?? match[0];
+    }
+  }
+
+  return { text: result + text.slice(last), cursor };
+};
+
+export const expandTemplate = (
+  template: { titlePattern: string; content: string },
+  now: Date = new Date()
+): ExpandedTemplate => {
+  const values = variableValues(now);
+  const title = expandText(template.titlePattern, values).text.trim();
+  const content = expandText(template.content, values);
+  return { title, content: content.text, cursor: content.cursor };
+};
+
+// Template name for a title pattern, without its variables:
+// "Standup {{date}}" is named "Standup"
+export const templateNameFromTitle = (titlePattern: string): string =>
+  titlePattern
+    .replace(VARIABLE_PATTERN, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-–—:|,]+|[\s\-–—:|,]+$/g, "");
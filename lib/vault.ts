@@ -0,0 +1,77 @@
+// A directory tree of Markdown files, such as an Obsidian vault. Paths are
+// relative to the vault root and use "/" separators.
+export interface VaultFiles {
+  list(): Promise<string[]>; // Every file in the tree
+  readText(path: string): Promise<string>;
+  readBase64(path: string): Promise<string>;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  heic: "image/heic",
+};
+
+export const isMarkdownPath = (path: string): boolean =>
+  /\.(md|markdown)$/i.test(path);
+
+// Files and folders starting with "." hold app settings, like .obsidian
+export const isHiddenPath = (path: string): boolean =>
+  path.split("/").some((segment) => segment.startsWith("."));
+
+export const dirname = (path: string): string =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+// File name without its directory or, optionally, its extension
+export const basename = (path: string, stripExtension = false): string => {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  return stripExtension ? name.replace(/\.[^.]+$/, "") : name;
+};
+
+export const imageMimeType = (path: string): string | null =>
+  IMAGE_MIME_TYPES[/\.([^./]+)$/.exec(path)?.[1]?.toLowerCase() ?? ""] ?? null;
+
+// Resolve "." and ".." segments. Returns null for paths that leave the
+// vault.
+export const normalizeVaultPath = (path: string): string | null => {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      if (segments.length === 0) {
+        return null;
+      }
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+};
+
+// The vault path a link in the file at fromPath points to. Links are
+// URL-encoded and may carry a #heading; a leading "/" means the vault root.
+export const resolveVaultLink = (
+  fromPath: string,
+  url: string
+): string | null => {
+  let path = url.replace(/[#?].*$/, "");
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Not encoded after all
+  }
+  if (!path) {
+    return null;
+  }
+  return normalizeVaultPath(
+    path.startsWith("/") ? path : `${dirname(fromPath)}/${path}`
+  );
+};
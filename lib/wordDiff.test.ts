@@ -0,0 +1,115 @@
+import { DiffSegment, diffWords } from "./wordDiff";
+
+const oldSide = (segments: DiffSegment[]): string =>
+  segments
+    .filter((segment) => segment.type !== "added")
+    .map((segment) => segment.text)
+    .join("");
+
+const newSide = (segments: DiffSegment[]): string =>
+  segments
+    .filter((segment) => segment.type !== "removed")
+    .map((segment) => segment.text)
+    .join("");
+
+// Tokens changed by the diff, to compare against the shortest edit script
+const editedTokens = (segments: DiffSegment[]): number =>
+  segments
+    .filter((segment) => segment.type !== "equal")
+    .reduce(
+      (count, segment) => count + (segment.text.match(/\s+|\S+/g) ?? []).length,
+      0
+    );
+
+// Shortest edit script length by dynamic programming, for small inputs
+const shortestEditLength = (oldText: string, newText: string): number => {
+  const a = oldText.match(/\s+|\S+/g) ?? [];
+  const b = newText.match(/\s+|\S+/g) ?? [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  return a.length + b.length - 2 * lcs[0][0];
+};
+
+const words = (count: number, prefix: string): string =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(" ");
+
+describe("diffWords", () => {
+  it("marks added and removed words between unchanged text", () => {
+    expect(diffWords("the quick brown fox", "the slow brown dog")).toEqual([
+      { type: "equal", text: "the " },
+      { type: "removed", text: "quick" },
+      { type: "added", text: "slow" },
+      { type: "equal", text: " brown " },
+      { type: "removed", text: "fox" },
+      { type: "added", text: "dog" },
+    ]);
+  });
+
+  it("handles empty texts", () => {
+    expect(diffWords("", "")).toEqual([]);
+    expect(diffWords("", "new text")).toEqual([
+      { type: "added", text: "new text" },
+    ]);
+    expect(diffWords("old text", "")).toEqual([
+      { type: "removed", text: "old text" },
+    ]);
+  });
+
+  it("finds a shortest edit script", () => {
+    // Deterministic pseudo-random texts over a small vocabulary
+    let seed = 42;
+    const random = (): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const text = (): string =>
+      Array.from(
+        { length: Math.floor(random() * 30) },
+        () => ["a", "b", "c", "d"][Math.floor(random() * 4)]
+      ).join(random() < 0.8 ? " " : "  ");
+
+    for (let i = 0; i < 200; i++) {
+      const oldText = text();
+      const newText = text();
+      const segments = diffWords(oldText, newText);
+      expect(oldSide(segments)).toBe(oldText);
+      expect(newSide(segments)).toBe(newText);
+      expect(editedTokens(segments)).toBe(shortestEditLength(oldText, newText));
+    }
+  });
+
+  it("diffs long, completely rewritten notes in bounded memory", () => {
+    const oldText = words(5000, "old");
+    const newText = words(5000, "new");
+    const before = process.memoryUsage().arrayBuffers;
+
+    const segments = diffWords(oldText, newText);
+
+    expect(process.memoryUsage().arrayBuffers - before).toBeLessThan(
+      16 * 1024 * 1024
+    );
+    expect(oldSide(segments)).toBe(oldText);
+    expect(newSide(segments)).toBe(newText);
+  });
+
+  it("keeps long unchanged runs around an edit", () => {
+    const oldText = `${words(3000, "w")} middle ${words(3000, "z")}`;
+    const newText = `${words(3000, "w")} centre ${words(3000, "z")}`;
+    const changes = diffWords(oldText, newText).filter(
+      (segment) => segment.type !== "equal"
+    );
+    expect(changes).toEqual([
+      { type: "removed", text: "middle" },
+      { type: "added", text: "centre" },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+export type DiffSegmentType = "equal" | "added" | "removed";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Split text into alternating word and whitespace tokens so the diff can be
+// joined back together without losing spacing
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+const pushSegment = (
+  segments: DiffSegment[],
+  type: DiffSegmentType,
+  text: string
+): void => {
+  if (!text) {
+    return;
+  }
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+// Myers' diff in linear space: find the middle snake of the optimal edit
+// path, then diff the halves on either side of it. Time stays O((N+M)D), and
+// only two vectors of O(N+M) are kept, whatever the number of edits.
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  const size = Math.ceil((a.length + b.length) / 2) + 1;
+  const forward = new Int32Array(2 * size + 1);
+  const backward = new Int32Array(2 * size + 1);
+
+  // Start of a snake on an optimal path from (aLo, bLo) to (aHi, bHi). The
+  // ranges have no common prefix or suffix, so the path has at least two
+  // edits and the point lies strictly between its ends.
+  const findMiddleSnake = (
+    aLo: number,
+    aHi: number,
+    bLo: number,
+    bHi: number
+  ): [number, number] => {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const delta = n - m;
+    const isOdd = (delta & 1) === 1;
+    // Vectors hold the furthest x per diagonal k = x - y, indexed from size.
+    // Backward x and y count from the end of the ranges.
+    forward[size + 1] = 0;
+    backward[size + 1] = 0;
+
+    for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+      for (let k = -d; k <= d; k += 2) {
+        const startX =
+          k === -d || (k !== d && forward[size + k - 1] < forward[size + k + 1])
+            ? forward[size + k + 1]
+            : forward[size + k - 1] + 1;
+        const startY = startX - k;
+        let x = startX;
+        let y = startY;
+        while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+          x++;
+          y++;
+        }
+        forward[size + k] = x;
+
+        const reverseK = delta - k;
+        if (
+          isOdd &&
+          reverseK >= -(d - 1) &&
+          reverseK <= d - 1 &&
+          x + backward[size + reverseK] >= n
+        ) {
+          return [aLo + startX, bLo + startY];
+        }
+      }
+
+      for (let k = -d; k <= d; k += 2) {
+        const startX =
+          k === -d ||
+          (k !== d && backward[size + k - 1] < backward[size + k + 1])
+            ? backward[size + k + 1]
+            : backward[size + k - 1] + 1;
+        let x = startX;
+        let y = startX - k;
+        while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+          x++;
+          y++;
+        }
+        backward[size + k] = x;
+
+        const forwardK = delta - k;
+        if (
+          !isOdd &&
+          forwardK >= -d &&
+          forwardK <= d &&
+          x + forward[size + forwardK] >= n
+        ) {
+          return [aHi - x, bHi - y];
+        }
+      }
+    }
+
+    // Unreachable: the paths meet by the time d passes half of N + M
+    return [aLo + 1, bLo + 1];
+  };
+
+  const diffRange = (
+    aLo: number,
+    aHi: number,
+    bLo: number,
+    bHi: number
+  ): void => {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      pushSegment(segments, "equal", a[aLo]);
+      aLo++;
+      bLo++;
+    }
+    let suffix = 0;
+    while (
+      aHi - suffix > aLo &&
+      bHi - suffix > bLo &&
+      a[aHi - 1 - suffix] === b[bHi - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    aHi -= suffix;
+    bHi -= suffix;
+
+    if (aLo === aHi) {
+      pushSegment(segments, "added", b.slice(bLo, bHi).join(""));
+    } else if (bLo === bHi) {
+      pushSegment(segments, "removed", a.slice(aLo, aHi).join(""));
+    } else {
+      const [x, y] = findMiddleSnake(aLo, aHi, bLo, bHi);
+      diffRange(aLo, x, bLo, y);
+      diffRange(x, aHi, y, bHi);
+    }
+
+    pushSegment(segments, "equal", a.slice(aHi, aHi + suffix).join(""));
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return segments;
+};
+
+// Word-level diff from oldText to newText. Unchanged leading and trailing
+// tokens are trimmed before diffing to keep typical edits cheap.
+export const diffWords = (oldText: string, newText: string): DiffSegment[] => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, "equal", a.slice(0, prefix).join(""));
+  for (const segment of diffTokens(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix)
+  )) {
+    pushSegment(segments, segment.type, segment.text);
+  }
+  pushSegment(segments, "equal", a.slice(a.length - suffix).join(""));
+
+  return segments;
+};
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * WebSocket relay for editing notes together (lib/collaboration.ts). Each
+ * URL path is a room, one per note; every binary message is forwarded to
+ * the other clients in the room. The relay keeps no document state: peers
+ * sync each other, so a room only has content while someone is in it. A
+ * client that joins an empty room is told so, and only that client seeds
+ * the shared document with the note's content.
+ *
+ *   npm run collab-relay -- [--port 1234]
+ *
+ * Set EXPO_PUBLIC_COLLAB_RELAY_URL=ws://<this machine>:1234 in the app.
+ */
+
+const http = require("http");
+const { WebSocketServer } = require("ws");
+
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+// Sent by the relay to a client that has just joined, followed by 1 if the
+// room was empty and 0 otherwise. Types 0 and 1 are the clients' own.
+const MESSAGE_JOINED = 2;
+
+// Attach the relay to an HTTP server. Returns the room membership, keyed by
+// room name, for inspection.
+const createCollabRelay = (server) => {
+  const rooms = new Map();
+  const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_BYTES });
+
+  wss.on("connection", (socket, request) => {
+    const url = new URL(request.url, "http://localhost");
+    const room = decodeURIComponent(url.pathname.slice(1));
+    if (!room) {
+      socket.close(1008, "Room missing from path");
+      return;
+    }
+
+    if (!rooms.has(room)) {
+      rooms.set(room, new Set());
+    }
+    const peers = rooms.get(room);
+    peers.add(socket);
+    socket.send(new Uint8Array([MESSAGE_JOINED, peers.size === 1 ? 1 : 0]), {
+      binary: true,
+    });
+
+    socket.on("message", (data, isBinary) => {
+      if (!isBinary) {
+        return;
+      }
+      for (const peer of peers) {
+        if (peer !== socket && peer.readyState === peer.OPEN) {
+          peer.send(data, { binary: true });
+        }
+      }
+    });
+
+    socket.on("close", () => {
+      peers.delete(socket);
+      if (peers.size === 0) {
+        rooms.delete(room);
+      }
+    });
+  });
+
+  return rooms;
+};
+
+const parseArgs = (args) => {
+  const options = { port: 1234 };
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i].replace(/^--/, "");
+    if (!(name in options) || args[i + 1] === undefined) {
+      throw new Error(`Unknown or incomplete option: ${args[i]}`);
+    }
+    options[name] = Number(args[i + 1]);
+  }
+  return options;
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const server = http.createServer((request, response) => {
+    response.writeHead(426, { "Content-Type": "text/plain" });
+    response.end("Connect with a WebSocket");
+  });
+  createCollabRelay(server);
+  server.listen(options.port, () => {
+    console.log(`🤝 Collaboration relay listening on port ${options.port}`);
+  });
+};
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { createCollabRelay };
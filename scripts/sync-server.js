@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+
+/**
+ * Reference server for the sync protocol in docs/sync-protocol.md, for
+ * developing and testing sync against a local machine. It keeps every record
+ * in memory, optionally saved to a JSON file after each push.
+ *
+ *   npm run sync-server -- [--port 8787] [--data sync-data.json] [--token secret]
+ *
+ * Point phones and tablets on the same network at http://<this machine>:8787.
+ */
+
+const fs = require("fs");
+const http = require("http");
+
+const PROTOCOL_VERSION = 1;
+const ENTITIES = ["attachment", "folder", "note"];
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const MAX_BODY_LENGTH = 50 * 1024 * 1024; // Characters of JSON
+
+class ProtocolError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const recordKey = (entity, id) => `${entity}:${id}`;
+
+// The server's copy of every record, tombstones included. seq orders the
+// change feed devices pull from; version counts accepted changes per record.
+const createSyncStore = (state = { seq: 0, records: [] }) => {
+  let lastSeq = state.seq;
+  const records = new Map(
+    state.records.map((record) => [recordKey(record.entity, record.id), record])
+  );
+
+  const pull = (since, limit) => {
+    const page = Array.from(records.values())
+      .filter((record) => record.seq > since)
+      .sort((a, b) => a.seq - b.seq);
+    const results = page.slice(0, limit);
+    return {
+      records: results,
+      cursor: results.length > 0 ? results[results.length - 1].seq : since,
+      hasMore: page.length > limit,
+    };
+  };
+
+  const applyChange = (deviceId, change) => {
+    const { entity, id } = change;
+    const current = records.get(recordKey(entity, id));
+    const currentVersion = current ? current.version : 0;
+
+    // Attachments never change, and deleting twice is still deleted
+    const isRepeat =
+      current &&
+      ((entity === "attachment" && !current.deleted && !change.deleted) ||
+        (current.deleted && change.deleted));
+    if (isRepeat) {
+      return { entity, id, status: "accepted", version: currentVersion };
+    }
+
+    // A change must build on the version the server has. A record the
+    // server has never seen is accepted whatever the device believes.
+    if (current && (change.baseVersion ?? 0) !== currentVersion) {
+      return { entity, id, status: "conflict", current };
+    }
+
+    const record = {
+      entity,
+      id,
+      version: currentVersion + 1,
+      seq: ++lastSeq,
+      deleted: change.deleted,
+      data: change.deleted ? null : change.data,
+      modifiedAt: new Date().toISOString(),
+      deviceId,
+    };
+    records.set(recordKey(entity, id), record);
+    return { entity, id, status: "accepted", version: record.version };
+  };
+
+  const push = (request) => ({
+    results: request.changes.map((change) =>
+      applyChange(request.deviceId, change)
+    ),
+  });
+
+  const snapshot = () => ({
+    seq: lastSeq,
+    records: Array.from(records.values()),
+  });
+
+  return { pull, push, snapshot };
+};
+
+const validatePushRequest = (body) => {
+  const isChange = (change) =>
+    change &&
+    ENTITIES.includes(change.entity) &&
+    typeof change.id === "string" &&
+    change.id !== "" &&
+    (change.baseVersion === null || Number.isInteger(change.baseVersion)) &&
+    typeof change.deleted === "boolean" &&
+    (change.deleted
+      ? change.data === null
+      : change.data !== null && typeof change.data === "object");
+
+  if (
+    !body ||
+    typeof body.deviceId !== "string" ||
+    !Array.isArray(body.changes) ||
+    !body.changes.every(isChange)
+  ) {
+    throw new ProtocolError(400, "INVALID_REQUEST", "Malformed push request");
+  }
+};
+
+const readJsonBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_LENGTH) {
+        reject(new ProtocolError(413, "REQUEST_TOO_LARGE", "Body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new ProtocolError(400, "INVALID_JSON", "Body is not JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+
+// Node request handler speaking the REST protocol. onPush runs after every
+// accepted push, e.g. to save the store.
+const createSyncHandler = (store, { token, onPush } = {}) => {
+  const handle = async (request) => {
+    const url = new URL(request.url, "http://localhost");
+    if (url.pathname !== "/sync/changes") {
+      throw new ProtocolError(404, "NOT_FOUND", "Unknown endpoint");
+    }
+    if (token && request.headers.authorization !== `Bearer ${token}`) {
+      throw new ProtocolError(401, "UNAUTHORIZED", "Missing or wrong token");
+    }
+    if (request.headers["x-sync-protocol"] !== String(PROTOCOL_VERSION)) {
+      throw new ProtocolError(
+        426,
+        "PROTOCOL_VERSION_UNSUPPORTED",
+        `This server speaks sync protocol ${PROTOCOL_VERSION}`
+      );
+    }
+
+    if (request.method === "GET") {
+      const since = Number(url.searchParams.get("since") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+      if (!Number.isInteger(since) || since < 0 || !Number.isInteger(limit)) {
+        throw new ProtocolError(400, "INVALID_REQUEST", "Bad since or limit");
+      }
+      return store.pull(since, Math.min(Math.max(limit, 1), MAX_PAGE_SIZE));
+    }
+    if (request.method === "POST") {
+      const body = await readJsonBody(request);
+      validatePushRequest(body);
+      const result = store.push(body);
+      if (onPush) {
+        onPush();
+      }
+      return result;
+    }
+    throw new ProtocolError(405, "METHOD_NOT_ALLOWED", "Use GET or POST");
+  };
+
+  return (request, response) => {
+    handle(request).then(
+      (body) => {
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(body));
+      },
+      (error) => {
+        const status = error instanceof ProtocolError ? error.status : 500;
+        const code =
+          error instanceof ProtocolError ? error.code : "INTERNAL_ERROR";
+        if (status === 500) {
+          console.error("❌ Sync request failed:", error);
+        }
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(
+          JSON.stringify({ error: { code, message: error.message } })
+        );
+      }
+    );
+  };
+};
+
+const parseArgs = (args) => {
+  const options = { port: 8787, data: null, token: null };
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i].replace(/^--/, "");
+    if (!(name in options) || args[i + 1] === undefined) {
+      throw new Error(`Unknown or incomplete option: ${args[i]}`);
+    }
+    options[name] = name === "port" ? Number(args[i + 1]) : args[i + 1];
+  }
+  return options;
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const state =
+    options.data && fs.existsSync(options.data)
+      ? JSON.parse(fs.readFileSync(options.data, "utf8"))
+      : undefined;
+  const store = createSyncStore(state);
+
+  const save = () => {
+    if (options.data) {
+      fs.writeFileSync(options.data, JSON.stringify(store.snapshot()));
+    }
+  };
+
+  http
+    .createServer(
+      createSyncHandler(store, { token: options.token, onPush: save })
+    )
+    .listen(options.port, () => {
+      console.log(`🔄 Sync server listening on port ${options.port}`);
+    });
+};
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { createSyncStore, createSyncHandler };
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { createNodeNoteRepository } from "../database/drivers/node";
+import { Note } from "../database/models/Note";
+import { noteLinkHtml } from "../database/models/NoteLink";
+import { NoteRepository } from "../database/NoteRepository";
+import { NoteService } from "./NoteService";
+
+describe("NoteService on the Node SQLite driver", () => {
+  let directory: string;
+  let repository: NoteRepository;
+  let service: NoteService;
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), "inky-service-"));
+    repository = createNodeNoteRepository({
+      filename: path.join(directory, "notes.db"),
+    });
+    service = new NoteService({ debounceMs: 10 }, repository);
+    expect((await service.initialize()).success).toBe(true);
+  });
+
+  afterAll(async () => {
+    await repository.close();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("finds notes by their text", async () => {
+    await service.createNewNote({ title: "Groceries", content: "<p>Eggs</p>" });
+    await service.createNewNote({ title: "Errands", content: "<p>Post</p>" });
+
+    const result = await service.searchNotes({ query: "eggs" });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.notes.map((note) => note.title)).toEqual(["Groceries"]);
+  });
+
+  it("saves an update and bumps the version", async () => {
+    const created = await service.createNewNote({
+      title: "Draft",
+      content: "<p>One</p>",
+    });
+
+    const saved = await service.saveNote({
+      id: created.data!.id,
+      title: "Final",
+    });
+
+    expect(saved.success).toBe(true);
+    const stored = await repository.getNoteById(created.data!.id);
+    expect(stored.data!.title).toBe("Final");
+    expect(stored.data!.content).toBe("<p>One</p>");
+    expect(stored.data!.metadata.version).toBe(
+      created.data!.metadata.version + 1
+    );
+  });
+
+  it("auto-saves the latest changes once typing stops", async () => {
+    const created = await service.createNewNote({
+      title: "Journal",
+      content: "<p></p>",
+    });
+    const id = created.data!.id;
+
+    service.scheduleAutoSave({ id, content: "<p>Dear</p>" });
+    service.scheduleAutoSave({ id, content: "<p>Dear diary</p>" });
+    expect((await repository.getNoteById(id)).data!.content).toBe("<p></p>");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const stored = await repository.getNoteById(id);
+    expect(stored.data!.content).toBe("<p>Dear diary</p>");
+    expect(stored.data!.metadata.version).toBe(
+      created.data!.metadata.version + 1
+    );
+  });
+});
+
+describe("NoteService concurrent saves", () => {
+  let directory: string;
+  let repository: NoteRepository;
+  // Two screens editing the same note, each with its own view of it
+  let local: NoteService;
+  let remote: NoteService;
+  let note: Note;
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), "inky-merge-"));
+    repository = createNodeNoteRepository({
+      filename: path.join(directory, "notes.db"),
+    });
+    local = new NoteService(undefined, repository);
+    remote = new NoteService(undefined, repository);
+    expect((await local.initialize()).success).toBe(true);
+  });
+
+  afterAll(async () => {
+    await repository.close();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  // A note both services have loaded
+  beforeEach(async () => {
+    const created = await local.createNewNote({
+      title: "Groceries",
+      content: "<p>Milk</p>",
+      tags: ["home"],
+    });
+    note = created.data!;
+    expect((await remote.getNote(note.id)).success).toBe(true);
+  });
+
+  it("merges saves that change different fields", async () => {
+    await remote.saveNote({ id: note.id, title: "Shopping" });
+
+    const result = await local.saveNote({
+      id: note.id,
+      content: "<p>Milk, eggs</p>",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.title).toBe("Shopping");
+    expect(result.data!.content).toBe("<p>Milk, eggs</p>");
+  });
+
+  it("keeps the stored value of fields the save left unchanged", async () => {
+    await remote.saveNote({
+      id: note.id,
+      title: "Shopping",
+      tags: ["errands"],
+    });
+
+    // An editor saves every field, whether it was edited or not
+    const result = await local.saveNote({
+      id: note.id,
+      title: "Groceries",
+      content: "<p>Milk, eggs</p>",
+      tags: ["home"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.title).toBe("Shopping");
+    expect(result.data!.tags).toEqual(["errands"]);
+    expect(result.data!.content).toBe("<p>Milk, eggs</p>");
+  });
+
+  it("merges saves that make the same change", async () => {
+    await remote.saveNote({ id: note.id, title: "Shopping" });
+
+    const result = await local.saveNote({ id: note.id, title: "Shopping" });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.title).toBe("Shopping");
+  });
+
+  it("reports a conflict when both change a field differently", async () => {
+    await remote.saveNote({ id: note.id, title: "Shopping" });
+
+    const result = await local.saveNote({ id: note.id, title: "Errands" });
+
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe("VERSION_CONFLICT");
+    expect((await local.getNote(note.id)).data!.title).toBe("Shopping");
+  });
+
+  it("keeps link labels a rename rewrote while the linking note was open", async () => {
+    const source = await local.createNewNote({
+      title: "Errands",
+      content: `<p>Buy ${noteLinkHtml(note.id, "Groceries")}</p>`,
+    });
+
+    await remote.saveNote({ id: note.id, title: "Shopping" });
+    // The editor saves the content it was showing, with the old label
+    const result = await local.saveNote({
+      id: source.data!.id,
+      title: "Errands",
+      content: source.data!.content,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.content).toBe(
+      `<p>Buy ${noteLinkHtml(note.id, "Shopping")}</p>`
+    );
+  });
+
+  it("merges against the base of an explicit expected version", async () => {
+    await remote.saveNote({ id: note.id, title: "Shopping" });
+
+    const result = await local.saveNote({
+      id: note.id,
+      content: "<p>Milk, eggs</p>",
+      expectedVersion: note.metadata.version,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.title).toBe("Shopping");
+  });
+
+  it("reports a conflict for a stale expected version it has no base for", async () => {
+    const saved = await local.saveNote({ id: note.id, title: "Shopping" });
+    await remote.getNote(note.id);
+    await remote.saveNote({ id: note.id, content: "<p>Milk, eggs</p>" });
+
+    // Written against the first version, before "Shopping"
+    const result = await local.saveNote({
+      id: note.id,
+      title: "Errands",
+      expectedVersion: note.metadata.version,
+    });
+
+    expect(saved.data!.metadata.version).not.toBe(note.metadata.version);
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe("VERSION_CONFLICT");
+    expect((await local.getNote(note.id)).data!.title).toBe("Shopping");
+  });
+});
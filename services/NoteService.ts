@@ -1,18 +1,81 @@
 import {
+  BulkNoteResult,
   CreateNoteParams,
+  DatabaseError,
   DatabaseResult,
+  isVersionConflict,
+  LOCKED_NOTE_TITLE,
   Note,
+  NoteSearchPage,
   SearchNotesParams,
   UpdateNoteParams,
 } from "../database/models/Note";
+import { TagWithCount } from "../database/models/Tag";
 import {
-  createNote,
-  deleteNote,
-  getNoteById,
-  initializeDatabase,
-  searchNotes,
-  updateNote,
-} from "../database/queries/noteQueries";
+  NoteTemplate,
+  TemplateNote,
+  UpdateTemplateParams,
+} from "../database/models/Template";
+import { RestoreMode, RestoreReport } from "../database/models/Backup";
+import { DatabaseOptions } from "../database/connection";
+import {
+  CreateFolderParams,
+  DeleteFolderMode,
+  Folder,
+  FolderWithCount,
+} from "../database/models/Folder";
+import {
+  linkFirstMention,
+  NoteBacklinks,
+  NoteLinkTarget,
+} from "../database/models/NoteLink";
+import {
+  NoteRevision,
+  NoteRevisionSummary,
+} from "../database/models/NoteRevision";
+import {
+  createSQLiteNoteRepository,
+  NoteRepository,
+} from "../database/NoteRepository";
+import { ATTACHMENT_URI_SCHEME } from "../database/models/Attachment";
+import {
+  extractImagePaths,
+  extractWikiLinkTitles,
+  htmlToMarkdown,
+  markdownToHtml,
+  wikiLinkTarget,
+} from "../lib/markdown";
+import { countEnexNotes, isEnex, readEnexNotes } from "../lib/enex";
+import {
+  ExportedNote,
+  NoteExportOptions,
+  PAGE_DIMENSIONS,
+  PdfPrinter,
+  PrintedPdf,
+  renderNotesDocument,
+} from "../lib/noteExport";
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  isReminderDue,
+  MAX_SCHEDULED_REMINDERS,
+  ReminderScheduler,
+  ScheduledReminder,
+} from "../lib/reminders";
+import { expandTemplate, templateNameFromTitle } from "../lib/templates";
+import {
+  basename,
+  dirname,
+  imageMimeType,
+  isHiddenPath,
+  isMarkdownPath,
+  resolveVaultLink,
+  VaultFiles,
+} from "../lib/vault";
+import {
+  formatFrontMatter,
+  FrontMatterValue,
+  parseFrontMatter,
+} from "../lib/frontMatter";
 
 // Auto-save configuration
 interface AutoSaveConfig {
@@ -21,6 +84,51 @@ interface AutoSaveConfig {
   maxRetries: number;
 }
 
+// A save that could not be merged with a change made elsewhere. local holds
+// the unsaved edits; current is the note as it is now stored.
+export interface NoteConflict {
+  noteId: string;
+  local: UpdateNoteParams;
+  current: Note;
+}
+
+type ConflictListener = (conflict: NoteConflict) => void;
+type NotesChangedListener = (noteIds: string[]) => void;
+
+// Reported after each note of an import
+export interface ImportProgress {
+  completed: number;
+  total: number;
+  title: string; // Title of the note just processed
+}
+
+export interface NoteImportResult {
+  title: string;
+  success: boolean;
+  noteId?: string;
+  error?: DatabaseError;
+}
+
+// Fields a save can change, compared when merging concurrent saves
+const MERGEABLE_FIELDS = [
+  "title",
+  "content",
+  "folderId",
+  "tags",
+  "isPinned",
+  "isFavorite",
+  "isDeleted",
+] as const;
+
+const countSucceeded = (results: { success: boolean }[] = []): number =>
+  results.filter((result) => result.success).length;
+
+const succeededIds = (results: BulkNoteResult[] = []): string[] =>
+  results.filter((result) => result.success).map((result) => result.id);
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
 // Note service class for business logic
 export class NoteService {
   private autoSaveConfig: AutoSaveConfig = {
@@ -31,18 +139,32 @@ export class NoteService {
 
   private autoSaveTimers: Map<string, NodeJS.Timeout> = new Map();
   private pendingChanges: Map<string, Partial<UpdateNoteParams>> = new Map();
+  // Last stored state handed out or saved per note; the base for merges
+  private lastSeenNotes: Map<string, Note> = new Map();
+  // Saves for the same note run one after another
+  private saveQueues: Map<string, Promise<unknown>> = new Map();
+  private conflictListeners: Set<ConflictListener> = new Set();
+  private notesChangedListeners: Set<NotesChangedListener> = new Set();
+  private pdfPrinter: PdfPrinter | null = null;
+  private reminderScheduler: ReminderScheduler | null = null;
 
-  constructor(config?: Partial<AutoSaveConfig>) {
+  // Defaults to SQLite on the driver configured with setDatabaseDriver
+  constructor(
+    config?: Partial<AutoSaveConfig>,
+    private repository: NoteRepository = createSQLiteNoteRepository()
+  ) {
     if (config) {
       this.autoSaveConfig = { ...this.autoSaveConfig, ...config };
     }
   }
 
-  // Initialize the database
-  async initialize(): Promise<DatabaseResult<boolean>> {
+  // Initialize the database. Options only take effect on the first call.
+  async initialize(
+    options?: DatabaseOptions
+  ): Promise<DatabaseResult<boolean>> {
     try {
       console.log("🔧 NoteService: Starting database initialization...");
-      const result = await initializeDatabase();
+      const result = await this.repository.initialize(options);
 
       if (result.success) {
         console.log("✅ NoteService: Database initialized successfully");
@@ -73,13 +195,16 @@ export class NoteService {
   // Create a new note
   async createNewNote(params: CreateNoteParams): Promise<DatabaseResult<Note>> {
     try {
-      const result = await createNote({
+      const result = await this.repository.createNote({
         title: params.title || "Untitled Note",
         content: params.content || "<p></p>",
         folderId: params.folderId,
         tags: params.tags || [],
       });
 
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+      }
       if (result.success && __DEV__) {
         console.log("✅ Note created successfully:", result.data?.id);
       }
@@ -103,8 +228,11 @@ export class NoteService {
   // Get note by ID
   async getNote(id: string): Promise<DatabaseResult<Note>> {
     try {
-      const result = await getNoteById(id);
+      const result = await this.repository.getNoteById(id);
 
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+      }
       if (result.success && __DEV__) {
         console.log("✅ Note retrieved successfully:", id);
       }
@@ -125,17 +253,17 @@ export class NoteService {
     }
   }
 
-  // Search notes
+  // Search notes, one page at a time
   async searchNotes(
     params?: SearchNotesParams
-  ): Promise<DatabaseResult<Note[]>> {
+  ): Promise<DatabaseResult<NoteSearchPage>> {
     try {
-      const result = await searchNotes(params);
+      const result = await this.repository.searchNotes(params);
 
       if (result.success && __DEV__) {
         console.log(
           "✅ Notes search completed:",
-          result.data?.length,
+          result.data?.notes.length,
           "results"
         );
       }
@@ -156,13 +284,18 @@ export class NoteService {
     }
   }
 
-  // Immediate save (for explicit save actions)
+  // Immediate save (for explicit save actions). Pending auto-save changes
+  // are folded in, since this save supersedes them.
   async saveNote(params: UpdateNoteParams): Promise<DatabaseResult<Note>> {
     try {
       // Cancel any pending auto-save for this note
       this.cancelAutoSave(params.id);
+      const pending = this.pendingChanges.get(params.id);
+      this.pendingChanges.delete(params.id);
 
-      const result = await updateNote(params);
+      const result = await this.enqueueSave(params.id, () =>
+        this.saveWithMerge({ ...pending, ...params })
+      );
 
       if (result.success && __DEV__) {
         console.log("✅ Note saved successfully:", params.id);
@@ -217,13 +350,25 @@ export class NoteService {
     }
 
     try {
-      const result = await updateNote(changes as UpdateNoteParams);
+      const result = await this.enqueueSave(noteId, () =>
+        this.saveWithMerge(changes as UpdateNoteParams)
+      );
 
       if (result.success) {
-        this.pendingChanges.delete(noteId);
+        // Keep changes scheduled while this save was running
+        if (this.pendingChanges.get(noteId) === changes) {
+          this.pendingChanges.delete(noteId);
+        }
         if (__DEV__) {
           console.log("✅ Auto-save completed for note:", noteId);
         }
+      } else if (isVersionConflict(result.error)) {
+        // Leave the changes pending until the screen resolves the conflict
+        this.notifyConflict({
+          noteId,
+          local: changes as UpdateNoteParams,
+          current: result.error.details.current,
+        });
       } else {
         if (__DEV__) {
           console.error("❌ Auto-save failed for note:", noteId, result.error);
@@ -239,6 +384,137 @@ export class NoteService {
     }
   }
 
+  // Listen for saves that conflict with a change made elsewhere. Returns an
+  // unsubscribe function.
+  onConflict(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  private notifyConflict(conflict: NoteConflict): void {
+    if (__DEV__) {
+      console.warn("⚠️ Save conflict for note:", conflict.noteId);
+    }
+    for (const listener of this.conflictListeners) {
+      listener(conflict);
+    }
+  }
+
+  // Listen for notes changed outside the editor. Some changes, such as pins,
+  // leave the modification time alone, so a list watching for recently
+  // modified notes would miss them. Returns an unsubscribe function.
+  onNotesChanged(listener: NotesChangedListener): () => void {
+    this.notesChangedListeners.add(listener);
+    return () => {
+      this.notesChangedListeners.delete(listener);
+    };
+  }
+
+  // Tell listeners these notes changed, e.g. with SyncReport.changedNoteIds
+  // after a sync
+  notifyNotesChanged(noteIds: string[]): void {
+    if (noteIds.length === 0) {
+      return;
+    }
+    for (const listener of this.notesChangedListeners) {
+      listener(noteIds);
+    }
+  }
+
+  private rememberNote(note: Note): void {
+    this.lastSeenNotes.set(note.id, note);
+  }
+
+  // Run a save after any earlier save for the same note has finished
+  private enqueueSave<T>(noteId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.saveQueues.get(noteId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.saveQueues.set(noteId, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.saveQueues.get(noteId) === next) {
+          this.saveQueues.delete(noteId);
+        }
+      });
+    return next;
+  }
+
+  // Save against the last version this service saw. When another write got
+  // there first, retry on top of it as long as the two changed different
+  // fields; otherwise return the VERSION_CONFLICT.
+  private async saveWithMerge(
+    params: UpdateNoteParams
+  ): Promise<DatabaseResult<Note>> {
+    let base = this.lastSeenNotes.get(params.id);
+    let attempt: UpdateNoteParams = {
+      ...params,
+      expectedVersion: params.expectedVersion ?? base?.metadata.version,
+    };
+
+    for (let retry = 0; ; retry++) {
+      const result = await this.repository.updateNote(attempt);
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+        return result;
+      }
+      if (
+        !isVersionConflict(result.error) ||
+        retry >= this.autoSaveConfig.maxRetries
+      ) {
+        return result;
+      }
+
+      const { current } = result.error.details;
+      const merged = this.mergeConcurrentSave(attempt, base, current);
+      if (!merged) {
+        return result;
+      }
+      if (__DEV__) {
+        console.log("🔀 Merged concurrent save for note:", params.id);
+      }
+      base = current;
+      attempt = merged;
+    }
+  }
+
+  // Three-way merge of a save with the stored note. The base is the note at
+  // the version the save expected; fields the save left as they were there
+  // take the stored value. Returns null when both sides changed the same
+  // field differently, or when the base for the expected version is unknown.
+  private mergeConcurrentSave(
+    params: UpdateNoteParams,
+    base: Note | undefined,
+    current: Note
+  ): UpdateNoteParams | null {
+    if (!base || (base.metadata.version ?? 1) !== params.expectedVersion) {
+      return null;
+    }
+
+    const merged: UpdateNoteParams = {
+      ...params,
+      expectedVersion: current.metadata.version ?? 1,
+    };
+    for (const field of MERGEABLE_FIELDS) {
+      const local = params[field];
+      if (local === undefined) {
+        continue;
+      }
+      if (isSameValue(local, base[field])) {
+        delete merged[field];
+      } else if (
+        !isSameValue(local, current[field]) &&
+        !isSameValue(current[field], base[field])
+      ) {
+        return null;
+      }
+    }
+
+    return merged;
+  }
+
   // Cancel auto-save for a specific note
   cancelAutoSave(noteId: string): void {
     const timer = this.autoSaveTimers.get(noteId);
@@ -281,7 +557,7 @@ export class NoteService {
       this.discardPendingChanges(noteId);
 
       // Then force update the database back to original state
-      const result = await updateNote({
+      const result = await this.repository.updateNote({
         id: noteId,
         title: originalTitle,
         content: originalContent,
@@ -333,8 +609,11 @@ export class NoteService {
       this.cancelAutoSave(id);
       this.pendingChanges.delete(id);
 
-      const result = await deleteNote(id);
+      const result = await this.repository.deleteNote(id);
 
+      if (result.success) {
+        await this.refreshReminders([id]);
+      }
       if (result.success && __DEV__) {
         console.log("✅ Note deleted successfully:", id);
       }
@@ -355,6 +634,2116 @@ export class NoteService {
     }
   }
 
+  // List notes in the trash
+  async getDeletedNotes(): Promise<DatabaseResult<Note[]>> {
+    try {
+      return await this.repository.getDeletedNotes();
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get deleted notes:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_DELETED_NOTES_SERVICE_ERROR",
+          message: "Failed to get deleted notes in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Restore a note from the trash
+  async restoreNote(id: string): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.restoreNote(id);
+
+      if (result.success) {
+        await this.refreshReminders([id]);
+      }
+      if (result.success && __DEV__) {
+        console.log("♻️ Note restored from trash:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to restore note:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RESTORE_NOTE_SERVICE_ERROR",
+          message: "Failed to restore note in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Permanently delete a note and its history
+  async permanentlyDeleteNote(id: string): Promise<DatabaseResult<boolean>> {
+    try {
+      this.discardPendingChanges(id);
+
+      const result = await this.repository.permanentlyDeleteNote(id);
+
+      if (result.success && __DEV__) {
+        console.log("🗑️ Note permanently deleted:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to permanently delete note:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "PERMANENT_DELETE_SERVICE_ERROR",
+          message: "Failed to permanently delete note in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Permanently delete everything in the trash
+  async emptyTrash(): Promise<DatabaseResult<number>> {
+    try {
+      const result = await this.repository.emptyTrash();
+
+      if (result.success && __DEV__) {
+        console.log("🗑️ Trash emptied:", result.data, "notes removed");
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to empty trash:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "EMPTY_TRASH_SERVICE_ERROR",
+          message: "Failed to empty trash in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Move a note into a folder (null for the top level)
+  async moveNoteToFolder(
+    noteId: string,
+    folderId: string | null
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.updateNote({ id: noteId, folderId });
+
+      if (result.success && __DEV__) {
+        console.log("📁 Note moved to folder:", noteId, folderId);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to move note:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "MOVE_NOTE_SERVICE_ERROR",
+          message: "Failed to move note in service",
+          details: { error: String(error), noteId, folderId },
+        },
+      };
+    }
+  }
+
+  // Pin or unpin a note
+  async setPinned(
+    noteId: string,
+    isPinned: boolean
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.setNotePinned(noteId, isPinned);
+
+      if (result.success) {
+        this.notifyNotesChanged([noteId]);
+      }
+      if (result.success && __DEV__) {
+        console.log("📌 Note pin updated:", noteId, isPinned);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to update pin:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SET_PINNED_SERVICE_ERROR",
+          message: "Failed to update pin in service",
+          details: { error: String(error), noteId, isPinned },
+        },
+      };
+    }
+  }
+
+  // Mark or unmark a note as a favorite
+  async setFavorite(
+    noteId: string,
+    isFavorite: boolean
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.setNoteFavorite(noteId, isFavorite);
+
+      if (result.success) {
+        this.notifyNotesChanged([noteId]);
+      }
+      if (result.success && __DEV__) {
+        console.log("⭐ Note favorite updated:", noteId, isFavorite);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to update favorite:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SET_FAVORITE_SERVICE_ERROR",
+          message: "Failed to update favorite in service",
+          details: { error: String(error), noteId, isFavorite },
+        },
+      };
+    }
+  }
+
+  // Set or clear (null) the date a note's reminder fires
+  async setReminder(
+    noteId: string,
+    reminderAt: string | null
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.setNoteReminder(noteId, reminderAt);
+
+      if (result.success && result.data) {
+        await this.scheduleReminder(noteId, result.data);
+        this.notifyNotesChanged([noteId]);
+      }
+      if (result.success && __DEV__) {
+        console.log("⏰ Note reminder updated:", noteId, reminderAt);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to update reminder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SET_REMINDER_SERVICE_ERROR",
+          message: "Failed to update reminder in service",
+          details: { error: String(error), noteId, reminderAt },
+        },
+      };
+    }
+  }
+
+  // Remind again after a while, counted from now
+  async snoozeReminder(
+    noteId: string,
+    minutes: number = DEFAULT_SNOOZE_MINUTES
+  ): Promise<DatabaseResult<Note>> {
+    const reminderAt = new Date(Date.now() + minutes * 60 * 1000);
+    return this.setReminder(noteId, reminderAt.toISOString());
+  }
+
+  // The follow-up is done; the reminder is cleared
+  async completeReminder(noteId: string): Promise<DatabaseResult<Note>> {
+    return this.setReminder(noteId, null);
+  }
+
+  // Register the scheduler that turns reminders into notifications
+  setReminderScheduler(scheduler: ReminderScheduler | null): void {
+    this.reminderScheduler = scheduler;
+  }
+
+  // Replace every scheduled notification with the upcoming reminders, soonest
+  // first. Run on launch to pick up reminders changed by imports, restores
+  // or sync. Returns how many were scheduled.
+  async rescheduleReminders(): Promise<DatabaseResult<number>> {
+    const scheduler = this.reminderScheduler;
+    if (!scheduler) {
+      return { success: true, data: 0 };
+    }
+
+    try {
+      await scheduler.cancelAll();
+
+      let scheduled = 0;
+      let cursor: string | undefined;
+      do {
+        const page = await this.repository.searchNotes({
+          hasReminder: true,
+          sortBy: "reminder",
+          sortOrder: "asc",
+          projection: "list",
+          limit: MAX_SCHEDULED_REMINDERS,
+          cursor,
+        });
+        if (!page.success || !page.data) {
+          return { success: false, error: page.error };
+        }
+
+        // Overdue reminders are listed in the app rather than notified
+        for (const note of page.data.notes) {
+          if (
+            scheduled < MAX_SCHEDULED_REMINDERS &&
+            !isReminderDue(note.reminderAt!)
+          ) {
+            await scheduler.schedule(this.reminderFor(note));
+            scheduled++;
+          }
+        }
+        cursor = page.data.nextCursor ?? undefined;
+      } while (cursor && scheduled < MAX_SCHEDULED_REMINDERS);
+
+      if (__DEV__) {
+        console.log("⏰ Reminders scheduled:", scheduled);
+      }
+
+      return { success: true, data: scheduled };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to reschedule reminders:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RESCHEDULE_REMINDERS_SERVICE_ERROR",
+          message: "Failed to reschedule reminders in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Locked notes never show their title on the lock screen
+  private reminderFor(
+    note: Pick<Note, "id" | "title" | "isLocked" | "reminderAt">
+  ): ScheduledReminder {
+    return {
+      noteId: note.id,
+      title: note.isLocked ? LOCKED_NOTE_TITLE : note.title,
+      fireAt: note.reminderAt!,
+    };
+  }
+
+  // Schedule the note's reminder, or cancel it when there is none to fire.
+  // A note that is gone or in the trash is passed as null.
+  private async scheduleReminder(
+    noteId: string,
+    note: Note | null
+  ): Promise<void> {
+    const scheduler = this.reminderScheduler;
+    if (!scheduler) {
+      return;
+    }
+
+    try {
+      if (note?.reminderAt && !isReminderDue(note.reminderAt)) {
+        await scheduler.schedule(this.reminderFor(note));
+      } else {
+        await scheduler.cancel(noteId);
+      }
+    } catch (error) {
+      // The reminder is stored either way; the next launch schedules it
+      if (__DEV__) {
+        console.error("❌ Failed to schedule reminder:", error);
+      }
+    }
+  }
+
+  // Bring the notifications of changed notes up to date
+  private async refreshReminders(ids: string[]): Promise<void> {
+    if (!this.reminderScheduler) {
+      return;
+    }
+    for (const id of ids) {
+      const result = await this.repository.getNoteById(id);
+      await this.scheduleReminder(id, result.data ?? null);
+    }
+  }
+
+  // Bulk operations each run in a single transaction and report a result
+  // per note id, so a missing note doesn't stop the rest
+
+  // Move several notes to the trash
+  async deleteNotes(ids: string[]): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      for (const id of ids) {
+        this.discardPendingChanges(id);
+      }
+
+      const result = await this.repository.bulkDeleteNotes(ids);
+      await this.refreshReminders(ids);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "🗑️ Notes deleted:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to delete notes:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_DELETE_SERVICE_ERROR",
+          message: "Failed to delete notes in service",
+          details: { error: String(error), ids },
+        },
+      };
+    }
+  }
+
+  // Restore several notes from the trash
+  async restoreNotes(ids: string[]): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      const result = await this.repository.bulkRestoreNotes(ids);
+      await this.refreshReminders(ids);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "♻️ Notes restored:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to restore notes:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_RESTORE_SERVICE_ERROR",
+          message: "Failed to restore notes in service",
+          details: { error: String(error), ids },
+        },
+      };
+    }
+  }
+
+  // Move several notes into a folder (null for the top level)
+  async moveNotesToFolder(
+    ids: string[],
+    folderId: string | null
+  ): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      const result = await this.repository.bulkMoveNotesToFolder(ids, folderId);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "📁 Notes moved to folder:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to move notes:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_MOVE_SERVICE_ERROR",
+          message: "Failed to move notes in service",
+          details: { error: String(error), ids, folderId },
+        },
+      };
+    }
+  }
+
+  // Add tags to several notes
+  async addTagsToNotes(
+    ids: string[],
+    tagNames: string[]
+  ): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      const result = await this.repository.bulkAddTags(ids, tagNames);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "🏷️ Tags added to notes:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to add tags:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_ADD_TAGS_SERVICE_ERROR",
+          message: "Failed to add tags in service",
+          details: { error: String(error), ids, tagNames },
+        },
+      };
+    }
+  }
+
+  // Remove tags from several notes
+  async removeTagsFromNotes(
+    ids: string[],
+    tagNames: string[]
+  ): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      const result = await this.repository.bulkRemoveTags(ids, tagNames);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "🏷️ Tags removed from notes:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to remove tags:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_REMOVE_TAGS_SERVICE_ERROR",
+          message: "Failed to remove tags in service",
+          details: { error: String(error), ids, tagNames },
+        },
+      };
+    }
+  }
+
+  // Pin or unpin several notes
+  async setNotesPinned(
+    ids: string[],
+    isPinned: boolean
+  ): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      const result = await this.repository.bulkSetPinned(ids, isPinned);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "📌 Notes pin updated:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to update pins:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_PIN_SERVICE_ERROR",
+          message: "Failed to update pins in service",
+          details: { error: String(error), ids, isPinned },
+        },
+      };
+    }
+  }
+
+  // Permanently delete several notes
+  async permanentlyDeleteNotes(
+    ids: string[]
+  ): Promise<DatabaseResult<BulkNoteResult[]>> {
+    try {
+      for (const id of ids) {
+        this.discardPendingChanges(id);
+      }
+
+      const result = await this.repository.bulkPermanentlyDeleteNotes(ids);
+
+      if (result.success) {
+        this.notifyNotesChanged(succeededIds(result.data));
+      }
+      if (result.success && __DEV__) {
+        console.log(
+          "🗑️ Notes permanently deleted:",
+          countSucceeded(result.data),
+          "of",
+          ids.length
+        );
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to permanently delete notes:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "BULK_PERMANENT_DELETE_SERVICE_ERROR",
+          message: "Failed to permanently delete notes in service",
+          details: { error: String(error), ids },
+        },
+      };
+    }
+  }
+
+  // Store an image picked in the editor and return the URI to embed
+  async saveImage(dataUrl: string): Promise<DatabaseResult<string>> {
+    try {
+      const result = await this.repository.saveAttachmentFromDataUrl(dataUrl);
+
+      if (result.success && __DEV__) {
+        console.log("🖼️ Image saved as attachment:", result.data);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to save image:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SAVE_IMAGE_SERVICE_ERROR",
+          message: "Failed to save image in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Resolve an attachment URI to a displayable data URL
+  async resolveAttachment(uri: string): Promise<DatabaseResult<string>> {
+    try {
+      return await this.repository.getAttachmentDataUrl(uri);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to resolve attachment:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RESOLVE_ATTACHMENT_SERVICE_ERROR",
+          message: "Failed to resolve attachment in service",
+          details: { error: String(error), uri },
+        },
+      };
+    }
+  }
+
+  // Load the shared document of a note edited together, as a base64 Yjs
+  // update. Null when the note has none yet.
+  async getCollaborationState(
+    noteId: string
+  ): Promise<DatabaseResult<string | null>> {
+    try {
+      return await this.repository.getCollabState(noteId);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get collaboration state:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_COLLABORATION_STATE_SERVICE_ERROR",
+          message: "Failed to get collaboration state in service",
+          details: { error: String(error), noteId },
+        },
+      };
+    }
+  }
+
+  // Persist a base64 Yjs update of a note's shared document. The note's
+  // HTML is still saved through saveNote.
+  async saveCollaborationUpdate(
+    noteId: string,
+    update: string
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      return await this.repository.appendCollabUpdate(noteId, update);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to save collaboration update:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SAVE_COLLABORATION_UPDATE_SERVICE_ERROR",
+          message: "Failed to save collaboration update in service",
+          details: { error: String(error), noteId },
+        },
+      };
+    }
+  }
+
+  // Suggest notes for [[link autocomplete
+  async searchLinkTargets(
+    query: string,
+    excludeNoteId?: string
+  ): Promise<DatabaseResult<NoteLinkTarget[]>> {
+    try {
+      return await this.repository.searchLinkTargets(query, excludeNoteId);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to search link targets:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SEARCH_LINK_TARGETS_SERVICE_ERROR",
+          message: "Failed to search link targets in service",
+          details: { error: String(error), query },
+        },
+      };
+    }
+  }
+
+  // Notes linking to a note and notes mentioning it without a link
+  async getBacklinks(noteId: string): Promise<DatabaseResult<NoteBacklinks>> {
+    try {
+      return await this.repository.getBacklinks(noteId);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get backlinks:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_BACKLINKS_SERVICE_ERROR",
+          message: "Failed to get backlinks in service",
+          details: { error: String(error), noteId },
+        },
+      };
+    }
+  }
+
+  // Turn the first unlinked mention of the target's title in the source note
+  // into a [[link]]
+  async linkMention(
+    sourceNoteId: string,
+    targetNoteId: string
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      // Write out any edits to the source first so they aren't overwritten
+      await this.saveAllPendingChanges();
+
+      const [sourceResult, targetResult] = await Promise.all([
+        this.repository.getNoteById(sourceNoteId),
+        this.repository.getNoteById(targetNoteId),
+      ]);
+      if (!sourceResult.success || !sourceResult.data) {
+        return { success: false, error: sourceResult.error };
+      }
+      if (!targetResult.success || !targetResult.data) {
+        return { success: false, error: targetResult.error };
+      }
+
+      const content = linkFirstMention(
+        sourceResult.data.content,
+        targetNoteId,
+        targetResult.data.title.trim()
+      );
+      if (content === null) {
+        return {
+          success: false,
+          error: {
+            code: "MENTION_NOT_FOUND",
+            message: "The mention could not be found in the note's text",
+            details: { sourceNoteId, targetNoteId },
+          },
+        };
+      }
+
+      const result = await this.repository.updateNote({
+        id: sourceNoteId,
+        content,
+      });
+
+      if (result.success && __DEV__) {
+        console.log("🔗 Mention linked:", sourceNoteId, "→", targetNoteId);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to link mention:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "LINK_MENTION_SERVICE_ERROR",
+          message: "Failed to link mention in service",
+          details: { error: String(error), sourceNoteId, targetNoteId },
+        },
+      };
+    }
+  }
+
+  // Locked notes have their title and text encrypted with a passphrase.
+  // Until unlocked they read as LOCKED_NOTE_TITLE with empty content; the
+  // key is only ever held in memory.
+  async lockNote(
+    id: string,
+    passphrase: string
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      if (passphrase.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: "PASSPHRASE_REQUIRED",
+            message: "Enter a passphrase to lock the note",
+          },
+        };
+      }
+
+      // Save pending edits first so they are locked with the rest
+      this.cancelAutoSave(id);
+      await this.executeAutoSave(id);
+
+      const result = await this.repository.lockNote(id, passphrase);
+
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+        // The notification no longer shows the title
+        await this.refreshReminders([id]);
+      }
+      if (result.success && __DEV__) {
+        console.log("🔒 Note locked:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to lock note:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "LOCK_NOTE_SERVICE_ERROR",
+          message: "Failed to lock note in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  async unlockNote(
+    id: string,
+    passphrase: string
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const result = await this.repository.unlockNote(id, passphrase);
+
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+      }
+      if (result.success && __DEV__) {
+        console.log("🔓 Note unlocked:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to unlock note:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "UNLOCK_NOTE_SERVICE_ERROR",
+          message: "Failed to unlock note in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Save pending edits to an unlocked note, then forget its key and the
+  // decrypted copy kept for merges
+  async relockNote(id: string): Promise<void> {
+    if (!this.repository.isNoteUnlocked(id)) {
+      return;
+    }
+
+    this.cancelAutoSave(id);
+    await this.executeAutoSave(id);
+    this.repository.relockNote(id);
+    this.lastSeenNotes.delete(id);
+  }
+
+  isNoteUnlocked(id: string): boolean {
+    return this.repository.isNoteUnlocked(id);
+  }
+
+  // Store an unlocked note in plaintext again
+  async removeNoteLock(id: string): Promise<DatabaseResult<Note>> {
+    try {
+      this.cancelAutoSave(id);
+      await this.executeAutoSave(id);
+
+      const result = await this.repository.removeNoteLock(id);
+
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+      }
+      if (result.success && __DEV__) {
+        console.log("🔓 Note lock removed:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to remove note lock:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "REMOVE_NOTE_LOCK_SERVICE_ERROR",
+          message: "Failed to remove note lock in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Export a note as Markdown, with its title, tags, dates and pinned state
+  // in YAML front matter. Images stay attachment URIs unless embedImages
+  // inlines them as data URLs for use outside the app.
+  async exportNoteAsMarkdown(
+    id: string,
+    options: { embedImages?: boolean } = {}
+  ): Promise<DatabaseResult<string>> {
+    try {
+      // Export what is on screen, including unsaved edits
+      this.cancelAutoSave(id);
+      await this.executeAutoSave(id);
+
+      const result = await this.repository.getNoteById(id);
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      const note = result.data;
+      if (note.isLocked && !this.repository.isNoteUnlocked(id)) {
+        return {
+          success: false,
+          error: { code: "NOTE_LOCKED", message: "Unlock the note first" },
+        };
+      }
+
+      const content = options.embedImages
+        ? await this.inlineAttachments(note.content)
+        : note.content;
+
+      const markdown =
+        formatFrontMatter({
+          title: note.title,
+          tags: note.tags,
+          created: note.dateCreated,
+          updated: note.lastModified,
+          pinned: note.isPinned,
+        }) +
+        "\n" +
+        htmlToMarkdown(content);
+
+      if (__DEV__) {
+        console.log("📝 Note exported as Markdown:", id);
+      }
+
+      return { success: true, data: markdown };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to export note as Markdown:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "EXPORT_MARKDOWN_SERVICE_ERROR",
+          message: "Failed to export note as Markdown in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Replace attachment image URIs with data URLs so the HTML stands alone.
+  // Missing attachments are left as they are.
+  private async inlineAttachments(content: string): Promise<string> {
+    const uris = new Set(
+      Array.from(
+        content.matchAll(
+          new RegExp(`src="(${ATTACHMENT_URI_SCHEME}[^"]+)"`, "g")
+        ),
+        (match) => match[1]
+      )
+    );
+    for (const uri of uris) {
+      const dataUrl = await this.repository.getAttachmentDataUrl(uri);
+      if (dataUrl.success && dataUrl.data) {
+        content = content.split(uri).join(dataUrl.data);
+      }
+    }
+    return content;
+  }
+
+  // Register the printer used by exportNotesAsPdf
+  setPdfPrinter(printer: PdfPrinter | null): void {
+    this.pdfPrinter = printer;
+  }
+
+  // Build a self-contained HTML document of the notes, in the order given,
+  // with their images inlined. Locked notes must be unlocked first.
+  async exportNotesAsHtml(
+    ids: string[],
+    options: NoteExportOptions = {}
+  ): Promise<DatabaseResult<string>> {
+    try {
+      const notes: ExportedNote[] = [];
+      for (const id of ids) {
+        // Export what is on screen, including unsaved edits
+        this.cancelAutoSave(id);
+        await this.executeAutoSave(id);
+
+        const result = await this.repository.getNoteById(id);
+        if (!result.success || !result.data) {
+          return { success: false, error: result.error };
+        }
+
+        const note = result.data;
+        if (note.isLocked && !this.repository.isNoteUnlocked(id)) {
+          return {
+            success: false,
+            error: {
+              code: "NOTE_LOCKED",
+              message: "Unlock the note first",
+              details: { id },
+            },
+          };
+        }
+
+        notes.push({
+          title: note.title,
+          content: await this.inlineAttachments(note.content),
+          lastModified: note.lastModified,
+        });
+      }
+
+      const html = renderNotesDocument(notes, options);
+
+      if (__DEV__) {
+        console.log("🌐 Notes exported as HTML:", ids.length);
+      }
+
+      return { success: true, data: html };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to export notes as HTML:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "EXPORT_HTML_SERVICE_ERROR",
+          message: "Failed to export notes as HTML in service",
+          details: { error: String(error), ids },
+        },
+      };
+    }
+  }
+
+  // Print the notes' HTML export to a paginated PDF file
+  async exportNotesAsPdf(
+    ids: string[],
+    options: NoteExportOptions = {}
+  ): Promise<DatabaseResult<PrintedPdf>> {
+    if (!this.pdfPrinter) {
+      return {
+        success: false,
+        error: {
+          code: "PDF_PRINTER_UNAVAILABLE",
+          message: "No PDF printer has been registered",
+        },
+      };
+    }
+
+    try {
+      const html = await this.exportNotesAsHtml(ids, options);
+      if (!html.success || !html.data) {
+        return { success: false, error: html.error };
+      }
+
+      const pdf = await this.pdfPrinter.printToFile(
+        html.data,
+        PAGE_DIMENSIONS[options.pageSize ?? "letter"]
+      );
+
+      if (__DEV__) {
+        console.log("🖨️ Notes exported as PDF:", pdf.uri);
+      }
+
+      return { success: true, data: pdf };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to export notes as PDF:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "EXPORT_PDF_SERVICE_ERROR",
+          message: "Failed to export notes as PDF in service",
+          details: { error: String(error), ids },
+        },
+      };
+    }
+  }
+
+  // Read a Markdown file's title and note fields from its front matter. The
+  // title falls back to a leading "# Heading", which is then dropped from
+  // the text, and then to fallbackTitle.
+  private readMarkdownNote(
+    markdown: string,
+    fallbackTitle = ""
+  ): { text: string; params: Omit<CreateNoteParams, "content"> } {
+    const { frontMatter, body } = parseFrontMatter(markdown);
+    let text = body;
+    let title =
+      typeof frontMatter.title === "string" ? frontMatter.title.trim() : "";
+    if (!title) {
+      const heading = /^\s*# +(.+?)(?: +#+)?[ \t]*(?:\r?\n|$)/.exec(text);
+      if (heading) {
+        title = heading[1].trim();
+        text = text.slice(heading[0].length);
+      }
+    }
+
+    // Tags may be a list or one string of them, with or without a "#"
+    const tagList = frontMatter.tags ?? [];
+    const tags = (Array.isArray(tagList) ? tagList : [tagList])
+      .filter((tag) => tag !== null)
+      .flatMap((tag) =>
+        Array.isArray(tagList) ? [String(tag)] : String(tag).split(/[,\s]+/)
+      )
+      .map((tag) => tag.replace(/^#/, ""))
+      .filter(Boolean);
+    const dateOf = (value: FrontMatterValue | undefined) => {
+      const date = typeof value === "string" ? new Date(value) : null;
+      return date && !Number.isNaN(date.getTime())
+        ? date.toISOString()
+        : undefined;
+    };
+
+    return {
+      text,
+      params: {
+        title: title || fallbackTitle,
+        tags,
+        isPinned: frontMatter.pinned === true,
+        dateCreated: dateOf(frontMatter.created),
+        lastModified: dateOf(frontMatter.updated),
+      },
+    };
+  }
+
+  // Existing notes whose titles exactly match, ignoring case, keyed by the
+  // lowercased title
+  private async findNotesByTitle(
+    titles: string[]
+  ): Promise<Map<string, NoteLinkTarget>> {
+    const notes = new Map<string, NoteLinkTarget>();
+    for (const title of titles) {
+      const targets = await this.repository.searchLinkTargets(title);
+      const target = targets.data?.find(
+        (candidate) =>
+          candidate.title.trim().toLowerCase() === title.toLowerCase()
+      );
+      if (target) {
+        notes.set(title.toLowerCase(), target);
+      }
+    }
+    return notes;
+  }
+
+  // Create a note from Markdown. The title comes from front matter, else a
+  // leading "# Heading", which is then dropped from the text. [[Links]] to
+  // existing notes by exact title become note links.
+  async importMarkdown(
+    markdown: string,
+    options: { folderId?: string | null } = {}
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      const { text, params } = this.readMarkdownNote(markdown);
+      const linkTargets = await this.findNotesByTitle(
+        extractWikiLinkTitles(text)
+      );
+
+      const result = await this.repository.createNote({
+        ...params,
+        content: markdownToHtml(text, {
+          wikiLink: (link) =>
+            linkTargets.get(wikiLinkTarget(link).toLowerCase()) ?? null,
+        }),
+        folderId: options.folderId ?? null,
+      });
+
+      if (result.success && result.data) {
+        this.rememberNote(result.data);
+      }
+      if (result.success && __DEV__) {
+        console.log("📝 Note imported from Markdown:", result.data?.id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to import Markdown:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "IMPORT_MARKDOWN_SERVICE_ERROR",
+          message: "Failed to import Markdown in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Import every note in an Evernote .enex export. Notes are created one at
+  // a time; one that fails is reported and the rest still import.
+  async importEnex(
+    enex: string,
+    options: {
+      folderId?: string | null;
+      onProgress?: (progress: ImportProgress) => void;
+    } = {}
+  ): Promise<DatabaseResult<NoteImportResult[]>> {
+    try {
+      if (!isEnex(enex)) {
+        return {
+          success: false,
+          error: {
+            code: "INVALID_ENEX",
+            message: "The file is not an Evernote export",
+          },
+        };
+      }
+
+      const total = countEnexNotes(enex);
+      const results: NoteImportResult[] = [];
+
+      for (const note of readEnexNotes(enex)) {
+        const title = note.title || "Untitled Note";
+        const result = await this.repository.createNote({
+          ...note,
+          title,
+          folderId: options.folderId ?? null,
+        });
+
+        results.push({
+          title,
+          success: result.success,
+          noteId: result.data?.id,
+          error: result.error,
+        });
+        options.onProgress?.({ completed: results.length, total, title });
+      }
+
+      if (__DEV__) {
+        console.log(
+          `🐘 Imported ${countSucceeded(results)} of ${total} Evernote notes`
+        );
+      }
+
+      return { success: true, data: results };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to import Evernote export:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "IMPORT_ENEX_SERVICE_ERROR",
+          message: "Failed to import Evernote export in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Import a tree of Markdown files such as an Obsidian vault. Directories
+  // become folders under options.folderId, reusing folders with the same
+  // name. [[Wiki links]] and relative links between the files become note
+  // links, and relative images are embedded.
+  async importVault(
+    vault: VaultFiles,
+    options: {
+      folderId?: string | null;
+      onProgress?: (progress: ImportProgress) => void;
+    } = {}
+  ): Promise<DatabaseResult<NoteImportResult[]>> {
+    try {
+      const paths = (await vault.list())
+        .filter((path) => !isHiddenPath(path))
+        .sort();
+      const markdownPaths = paths.filter(isMarkdownPath);
+      const rootFolderId = options.folderId ?? null;
+
+      // Folders for every directory holding notes, parents first
+      const folderIds = new Map<string, string | null>([["", rootFolderId]]);
+      const ensureFolder = async (
+        directory: string
+      ): Promise<string | null> => {
+        const known = folderIds.get(directory);
+        if (known !== undefined) {
+          return known;
+        }
+
+        const parentId = await ensureFolder(dirname(directory));
+        const name = basename(directory);
+        const siblings = await this.repository.getFolders(parentId);
+        const existing = siblings.data?.find(
+          (folder) => folder.name.toLowerCase() === name.toLowerCase()
+        );
+        const folder = existing
+          ? { success: true, data: existing }
+          : await this.repository.createFolder({ name, parentId });
+        if (!folder.data) {
+          throw new Error(`Failed to create folder ${directory}`);
+        }
+
+        folderIds.set(directory, folder.data.id);
+        return folder.data.id;
+      };
+
+      // Read every file first so links can point at notes not created yet
+      const entries: {
+        path: string;
+        text: string;
+        params: Omit<CreateNoteParams, "content">;
+        target: NoteLinkTarget;
+      }[] = [];
+      for (const path of markdownPaths) {
+        const { text, params } = this.readMarkdownNote(
+          await vault.readText(path),
+          basename(path, true)
+        );
+        entries.push({
+          path,
+          text,
+          params,
+          target: { id: this.repository.generateNoteId(), title: params.title },
+        });
+      }
+
+      // Links resolve by path, then file name, then title, the way vault
+      // apps look them up
+      const byPath = new Map<string, NoteLinkTarget>();
+      const byName = new Map<string, NoteLinkTarget>();
+      const byTitle = new Map<string, NoteLinkTarget>();
+      for (const { path, target } of [...entries].sort(
+        (a, b) => a.path.split("/").length - b.path.split("/").length
+      )) {
+        const name = basename(path, true).toLowerCase();
+        byPath.set(path.replace(/\.[^.]+$/, "").toLowerCase(), target);
+        if (!byName.has(name)) {
+          byName.set(name, target);
+        }
+        if (!byTitle.has(target.title.toLowerCase())) {
+          byTitle.set(target.title.toLowerCase(), target);
+        }
+      }
+      const findVaultNote = (name: string): NoteLinkTarget | null => {
+        const key = name.replace(/\.(md|markdown)$/i, "").toLowerCase();
+        return byPath.get(key) ?? byName.get(key) ?? byTitle.get(key) ?? null;
+      };
+
+      // Wiki links to notes outside the vault may match existing notes
+      const existingNotes = await this.findNotesByTitle(
+        Array.from(
+          new Set(entries.flatMap((entry) => extractWikiLinkTitles(entry.text)))
+        ).filter((title) => !findVaultNote(title))
+      );
+
+      const filesByName = new Map<string, string>();
+      for (const path of paths) {
+        const name = basename(path).toLowerCase();
+        if (!filesByName.has(name)) {
+          filesByName.set(name, path);
+        }
+      }
+      const pathSet = new Set(paths);
+
+      const results: NoteImportResult[] = [];
+      const linkingNoteIds: string[] = [];
+      for (const { path, text, params, target } of entries) {
+        try {
+          // Load this note's images as data URLs, which createNote moves
+          // into the attachment store
+          const images = new Map<string, string>();
+          for (const imagePath of extractImagePaths(text)) {
+            const relative = resolveVaultLink(path, imagePath);
+            const filePath =
+              relative && pathSet.has(relative)
+                ? relative
+                : filesByName.get(basename(imagePath).toLowerCase());
+            const mimeType = filePath ? imageMimeType(filePath) : null;
+            if (filePath && mimeType) {
+              images.set(
+                imagePath,
+                `data:${mimeType};base64,${await vault.readBase64(filePath)}`
+              );
+            }
+          }
+
+          let linksVaultNote = false;
+          const content = markdownToHtml(text, {
+            wikiLink: (link) => {
+              const name = wikiLinkTarget(link);
+              const note = findVaultNote(name);
+              linksVaultNote ||= note !== null;
+              return note ?? existingNotes.get(name.toLowerCase()) ?? null;
+            },
+            relativeLink: (url) => {
+              const linked = resolveVaultLink(path, url);
+              const note =
+                linked && isMarkdownPath(linked)
+                  ? (byPath.get(linked.replace(/\.[^.]+$/, "").toLowerCase()) ??
+                    null)
+                  : null;
+              linksVaultNote ||= note !== null;
+              return note;
+            },
+            image: (imagePath) => images.get(imagePath) ?? null,
+          });
+
+          const result = await this.repository.createNote({
+            ...params,
+            id: target.id,
+            content,
+            folderId: await ensureFolder(dirname(path)),
+          });
+
+          if (result.success && linksVaultNote) {
+            linkingNoteIds.push(target.id);
+          }
+          results.push({
+            title: params.title,
+            success: result.success,
+            noteId: result.data?.id,
+            error: result.error,
+          });
+        } catch (error) {
+          results.push({
+            title: params.title,
+            success: false,
+            error: {
+              code: "IMPORT_VAULT_NOTE_ERROR",
+              message: "Failed to import note",
+              details: { error: String(error), path },
+            },
+          });
+        }
+        options.onProgress?.({
+          completed: results.length,
+          total: entries.length,
+          title: params.title,
+        });
+      }
+
+      // Links to notes created later were skipped when indexing; add them
+      if (linkingNoteIds.length > 0) {
+        await this.repository.reindexNoteLinks(linkingNoteIds);
+      }
+
+      if (__DEV__) {
+        console.log(
+          `📂 Imported ${countSucceeded(results)} of ${entries.length} vault notes`
+        );
+      }
+
+      return { success: true, data: results };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to import vault:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "IMPORT_VAULT_SERVICE_ERROR",
+          message: "Failed to import vault in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // List folders (children of parentId, or all folders when omitted)
+  async getFolders(
+    parentId?: string | null
+  ): Promise<DatabaseResult<FolderWithCount[]>> {
+    try {
+      return await this.repository.getFolders(parentId);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get folders:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_FOLDERS_SERVICE_ERROR",
+          message: "Failed to get folders in service",
+          details: { error: String(error), parentId },
+        },
+      };
+    }
+  }
+
+  // Get folder by ID
+  async getFolder(id: string): Promise<DatabaseResult<Folder>> {
+    try {
+      return await this.repository.getFolderById(id);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get folder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_FOLDER_SERVICE_ERROR",
+          message: "Failed to get folder in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Get the breadcrumb path from the top level down to a folder
+  async getFolderPath(id: string): Promise<DatabaseResult<Folder[]>> {
+    try {
+      return await this.repository.getFolderPath(id);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get folder path:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_FOLDER_PATH_SERVICE_ERROR",
+          message: "Failed to get folder path in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Create a new folder
+  async createFolder(
+    params: CreateFolderParams
+  ): Promise<DatabaseResult<Folder>> {
+    try {
+      const result = await this.repository.createFolder(params);
+
+      if (result.success && __DEV__) {
+        console.log("✅ Folder created successfully:", result.data?.id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to create folder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "CREATE_FOLDER_SERVICE_ERROR",
+          message: "Failed to create folder in service",
+          details: { error: String(error), params },
+        },
+      };
+    }
+  }
+
+  // Rename a folder
+  async renameFolder(
+    id: string,
+    name: string
+  ): Promise<DatabaseResult<Folder>> {
+    try {
+      return await this.repository.updateFolder({ id, name });
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to rename folder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RENAME_FOLDER_SERVICE_ERROR",
+          message: "Failed to rename folder in service",
+          details: { error: String(error), id, name },
+        },
+      };
+    }
+  }
+
+  // Move a folder under a new parent (null for the top level)
+  async moveFolder(
+    id: string,
+    parentId: string | null
+  ): Promise<DatabaseResult<Folder>> {
+    try {
+      return await this.repository.updateFolder({ id, parentId });
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to move folder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "MOVE_FOLDER_SERVICE_ERROR",
+          message: "Failed to move folder in service",
+          details: { error: String(error), id, parentId },
+        },
+      };
+    }
+  }
+
+  // Set or clear a folder's color
+  async setFolderColor(
+    id: string,
+    color: string | null
+  ): Promise<DatabaseResult<Folder>> {
+    try {
+      return await this.repository.updateFolder({ id, color });
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to set folder color:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SET_FOLDER_COLOR_SERVICE_ERROR",
+          message: "Failed to set folder color in service",
+          details: { error: String(error), id, color },
+        },
+      };
+    }
+  }
+
+  // Delete a folder, trashing its contents or moving them up a level
+  async deleteFolder(
+    id: string,
+    mode: DeleteFolderMode
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = await this.repository.deleteFolder(id, mode);
+
+      if (result.success && __DEV__) {
+        console.log("✅ Folder deleted successfully:", id, mode);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to delete folder:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "DELETE_FOLDER_SERVICE_ERROR",
+          message: "Failed to delete folder in service",
+          details: { error: String(error), id, mode },
+        },
+      };
+    }
+  }
+
+  // List all tags with usage counts
+  async getTags(): Promise<DatabaseResult<TagWithCount[]>> {
+    try {
+      return await this.repository.getTagsWithCounts();
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get tags:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_TAGS_SERVICE_ERROR",
+          message: "Failed to get tags in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Rename a tag on every note that uses it
+  async renameTag(id: string, name: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = await this.repository.renameTag(id, name);
+
+      if (result.success && __DEV__) {
+        console.log("🏷️ Tag renamed:", id, name);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to rename tag:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RENAME_TAG_SERVICE_ERROR",
+          message: "Failed to rename tag in service",
+          details: { error: String(error), id, name },
+        },
+      };
+    }
+  }
+
+  // Merge tags into a target tag
+  async mergeTags(
+    sourceIds: string[],
+    targetId: string
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = await this.repository.mergeTags(sourceIds, targetId);
+
+      if (result.success && __DEV__) {
+        console.log("🏷️ Tags merged:", sourceIds, "→", targetId);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to merge tags:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "MERGE_TAGS_SERVICE_ERROR",
+          message: "Failed to merge tags in service",
+          details: { error: String(error), sourceIds, targetId },
+        },
+      };
+    }
+  }
+
+  // Delete a tag from every note
+  async deleteTag(id: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = await this.repository.deleteTag(id);
+
+      if (result.success && __DEV__) {
+        console.log("🏷️ Tag deleted:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to delete tag:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "DELETE_TAG_SERVICE_ERROR",
+          message: "Failed to delete tag in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // List templates by name
+  async getTemplates(): Promise<DatabaseResult<NoteTemplate[]>> {
+    try {
+      return await this.repository.getTemplates();
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get templates:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_TEMPLATES_SERVICE_ERROR",
+          message: "Failed to get templates in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Save a note's title, text, tags and folder as a template, named after
+  // its title. Variables written in the note are kept for expansion.
+  async saveNoteAsTemplate(
+    noteId: string
+  ): Promise<DatabaseResult<NoteTemplate>> {
+    try {
+      // Save what is on screen, including unsaved edits
+      this.cancelAutoSave(noteId);
+      await this.executeAutoSave(noteId);
+
+      const noteResult = await this.repository.getNoteById(noteId);
+      if (!noteResult.success || !noteResult.data) {
+        return { success: false, error: noteResult.error };
+      }
+
+      // A template would keep the text in plaintext
+      const note = noteResult.data;
+      if (note.isLocked) {
+        return {
+          success: false,
+          error: {
+            code: "NOTE_LOCKED",
+            message: "Locked notes can't be saved as templates",
+            details: { noteId },
+          },
+        };
+      }
+
+      const result = await this.repository.createTemplate({
+        name: templateNameFromTitle(note.title) || "Untitled Template",
+        titlePattern: note.title,
+        content: note.content,
+        tags: note.tags,
+        folderId: note.folderId,
+      });
+
+      if (result.success && __DEV__) {
+        console.log("📋 Note saved as template:", noteId, result.data?.id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to save note as template:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SAVE_TEMPLATE_SERVICE_ERROR",
+          message: "Failed to save note as template in service",
+          details: { error: String(error), noteId },
+        },
+      };
+    }
+  }
+
+  // Rename a template or change what it creates
+  async updateTemplate(
+    params: UpdateTemplateParams
+  ): Promise<DatabaseResult<NoteTemplate>> {
+    try {
+      return await this.repository.updateTemplate(params);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to update template:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "UPDATE_TEMPLATE_SERVICE_ERROR",
+          message: "Failed to update template in service",
+          details: { error: String(error), params },
+        },
+      };
+    }
+  }
+
+  // Delete a template
+  async deleteTemplate(id: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const result = await this.repository.deleteTemplate(id);
+
+      if (result.success && __DEV__) {
+        console.log("📋 Template deleted:", id);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to delete template:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "DELETE_TEMPLATE_SERVICE_ERROR",
+          message: "Failed to delete template in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Create a note from a template with its variables filled in. The note
+  // goes in folderId when given, else the template's folder, or the top
+  // level if that folder is gone.
+  async createNoteFromTemplate(
+    templateId: string,
+    folderId?: string | null
+  ): Promise<DatabaseResult<TemplateNote>> {
+    try {
+      const templateResult = await this.repository.getTemplateById(templateId);
+      if (!templateResult.success || !templateResult.data) {
+        return { success: false, error: templateResult.error };
+      }
+      const template = templateResult.data;
+
+      let targetFolderId = folderId ?? template.folderId;
+      if (targetFolderId) {
+        const folder = await this.repository.getFolderById(targetFolderId);
+        if (!folder.success) {
+          targetFolderId = null;
+        }
+      }
+
+      const expanded = expandTemplate(template);
+      const result = await this.createNewNote({
+        title: expanded.title,
+        content: expanded.content,
+        folderId: targetFolderId,
+        tags: template.tags,
+      });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      return {
+        success: true,
+        data: { note: result.data, cursor: expanded.cursor },
+      };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to create note from template:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "CREATE_FROM_TEMPLATE_SERVICE_ERROR",
+          message: "Failed to create note from template in service",
+          details: { error: String(error), templateId, folderId },
+        },
+      };
+    }
+  }
+
+  // List a note's revision history, newest first
+  async getNoteRevisions(
+    noteId: string
+  ): Promise<DatabaseResult<NoteRevisionSummary[]>> {
+    try {
+      return await this.repository.getNoteRevisions(noteId);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get note revisions:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_REVISIONS_SERVICE_ERROR",
+          message: "Failed to get note revisions in service",
+          details: { error: String(error), noteId },
+        },
+      };
+    }
+  }
+
+  // Get a single revision including its content
+  async getNoteRevision(id: string): Promise<DatabaseResult<NoteRevision>> {
+    try {
+      return await this.repository.getNoteRevisionById(id);
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to get note revision:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "GET_REVISION_SERVICE_ERROR",
+          message: "Failed to get note revision in service",
+          details: { error: String(error), id },
+        },
+      };
+    }
+  }
+
+  // Restore a note to a past revision. The restore is saved as a new
+  // revision so the state it replaced stays in the history.
+  async restoreRevision(
+    noteId: string,
+    revisionId: string
+  ): Promise<DatabaseResult<Note>> {
+    try {
+      this.discardPendingChanges(noteId);
+
+      const revisionResult =
+        await this.repository.getNoteRevisionById(revisionId);
+      if (!revisionResult.success || !revisionResult.data) {
+        return { success: false, error: revisionResult.error };
+      }
+
+      const revision = revisionResult.data;
+      if (revision.noteId !== noteId) {
+        return {
+          success: false,
+          error: {
+            code: "REVISION_NOT_FOUND",
+            message: "Revision does not belong to this note",
+            details: { noteId, revisionId },
+          },
+        };
+      }
+
+      const result = await this.repository.updateNote({
+        id: noteId,
+        title: revision.title,
+        content: revision.content,
+        startNewRevision: true,
+      });
+
+      if (result.success && __DEV__) {
+        console.log("⏪ Note restored to revision:", noteId, revisionId);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to restore revision:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RESTORE_REVISION_SERVICE_ERROR",
+          message: "Failed to restore revision in service",
+          details: { error: String(error), noteId, revisionId },
+        },
+      };
+    }
+  }
+
+  // Archive every note, trashed ones included, with folders, tags,
+  // revisions and attachment files. Returns the archive as JSON text.
+  async createBackup(): Promise<DatabaseResult<string>> {
+    try {
+      await this.saveAllPendingChanges();
+
+      const result = await this.repository.createBackup();
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      if (__DEV__) {
+        console.log("📦 Backup created:", result.data.manifest.counts);
+      }
+
+      return { success: true, data: JSON.stringify(result.data) };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to create backup:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "CREATE_BACKUP_SERVICE_ERROR",
+          message: "Failed to create backup in service",
+          details: { error: String(error) },
+        },
+      };
+    }
+  }
+
+  // Restore an archive from createBackup. Nothing changes unless its
+  // manifest and checksums check out.
+  async restoreBackup(
+    archive: string,
+    mode: RestoreMode
+  ): Promise<DatabaseResult<RestoreReport>> {
+    try {
+      const validation = await this.repository.validateBackup(archive);
+      if (!validation.success || !validation.data) {
+        return { success: false, error: validation.error };
+      }
+
+      // Pending edits are saved first so a merge can weigh them
+      await this.saveAllPendingChanges();
+
+      const result = await this.repository.restoreBackup(validation.data, mode);
+
+      if (result.success) {
+        this.lastSeenNotes.clear();
+        await this.rescheduleReminders();
+      }
+      if (result.success && __DEV__) {
+        console.log("📦 Backup restored:", result.data);
+      }
+
+      return result;
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to restore backup:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "RESTORE_BACKUP_SERVICE_ERROR",
+          message: "Failed to restore backup in service",
+          details: { error: String(error), mode },
+        },
+      };
+    }
+  }
+
   // Update title with auto-save
   updateTitle(noteId: string, title: string): void {
     this.scheduleAutoSave({
@@ -388,6 +2777,7 @@ export class NoteService {
 
     this.autoSaveTimers.clear();
     this.pendingChanges.clear();
+    this.lastSeenNotes.clear();
   }
 }
 
@@ -0,0 +1,258 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { createNodeNoteRepository } from "../database/drivers/node";
+import { NoteRepository } from "../database/NoteRepository";
+import { createHttpSyncTransport } from "../lib/httpSyncTransport";
+import { SyncService } from "./SyncService";
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+const {
+  createSyncHandler,
+  createSyncStore,
+} = require("../scripts/sync-server");
+/* eslint-enable @typescript-eslint/no-require-imports */
+
+interface Device {
+  repository: NoteRepository;
+  sync: SyncService;
+}
+
+describe("SyncService against the reference server", () => {
+  let directory: string;
+  let server: Server;
+  let phone: Device;
+  let tablet: Device;
+
+  // Only one SQLite database is open at a time; initializing a device's
+  // repository switches to it
+  const openDevice = async (device: Device): Promise<void> => {
+    expect((await device.repository.initialize()).success).toBe(true);
+  };
+
+  const createDevice = (name: string, serverUrl: string): Device => {
+    const repository = createNodeNoteRepository({
+      filename: path.join(directory, `${name}.db`),
+      attachmentsDirectory: path.join(directory, `${name}-attachments`),
+    });
+    return {
+      repository,
+      sync: new SyncService(
+        createHttpSyncTransport(serverUrl, { token: "secret" }),
+        { batchSize: 2 },
+        repository
+      ),
+    };
+  };
+
+  const syncDevice = async (device: Device) => {
+    await openDevice(device);
+    const result = await device.sync.sync();
+    expect(result.success).toBe(true);
+    return result.data!;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), "inky-sync-"));
+    server = createServer(
+      createSyncHandler(createSyncStore(), { token: "secret" })
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const serverUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    phone = createDevice("phone", serverUrl);
+    tablet = createDevice("tablet", serverUrl);
+  });
+
+  afterEach(async () => {
+    await phone.repository.close();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("carries notes and folders from one device to another", async () => {
+    await openDevice(phone);
+    const folder = await phone.repository.createFolder({ name: "Work" });
+    const note = await phone.repository.createNote({
+      title: "Standup",
+      content: "<p>Ship sync</p>",
+      folderId: folder.data!.id,
+      tags: ["team"],
+    });
+    await phone.repository.setNotePinned(note.data!.id, true);
+
+    const pushed = await syncDevice(phone);
+    expect(pushed.pushed).toBe(2);
+
+    const pulled = await syncDevice(tablet);
+    expect(pulled.pulled).toBe(2);
+    expect(pulled.changedNoteIds).toEqual([note.data!.id]);
+
+    const copy = await tablet.repository.getNoteById(note.data!.id);
+    expect(copy.data).toMatchObject({
+      title: "Standup",
+      content: "<p>Ship sync</p>",
+      folderId: folder.data!.id,
+      tags: ["team"],
+      isPinned: true,
+    });
+    expect((await tablet.repository.getSyncStatus()).data!.pendingChanges).toBe(
+      0
+    );
+  });
+
+  it("reports pulled notes whose modification time is older than the last refresh", async () => {
+    await openDevice(phone);
+    const note = await phone.repository.createNote({
+      title: "Groceries",
+      content: "<p>Milk</p>",
+    });
+    await syncDevice(phone);
+    await syncDevice(tablet);
+
+    await openDevice(phone);
+    await phone.repository.updateNote({
+      id: note.data!.id,
+      content: "<p>Milk, eggs</p>",
+    });
+    await syncDevice(phone);
+
+    // The tablet's list was refreshed after the phone's edit
+    const refreshedAt = new Date(Date.now() + 1000).toISOString();
+    const pulled = await syncDevice(tablet);
+
+    expect(pulled.changedNoteIds).toEqual([note.data!.id]);
+    const sinceRefresh = await tablet.repository.searchNotes({
+      updatedSince: refreshedAt,
+    });
+    expect(sinceRefresh.data!.notes).toHaveLength(0);
+    const byId = await tablet.repository.searchNotes({
+      ids: pulled.changedNoteIds,
+    });
+    expect(byId.data!.notes[0].content).toBe("<p>Milk, eggs</p>");
+  });
+
+  it("reports notes deleted on another device", async () => {
+    await openDevice(phone);
+    const note = await phone.repository.createNote({
+      title: "Draft",
+      content: "<p>Old idea</p>",
+    });
+    await syncDevice(phone);
+    await syncDevice(tablet);
+
+    await openDevice(phone);
+    await phone.repository.permanentlyDeleteNote(note.data!.id);
+    await syncDevice(phone);
+    const pulled = await syncDevice(tablet);
+
+    expect(pulled.changedNoteIds).toEqual([note.data!.id]);
+    expect((await tablet.repository.getNoteById(note.data!.id)).success).toBe(
+      false
+    );
+  });
+
+  it("merges a local pin into text edited on another device", async () => {
+    await openDevice(phone);
+    const note = await phone.repository.createNote({
+      title: "Plan",
+      content: "<p>Draft</p>",
+    });
+    const id = note.data!.id;
+    await syncDevice(phone);
+    await syncDevice(tablet);
+
+    await openDevice(tablet);
+    await tablet.repository.setNotePinned(id, true);
+    await openDevice(phone);
+    await phone.repository.updateNote({ id, content: "<p>Final</p>" });
+    await syncDevice(phone);
+    const pulled = await syncDevice(tablet);
+
+    expect(pulled.conflictedCopies).toBe(0);
+    expect(
+      (await tablet.repository.searchNotes({ query: "Plan" })).data!.notes
+    ).toHaveLength(1);
+    expect((await tablet.repository.getNoteById(id)).data).toMatchObject({
+      content: "<p>Final</p>",
+      isPinned: true,
+    });
+
+    await syncDevice(phone);
+    expect((await phone.repository.getNoteById(id)).data).toMatchObject({
+      content: "<p>Final</p>",
+      isPinned: true,
+    });
+  });
+
+  it("keeps flags changed on both devices", async () => {
+    await openDevice(phone);
+    const note = await phone.repository.createNote({
+      title: "Plan",
+      content: "<p>Draft</p>",
+    });
+    const id = note.data!.id;
+    await syncDevice(phone);
+    await syncDevice(tablet);
+
+    await openDevice(tablet);
+    await tablet.repository.setNotePinned(id, true);
+    await openDevice(phone);
+    await phone.repository.setNoteFavorite(id, true);
+    await syncDevice(phone);
+    await syncDevice(tablet);
+    await syncDevice(phone);
+
+    for (const device of [phone, tablet]) {
+      await openDevice(device);
+      expect((await device.repository.getNoteById(id)).data).toMatchObject({
+        isPinned: true,
+        isFavorite: true,
+      });
+    }
+  });
+
+  it("keeps both sides of diverging edits and reports the copy", async () => {
+    await openDevice(phone);
+    const note = await phone.repository.createNote({
+      title: "Plan",
+      content: "<p>Draft</p>",
+    });
+    const id = note.data!.id;
+    await syncDevice(phone);
+    await syncDevice(tablet);
+
+    await openDevice(tablet);
+    await tablet.repository.updateNote({ id, content: "<p>Tablet</p>" });
+    await openDevice(phone);
+    await phone.repository.updateNote({ id, content: "<p>Phone</p>" });
+    await syncDevice(phone);
+    const pulled = await syncDevice(tablet);
+
+    expect(pulled.conflictedCopies).toBe(1);
+    expect(pulled.changedNoteIds).toHaveLength(2);
+    expect(pulled.changedNoteIds).toContain(id);
+    const notes = await tablet.repository.searchNotes({
+      ids: pulled.changedNoteIds,
+    });
+    expect(notes.data!.notes.map((n) => n.content).sort()).toEqual([
+      "<p>Phone</p>",
+      "<p>Tablet</p>",
+    ]);
+
+    // The copy goes up on the tablet's push and comes down to the phone
+    await syncDevice(tablet);
+    const phoneReport = await syncDevice(phone);
+    expect(phoneReport.changedNoteIds).toHaveLength(1);
+    expect(
+      (await phone.repository.searchNotes({ query: "Plan" })).data!.notes
+    ).toHaveLength(2);
+  });
+});
@@ -0,0 +1,189 @@
+import { DatabaseResult } from "../database/models/Note";
+import {
+  PendingSyncChange,
+  PushedSyncChange,
+  SyncReport,
+  SyncStatus,
+  SyncTransport,
+} from "../database/models/Sync";
+import {
+  createSQLiteNoteRepository,
+  NoteRepository,
+} from "../database/NoteRepository";
+
+interface SyncConfig {
+  batchSize: number; // Records per pull page and per push
+  maxRounds: number; // Pull/push rounds before giving up on push conflicts
+}
+
+// Sync engine: pulls the server's changes since the last cursor, then pushes
+// local changes in batches. A push the server rejects as a conflict means
+// another device got there first; the next round pulls that version,
+// resolves the conflict locally and pushes again.
+export class SyncService {
+  private config: SyncConfig = {
+    batchSize: 100,
+    maxRounds: 3,
+  };
+
+  private runningSync: Promise<DatabaseResult<SyncReport>> | null = null;
+
+  // Defaults to SQLite on the driver configured with setDatabaseDriver
+  constructor(
+    private transport: SyncTransport,
+    config?: Partial<SyncConfig>,
+    private repository: NoteRepository = createSQLiteNoteRepository()
+  ) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  async getStatus(): Promise<DatabaseResult<SyncStatus>> {
+    return this.repository.getSyncStatus();
+  }
+
+  // Sync with the server. Calls made while a sync is running share it.
+  // Save pending edits first (NoteService.saveAllPendingChanges) so they
+  // are included, and pass the report's changedNoteIds to
+  // NoteService.notifyNotesChanged afterwards so open lists reload them.
+  sync(): Promise<DatabaseResult<SyncReport>> {
+    if (!this.runningSync) {
+      this.runningSync = this.runSync().finally(() => {
+        this.runningSync = null;
+      });
+    }
+    return this.runningSync;
+  }
+
+  private async runSync(): Promise<DatabaseResult<SyncReport>> {
+    const report: SyncReport = {
+      pulled: 0,
+      pushed: 0,
+      conflicts: 0,
+      conflictedCopies: 0,
+      changedNoteIds: [],
+    };
+
+    try {
+      const status = await this.repository.getSyncStatus();
+      if (!status.success || !status.data) {
+        return { success: false, error: status.error };
+      }
+      const { deviceId } = status.data;
+      let cursor = status.data.cursor;
+
+      for (let round = 0; round < this.config.maxRounds; round++) {
+        const pulled = await this.pull(cursor, report);
+        if (!pulled.success) {
+          return { success: false, error: pulled.error };
+        }
+        cursor = pulled.data!;
+
+        const pushed = await this.push(deviceId, report);
+        if (!pushed.success) {
+          return { success: false, error: pushed.error };
+        }
+        if (pushed.data) {
+          break;
+        }
+      }
+
+      if (__DEV__) {
+        console.log("🔄 Sync finished:", report);
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      if (__DEV__) {
+        console.error("❌ Failed to sync:", error);
+      }
+      return {
+        success: false,
+        error: {
+          code: "SYNC_SERVICE_ERROR",
+          message: "Failed to sync with the server",
+          details: { error: String(error), report },
+        },
+      };
+    }
+  }
+
+  // Apply every page of remote changes. Returns the new cursor.
+  private async pull(
+    cursor: number,
+    report: SyncReport
+  ): Promise<DatabaseResult<number>> {
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.transport.pull(cursor, this.config.batchSize);
+      const applied = await this.repository.applySyncRecords(
+        page.records,
+        page.cursor
+      );
+      if (!applied.success || !applied.data) {
+        return { success: false, error: applied.error };
+      }
+
+      report.pulled += applied.data.applied;
+      report.conflicts += applied.data.conflicts;
+      report.conflictedCopies += applied.data.conflictedCopies;
+      report.changedNoteIds = Array.from(
+        new Set([...report.changedNoteIds, ...applied.data.changedNoteIds])
+      );
+      cursor = page.cursor;
+      hasMore = page.hasMore;
+    }
+    return { success: true, data: cursor };
+  }
+
+  // Push local changes batch by batch. Returns false when the server
+  // reported conflicts, which stay pending for the next round.
+  private async push(
+    deviceId: string,
+    report: SyncReport
+  ): Promise<DatabaseResult<boolean>> {
+    while (true) {
+      const pending = await this.repository.getPendingSyncChanges(
+        this.config.batchSize
+      );
+      if (!pending.success || !pending.data) {
+        return { success: false, error: pending.error };
+      }
+      if (pending.data.length === 0) {
+        return { success: true, data: true };
+      }
+
+      const changes: PendingSyncChange[] = pending.data;
+      const response = await this.transport.push({
+        deviceId,
+        changes: changes.map(({ entity, id, baseVersion, deleted, data }) => ({
+          entity,
+          id,
+          baseVersion,
+          deleted,
+          data,
+        })),
+      });
+
+      const accepted: PushedSyncChange[] = [];
+      response.results.forEach((result, index) => {
+        if (result.status === "accepted") {
+          const { entity, id, seq, data } = changes[index];
+          accepted.push({ entity, id, seq, version: result.version, data });
+        }
+      });
+
+      const marked = await this.repository.markSyncChangesPushed(accepted);
+      if (!marked.success) {
+        return { success: false, error: marked.error };
+      }
+      report.pushed += accepted.length;
+
+      // Conflicts are counted when the next pull resolves them
+      if (accepted.length < changes.length) {
+        return { success: true, data: false };
+      }
+    }
+  }
+}